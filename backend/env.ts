@@ -4,10 +4,24 @@ const env = {
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:4200',
   BETTER_AUTH_URL: process.env.BETTER_AUTH_URL || 'http://localhost:3000',
   BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET || 'your-secret-key',
+  CURSOR_SECRET: process.env.CURSOR_SECRET || process.env.BETTER_AUTH_SECRET || 'your-secret-key',
   GITHUB_CLIENT_ID: process.env.GITHUB_CLIENT_ID || '',
   GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET || '',
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || '',
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || '',
+  ADMIN_EMAILS: (process.env.ADMIN_EMAILS || '').split(',').map((email) => email.trim().toLowerCase()).filter(Boolean),
+  METADATA_PROVIDERS: (process.env.METADATA_PROVIDERS || '').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean),
+  METADATA_CACHE_TTL_SECONDS: Number(process.env.METADATA_CACHE_TTL_SECONDS || 86400),
+  METADATA_TIMEOUT_MS: Number(process.env.METADATA_TIMEOUT_MS || 5000),
+  METADATA_FIXTURES_PATH: process.env.METADATA_FIXTURES_PATH || '',
+  TMDB_API_KEY: process.env.TMDB_API_KEY || '',
+  OMDB_API_KEY: process.env.OMDB_API_KEY || '',
+  OPENLIBRARY_URL: process.env.OPENLIBRARY_URL || 'https://openlibrary.org',
+  REALTIME_BROKER: (process.env.REALTIME_BROKER || 'memory').trim().toLowerCase(),
+  TAG_ALIASES: (process.env.TAG_ALIASES || '').split(',').filter((pair) => pair.trim()).map((pair) => {
+    const [alias = '', canonical = ''] = pair.split('=');
+    return [alias, canonical] as const;
+  }),
 };
 
 export default env;
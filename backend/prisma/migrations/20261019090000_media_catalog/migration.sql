@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN     "catalog_key" TEXT,
+ADD COLUMN     "external_ids" JSONB;
+
+-- CreateIndex
+CREATE INDEX "media_catalog_key_idx" ON "media"("catalog_key");
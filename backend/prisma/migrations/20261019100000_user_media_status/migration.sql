@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "WatchStatus" AS ENUM ('PLANNED', 'IN_PROGRESS', 'COMPLETED', 'DROPPED', 'ON_HOLD');
+
+-- CreateTable
+CREATE TABLE "user_media" (
+    "id" TEXT NOT NULL,
+    "status" "WatchStatus" NOT NULL DEFAULT 'PLANNED',
+    "season" INTEGER,
+    "episode" INTEGER,
+    "page" INTEGER,
+    "percent" INTEGER,
+    "timestamp_seconds" INTEGER,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "rewatch_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+
+    CONSTRAINT "user_media_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_media_userId_status_idx" ON "user_media"("userId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_media_userId_mediaId_key" ON "user_media"("userId", "mediaId");
+
+-- AddForeignKey
+ALTER TABLE "user_media" ADD CONSTRAINT "user_media_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_media" ADD CONSTRAINT "user_media_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
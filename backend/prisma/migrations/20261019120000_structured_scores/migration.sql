@@ -0,0 +1,24 @@
+-- Convert legacy numeric scores ({ "imdb": 8.8 }) to provider-keyed score objects
+UPDATE "media"
+SET "scores" = (
+  SELECT jsonb_object_agg(
+    entry.key,
+    CASE WHEN jsonb_typeof(entry.value) = 'number' THEN jsonb_build_object(
+      'value', entry.value,
+      'scale', scale.max,
+      'votes', NULL,
+      'fetchedAt', to_char("media"."updated_at", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+      'normalized', round(entry.value::text::numeric / scale.max * 1000) / 10
+    ) ELSE entry.value END
+  )
+  FROM jsonb_each("media"."scores") AS entry,
+  LATERAL (
+    SELECT CASE
+      WHEN entry.key IN ('goodreads', 'letterboxd') THEN 5
+      WHEN entry.key IN ('rottenTomatoes', 'metacritic') THEN 100
+      WHEN jsonb_typeof(entry.value) = 'number' AND entry.value::text::numeric > 10 THEN 100
+      ELSE 10
+    END AS max
+  ) AS scale
+)
+WHERE jsonb_typeof("scores") = 'object' AND "scores" <> '{}'::jsonb;
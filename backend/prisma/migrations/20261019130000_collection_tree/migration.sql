@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "collections" ADD COLUMN     "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "collections_parent_id_idx" ON "collections"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "collections" ADD CONSTRAINT "collections_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "collections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "Priority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'MUST');
+
+-- AlterTable
+ALTER TABLE "collection_media" ADD COLUMN     "due_date" TIMESTAMP(3),
+ADD COLUMN     "priority" "Priority" NOT NULL DEFAULT 'NORMAL';
+
+-- CreateIndex
+CREATE INDEX "collection_media_priority_due_date_idx" ON "collection_media"("priority", "due_date");
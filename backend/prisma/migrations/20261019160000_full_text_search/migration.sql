@@ -0,0 +1,45 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- Text search configuration ignoring case and accents, without stemming: the catalog mixes French and English
+CREATE TEXT SEARCH CONFIGURATION "unaccent_simple" ( COPY = pg_catalog.simple );
+ALTER TEXT SEARCH CONFIGURATION "unaccent_simple" ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+
+-- unaccent() and array_to_string() are only STABLE, these wrappers let generated columns and indexes use them
+CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+    AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+CREATE OR REPLACE FUNCTION immutable_array_to_string(text[], text) RETURNS text
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+    AS $$ SELECT array_to_string($1, $2) $$;
+
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('unaccent_simple'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('unaccent_simple'::regconfig, coalesce("director_author", '')), 'B') ||
+    setweight(to_tsvector('unaccent_simple'::regconfig, immutable_array_to_string("tags", ' ')), 'B') ||
+    setweight(to_tsvector('unaccent_simple'::regconfig, coalesce("description", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "collections" ADD COLUMN     "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('unaccent_simple'::regconfig, coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('unaccent_simple'::regconfig, immutable_array_to_string("tags", ' ')), 'B') ||
+    setweight(to_tsvector('unaccent_simple'::regconfig, coalesce("description", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "media_search_vector_idx" ON "media" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "collections_search_vector_idx" ON "collections" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "media_title_trgm_idx" ON "media" USING GIN (immutable_unaccent(lower("title")) gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "collections_name_trgm_idx" ON "collections" USING GIN (immutable_unaccent(lower("name")) gin_trgm_ops);
@@ -0,0 +1,22 @@
+-- Normalize existing tags like the API now does on write: trimmed, inner whitespace collapsed and
+-- lowercased, blank tags dropped, duplicates keeping their first position. Aliases are configuration
+-- (TAG_ALIASES) and are applied with POST /api/tags/merge.
+UPDATE "media" SET "tags" = COALESCE((
+  SELECT array_agg("tag" ORDER BY "position")
+  FROM (
+    SELECT lower(regexp_replace(btrim("t"), '\s+', ' ', 'g')) AS "tag", min("ord") AS "position"
+    FROM unnest("tags") WITH ORDINALITY AS u("t", "ord")
+    WHERE btrim("t") <> ''
+    GROUP BY 1
+  ) AS "normalized"
+), '{}');
+
+UPDATE "collections" SET "tags" = COALESCE((
+  SELECT array_agg("tag" ORDER BY "position")
+  FROM (
+    SELECT lower(regexp_replace(btrim("t"), '\s+', ' ', 'g')) AS "tag", min("ord") AS "position"
+    FROM unnest("tags") WITH ORDINALITY AS u("t", "ord")
+    WHERE btrim("t") <> ''
+    GROUP BY 1
+  ) AS "normalized"
+), '{}');
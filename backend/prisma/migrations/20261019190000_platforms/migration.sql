@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "PlatformKind" AS ENUM ('STREAMING', 'STORE', 'LIBRARY', 'WEB');
+
+-- CreateEnum
+CREATE TYPE "AccessType" AS ENUM ('SUBSCRIPTION', 'RENT', 'BUY', 'FREE');
+
+-- CreateTable
+CREATE TABLE "platforms" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "PlatformKind" NOT NULL,
+    "region" TEXT,
+    "logo_url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "platforms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "media_availability" (
+    "id" TEXT NOT NULL,
+    "region" TEXT NOT NULL,
+    "access_type" "AccessType" NOT NULL,
+    "url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "platformId" TEXT NOT NULL,
+
+    CONSTRAINT "media_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_platforms" (
+    "region" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "platformId" TEXT NOT NULL,
+
+    CONSTRAINT "user_platforms_pkey" PRIMARY KEY ("userId","platformId","region")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "platforms_name_key" ON "platforms"("name");
+
+-- CreateIndex
+CREATE INDEX "media_availability_platformId_region_idx" ON "media_availability"("platformId", "region");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_availability_mediaId_platformId_region_access_type_key" ON "media_availability"("mediaId", "platformId", "region", "access_type");
+
+-- AddForeignKey
+ALTER TABLE "media_availability" ADD CONSTRAINT "media_availability_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "media_availability" ADD CONSTRAINT "media_availability_platformId_fkey" FOREIGN KEY ("platformId") REFERENCES "platforms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_platforms" ADD CONSTRAINT "user_platforms_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_platforms" ADD CONSTRAINT "user_platforms_platformId_fkey" FOREIGN KEY ("platformId") REFERENCES "platforms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT,
+    "air_date" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "mediaId" TEXT NOT NULL,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "episodes" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT,
+    "air_date" TIMESTAMP(3),
+    "runtime_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "seasonId" TEXT NOT NULL,
+
+    CONSTRAINT "episodes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "episode_watches" (
+    "id" TEXT NOT NULL,
+    "watched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "episodeId" TEXT NOT NULL,
+
+    CONSTRAINT "episode_watches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seasons_mediaId_number_key" ON "seasons"("mediaId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "episodes_seasonId_number_key" ON "episodes"("seasonId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "episode_watches_userId_episodeId_key" ON "episode_watches"("userId", "episodeId");
+
+-- AddForeignKey
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "episodes" ADD CONSTRAINT "episodes_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "episode_watches" ADD CONSTRAINT "episode_watches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "episode_watches" ADD CONSTRAINT "episode_watches_episodeId_fkey" FOREIGN KEY ("episodeId") REFERENCES "episodes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
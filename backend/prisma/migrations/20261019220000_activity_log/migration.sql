@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ActivityAction" AS ENUM ('COLLECTION_CREATED', 'COLLECTION_UPDATED', 'COLLECTION_MOVED', 'ITEM_ADDED', 'ITEM_UPDATED', 'ITEM_REMOVED', 'MEDIA_UPDATED', 'MEDIA_DELETED');
+
+-- CreateEnum
+CREATE TYPE "ActivityTarget" AS ENUM ('COLLECTION', 'MEDIA');
+
+-- CreateTable
+CREATE TABLE "activities" (
+    "id" TEXT NOT NULL,
+    "action" "ActivityAction" NOT NULL,
+    "target_type" "ActivityTarget" NOT NULL,
+    "target_id" TEXT NOT NULL,
+    "target_label" TEXT NOT NULL,
+    "changes" JSONB,
+    "request_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "collectionId" TEXT NOT NULL,
+    "actorId" TEXT,
+
+    CONSTRAINT "activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collection_followers" (
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+
+    CONSTRAINT "collection_followers_pkey" PRIMARY KEY ("userId","collectionId")
+);
+
+-- CreateIndex
+CREATE INDEX "activities_collectionId_created_at_idx" ON "activities"("collectionId", "created_at");
+
+-- CreateIndex
+CREATE INDEX "collection_followers_collectionId_idx" ON "collection_followers"("collectionId");
+
+-- AddForeignKey
+ALTER TABLE "activities" ADD CONSTRAINT "activities_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activities" ADD CONSTRAINT "activities_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_followers" ADD CONSTRAINT "collection_followers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "collection_followers" ADD CONSTRAINT "collection_followers_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
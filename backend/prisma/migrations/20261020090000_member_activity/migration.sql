@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ActivityAction" ADD VALUE 'MEMBER_INVITED';
+ALTER TYPE "ActivityAction" ADD VALUE 'MEMBER_JOINED';
+ALTER TYPE "ActivityAction" ADD VALUE 'MEMBER_UPDATED';
+ALTER TYPE "ActivityAction" ADD VALUE 'MEMBER_REMOVED';
+ALTER TYPE "ActivityAction" ADD VALUE 'OWNERSHIP_TRANSFERRED';
+
+-- AlterEnum
+ALTER TYPE "ActivityTarget" ADD VALUE 'MEMBER';
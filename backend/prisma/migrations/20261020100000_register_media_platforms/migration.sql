@@ -0,0 +1,6 @@
+-- Register the platforms already listed on media, which are now validated against the registry
+INSERT INTO "platforms" ("id", "name", "kind", "updated_at")
+SELECT gen_random_uuid()::text, "names"."name", 'STREAMING', CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT trim(unnest("platforms")) AS "name" FROM "media") AS "names"
+WHERE "names"."name" <> ''
+  AND NOT EXISTS (SELECT 1 FROM "platforms" WHERE lower("platforms"."name") = lower("names"."name"));
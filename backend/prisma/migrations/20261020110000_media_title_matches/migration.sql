@@ -0,0 +1,8 @@
+-- CreateView
+-- Media whose title matches the case-insensitive regex set in app.title_regex for the current
+-- transaction, letting listings filter on a title regex in the same query. Empty when it is unset.
+CREATE VIEW "media_title_matches" AS
+SELECT "id" AS "media_id"
+FROM "media"
+WHERE current_setting('app.title_regex', true) <> ''
+  AND "title" ~* current_setting('app.title_regex', true);
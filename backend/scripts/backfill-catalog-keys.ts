@@ -0,0 +1,18 @@
+import prisma from '../src/db';
+import { catalogService } from '../src/services/catalog.service';
+
+// Compute the catalog key of media created before the shared catalog existed
+const media = await prisma.media.findMany({
+  where: { catalogKey: null },
+  select: { id: true, title: true, type: true, releaseDate: true, directorAuthor: true },
+});
+
+for (const item of media) {
+  await prisma.media.update({
+    where: { id: item.id },
+    data: { catalogKey: catalogService.buildCatalogKey(item) },
+  });
+}
+
+console.log(`Catalog keys computed for ${media.length} media`);
+await prisma.$disconnect();
@@ -1,7 +1,13 @@
 import prisma from './index';
+import { catalogService } from '../services/catalog.service';
+import { scoreService } from '../services/score.service';
 
 async function main() {
   // Clear existing data
+  await prisma.savedSearch.deleteMany({});
+  await prisma.platform.deleteMany({});
+  await prisma.review.deleteMany({});
+  await prisma.userMedia.deleteMany({});
   await prisma.collectionUser.deleteMany({});
   await prisma.collectionMedia.deleteMany({});
   await prisma.collection.deleteMany({});
@@ -35,9 +41,12 @@ async function main() {
       type: "FILM",
       releaseDate: new Date("2010-07-16"),
       directorAuthor: "Christopher Nolan",
+      externalIds: { imdb: "tt1375666", tmdb: "27205" },
+      catalogKey: catalogService.buildCatalogKey({ title: "Inception", type: "FILM", releaseDate: "2010-07-16", directorAuthor: "Christopher Nolan" }),
       tags: ["sci-fi", "thriller", "mind-bending"],
       platforms: ["Netflix", "Amazon Prime"],
-      scores: { imdb: 8.8, metacritic: 74 },
+      scores: scoreService.mergeScores(null, { imdb: { value: 8.8, votes: 2600000 }, metacritic: { value: 74 } }),
+      details: { runtimeMinutes: 148, cast: ["Leonardo DiCaprio", "Joseph Gordon-Levitt", "Elliot Page"], country: "US" },
     },
   });
 
@@ -48,9 +57,11 @@ async function main() {
       type: "SERIES",
       releaseDate: new Date("2008-01-20"),
       directorAuthor: "Vince Gilligan",
+      externalIds: { imdb: "tt0903747", tmdb: "1396" },
+      catalogKey: catalogService.buildCatalogKey({ title: "Breaking Bad", type: "SERIES", releaseDate: "2008-01-20", directorAuthor: "Vince Gilligan" }),
       tags: ["crime", "drama", "psychological"],
       platforms: ["Netflix"],
-      scores: { imdb: 9.5 },
+      scores: scoreService.mergeScores(null, { imdb: { value: 9.5, votes: 2200000 } }),
     },
   });
 
@@ -61,9 +72,17 @@ async function main() {
       type: "BOOK",
       releaseDate: new Date("1937-09-21"),
       directorAuthor: "J.R.R. Tolkien",
+      externalIds: { openlibrary: "OL27482W" },
+      catalogKey: catalogService.buildCatalogKey({ title: "The Hobbit", type: "BOOK", releaseDate: "1937-09-21", directorAuthor: "J.R.R. Tolkien" }),
       tags: ["fantasy", "adventure", "classic"],
       platforms: [],
-      scores: { goodreads: 4.3 },
+      scores: scoreService.mergeScores(null, { goodreads: { value: 4.3, votes: 4000000 } }),
+      details: {
+        isbn: "9780547928227",
+        publisher: "Houghton Mifflin Harcourt",
+        pageCount: 300,
+        contributors: [{ name: "J.R.R. Tolkien", role: "author" }, { name: "Alan Lee", role: "illustrator" }],
+      },
     },
   });
 
@@ -88,6 +107,28 @@ async function main() {
     },
   });
 
+  const collection3 = await prisma.collection.create({
+    data: {
+      name: "Weekend Picks",
+      description: "Short list for the weekend",
+      visibility: "PRIVATE",
+      tags: ["watchlist"],
+      ownerId: user1.id,
+      parentId: collection2.id,
+    },
+  });
+
+  const collection4 = await prisma.collection.create({
+    data: {
+      name: "Top Rated Films",
+      description: "Films rated 8+ on IMDb, filled automatically",
+      visibility: "PUBLIC",
+      tags: ["smart"],
+      ownerId: user1.id,
+      rules: { type: "FILM", minScore: "imdb:8", sort: "rating", order: "desc" },
+    },
+  });
+
   // Add media to collections
   await prisma.collectionMedia.create({
     data: {
@@ -102,6 +143,8 @@ async function main() {
       collectionId: collection2.id,
       mediaId: media2.id,
       position: 1,
+      priority: "HIGH",
+      dueDate: new Date("2026-02-01"),
     },
   });
 
@@ -113,6 +156,15 @@ async function main() {
     },
   });
 
+  await prisma.collectionMedia.create({
+    data: {
+      collectionId: collection3.id,
+      mediaId: media3.id,
+      position: 1,
+      priority: "MUST",
+    },
+  });
+
   // Add collection members
   await prisma.collectionUser.create({
     data: {
@@ -123,6 +175,120 @@ async function main() {
     },
   });
 
+  // Track progress and rate media
+  await prisma.userMedia.create({
+    data: {
+      userId: user1.id,
+      mediaId: media2.id,
+      status: "IN_PROGRESS",
+      season: 2,
+      episode: 5,
+      startedAt: new Date("2026-01-05"),
+    },
+  });
+
+  await prisma.userMedia.create({
+    data: {
+      userId: user2.id,
+      mediaId: media1.id,
+      status: "COMPLETED",
+      startedAt: new Date("2026-01-10"),
+      finishedAt: new Date("2026-01-10"),
+    },
+  });
+
+  await prisma.review.createMany({
+    data: [
+      { userId: user1.id, mediaId: media1.id, rating: 9, body: "Still holds up." },
+      { userId: user2.id, mediaId: media1.id, rating: 8.5, body: "The top keeps spinning...", spoiler: true },
+    ],
+  });
+
+  await prisma.media.update({
+    where: { id: media1.id },
+    data: { ratingAverage: 8.75, ratingCount: 2 },
+  });
+
+  await prisma.savedSearch.create({
+    data: {
+      userId: user2.id,
+      name: "Sci-fi since 2010",
+      query: { tags: "sci-fi", filter: "year:>=2010", sort: "releaseDate", order: "desc" },
+    },
+  });
+
+  const netflix = await prisma.platform.create({
+    data: { name: "Netflix", kind: "STREAMING" },
+  });
+  const appleTv = await prisma.platform.create({
+    data: { name: "Apple TV", kind: "STORE" },
+  });
+  await prisma.platform.create({
+    data: { name: "Amazon Prime", kind: "STREAMING" },
+  });
+
+  await prisma.mediaAvailability.createMany({
+    data: [
+      { mediaId: media1.id, platformId: netflix.id, region: "FR", accessType: "SUBSCRIPTION", url: "https://www.netflix.com/title/70131314" },
+      { mediaId: media1.id, platformId: appleTv.id, region: "FR", accessType: "RENT" },
+    ],
+  });
+
+  await prisma.userPlatform.create({
+    data: { userId: user2.id, platformId: netflix.id, region: "FR" },
+  });
+
+  const season1 = await prisma.season.create({
+    data: {
+      mediaId: media2.id,
+      number: 1,
+      airDate: new Date("2008-01-20"),
+      episodes: {
+        create: ["Pilot", "Cat's in the Bag...", "...And the Bag's in the River", "Cancer Man", "Gray Matter", "Crazy Handful of Nothin'", "A No-Rough-Stuff-Type Deal"]
+          .map((title, index) => ({ number: index + 1, title, runtimeMinutes: index === 0 ? 58 : 48 })),
+      },
+    },
+    include: { episodes: true },
+  });
+  const season2 = await prisma.season.create({
+    data: {
+      mediaId: media2.id,
+      number: 2,
+      airDate: new Date("2009-03-08"),
+      episodes: {
+        create: Array.from({ length: 13 }, (_, index) => ({ number: index + 1, runtimeMinutes: 47 })),
+      },
+    },
+    include: { episodes: true },
+  });
+
+  // Matches the library entry of user1, at season 2 episode 5
+  await prisma.episodeWatch.createMany({
+    data: [...season1.episodes, ...season2.episodes.filter((episode) => episode.number <= 5)]
+      .map((episode) => ({ userId: user1.id, episodeId: episode.id })),
+  });
+
+  await prisma.collectionFollower.create({
+    data: { userId: user2.id, collectionId: collection4.id },
+  });
+
+  await prisma.activity.createMany({
+    data: [
+      { collectionId: collection1.id, actorId: user1.id, action: "COLLECTION_CREATED", targetType: "COLLECTION", targetId: collection1.id, targetLabel: collection1.name },
+      { collectionId: collection1.id, actorId: user1.id, action: "ITEM_ADDED", targetType: "MEDIA", targetId: media1.id, targetLabel: media1.title },
+      { collectionId: collection2.id, actorId: user1.id, action: "ITEM_ADDED", targetType: "MEDIA", targetId: media2.id, targetLabel: media2.title },
+      {
+        collectionId: collection2.id,
+        actorId: user1.id,
+        action: "ITEM_UPDATED",
+        targetType: "MEDIA",
+        targetId: media2.id,
+        targetLabel: media2.title,
+        changes: { priority: { before: "NORMAL", after: "HIGH" }, dueDate: { before: null, after: "2026-02-01T00:00:00.000Z" } },
+      },
+    ],
+  });
+
 }
 
 main()
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { csrf } from 'hono/csrf';
 import { requestId } from 'hono/request-id';
+import { contextStorage } from 'hono/context-storage';
+import { websocket } from 'hono/bun';
 import { requestLogger } from './middleware/requestLogger';
 import { openAPIRouteHandler } from 'hono-openapi';
 import { swaggerUI } from '@hono/swagger-ui';
@@ -13,6 +15,10 @@ import prisma from './db/index';
 import { authRoutes } from './routes/auth.routes.ts';
 import { userRoutes } from './routes/user.routes';
 import { mediaRoutes } from './routes/media.routes';
+import { collectionRoutes } from './routes/collection.routes';
+import { tagRoutes } from './routes/tag.routes';
+import { platformRoutes } from './routes/platform.routes';
+import { realtimeRoutes } from './routes/realtime.routes';
 
 
 
@@ -84,6 +90,8 @@ if (process.env.NODE_ENV === 'production') {
 
 // Request ID and logging
 app.use('*', requestId());
+// Lets services read the request ID and user of the current request, e.g. for the activity log
+app.use('*', contextStorage());
 app.use('*', requestLogger);
 
 
@@ -118,6 +126,12 @@ app.get(
         { name: 'Auth', description: 'Authentication endpoints' },
         { name: 'Users', description: 'User profile endpoints' },
         { name: 'Media', description: 'Media management endpoints' },
+        { name: 'Collections', description: 'Collection management endpoints' },
+        { name: 'Reviews', description: 'Ratings and reviews of media' },
+        { name: 'Tags', description: 'Tag registry of media and collections' },
+        { name: 'Platforms', description: 'Platforms where media are available, and user subscriptions' },
+        { name: 'Episodes', description: 'Seasons and episodes of series, and per-user watched episodes' },
+        { name: 'Realtime', description: 'Live updates of collections over WebSocket' },
       ],
       components: {
         securitySchemes: {
@@ -177,6 +191,10 @@ app.get('/health', async (c) => {
 app.route('/api/auth', authRoutes);
 app.route('/api/users', userRoutes);
 app.route('/api/media', mediaRoutes);
+app.route('/api/collections', collectionRoutes);
+app.route('/api/tags', tagRoutes);
+app.route('/api/platforms', platformRoutes);
+app.route('/api/realtime', realtimeRoutes);
 
 // Better-Auth handler for built-in endpoints (OAuth, etc.)
 // Mounted after custom routes - use catch-all for anything not matched above
@@ -205,6 +223,8 @@ if (import.meta.main) {
   const server = Bun.serve({
     port: Number(PORT),
     fetch: app.fetch,
+    // Handlers of the connections upgraded by /api/realtime
+    websocket,
   });
   console.log(`🚀 Backend server running on port ${server.port}`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
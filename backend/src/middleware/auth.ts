@@ -7,12 +7,14 @@ import env from '../../env';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
+export const TRUSTED_ORIGINS = [env.FRONTEND_URL, env.BETTER_AUTH_URL, "http://localhost:3000"];
+
 export const auth = betterAuth({
   baseURL: env.BETTER_AUTH_URL,
   database: prismaAdapter(prisma, {
     provider: 'postgresql',
   }),
-  trustedOrigins: [env.FRONTEND_URL, env.BETTER_AUTH_URL, "http://localhost:3000"],
+  trustedOrigins: TRUSTED_ORIGINS,
   rateLimit: {
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // limit each IP to 100 requests per windowMs
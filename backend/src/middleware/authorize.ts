@@ -0,0 +1,28 @@
+import { createMiddleware } from 'hono/factory';
+import type { AuthType } from './auth';
+import { policyService, type MediaAction, type PolicyAction } from '../services/policy.service';
+
+type AuthorizeTarget =
+  | { collectionParam: string }
+  | { mediaParam: string };
+
+/**
+ * Enforce a policy action on the collection or media identified by a path parameter.
+ * Responds 404 when the resource is missing or not readable, 401 for anonymous users and 403
+ * when the user's role does not allow the action (see the action matrix in policy.service).
+ *
+ * @example
+ * collectionRoutes.delete('/:collectionId', authorize('collection:delete', { collectionParam: 'collectionId' }), handler)
+ */
+export const authorize = (action: PolicyAction, target: AuthorizeTarget) =>
+  createMiddleware<{ Variables: AuthType }>(async (c, next) => {
+    const user = c.get('user');
+
+    if ('mediaParam' in target) {
+      await policyService.authorizeMedia(user, action as MediaAction, c.req.param(target.mediaParam) ?? '');
+    } else {
+      await policyService.authorizeCollection(user, action, c.req.param(target.collectionParam) ?? '');
+    }
+
+    await next();
+  });
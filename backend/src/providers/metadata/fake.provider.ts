@@ -0,0 +1,44 @@
+import { MediaType } from "@/generated/prisma/browser";
+import type { MetadataProvider, MetadataRecord } from "@/types/types";
+
+export const DEFAULT_FIXTURES_PATH = `${import.meta.dir}/fixtures/metadata.json`;
+
+/**
+ * Offline provider backed by a JSON fixture file, for development and tests.
+ * Search matches every word of the query against titles and directors/authors, ignoring case and accents.
+ * @param {{ fixturesPath: string }} options Path of the fixture file, an array of metadata records
+ * @returns {MetadataProvider} The provider
+ */
+export function createFakeProvider(options: { fixturesPath: string }): MetadataProvider {
+  let records: Promise<MetadataRecord[]> | null = null;
+  const load = () => {
+    records ??= Bun.file(options.fixturesPath).json().then((fixtures: Omit<MetadataRecord, 'provider'>[]) =>
+      fixtures.map((record) => ({ ...record, provider: 'fake' }))
+    );
+    return records;
+  };
+
+  const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+  return {
+    name: 'fake',
+    types: Object.values(MediaType),
+
+    async search(query, type) {
+      const words = normalize(query).split(/\s+/).filter(Boolean);
+      return (await load())
+        .filter((record) => !type || record.type === type)
+        .filter((record) => {
+          const text = normalize(`${record.title} ${record.directorAuthor ?? ''}`);
+          return words.every((word) => text.includes(word));
+        })
+        .map(({ provider, externalId, title, type, releaseDate, directorAuthor, coverUrl }) => (
+          { provider, externalId, title, type, releaseDate, directorAuthor, coverUrl }
+        ));
+    },
+
+    async fetch(externalId) {
+      return (await load()).find((record) => record.externalId === externalId) ?? null;
+    },
+  };
+}
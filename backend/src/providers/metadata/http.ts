@@ -0,0 +1,50 @@
+import { AppError } from "@/middleware/errorHandler";
+
+/**
+ * GET a JSON document from a metadata provider
+ * @param {string} provider Provider name, used in error messages
+ * @param {string | URL} url Request URL
+ * @param {number} timeoutMs Request timeout in milliseconds
+ * @returns {Promise<T | null>} The parsed body, or null on 404
+ * @throws AppError 502 if the provider fails, times out or returns an invalid body
+ */
+export async function fetchJson<T>(provider: string, url: string | URL, timeoutMs: number): Promise<T | null> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    console.error(`Metadata provider ${provider} unreachable:`, error);
+    throw new AppError(`Metadata provider ${provider} is unavailable`, 502);
+  }
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    console.error(`Metadata provider ${provider} answered ${response.status}`);
+    throw new AppError(`Metadata provider ${provider} is unavailable`, 502);
+  }
+
+  try {
+    return await response.json() as T;
+  } catch {
+    throw new AppError(`Metadata provider ${provider} returned an invalid response`, 502);
+  }
+}
+
+/**
+ * Turn a provider date (full date, year-month or year) into an ISO datetime
+ * @param {string | null | undefined} value Date as published by the provider
+ * @returns {string | null} ISO datetime, or null if the date cannot be parsed
+ */
+export function toIsoDate(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === '' || value === 'N/A') {
+    return null;
+  }
+  const text = String(value);
+  const date = /^\d{4}$/.test(text) ? new Date(Date.UTC(Number(text), 0, 1)) : new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,113 @@
+import { MediaType } from "@/generated/prisma/browser";
+import { fetchJson, toIsoDate } from "@/providers/metadata/http";
+import type { ExternalScoresInput, MetadataProvider, MetadataSearchResult } from "@/types/types";
+
+const API_URL = 'https://www.omdbapi.com/';
+
+type OmdbSearchItem = {
+  imdbID: string;
+  Title: string;
+  Year: string;
+  Type: string;
+  Poster: string;
+};
+
+type OmdbDetails = OmdbSearchItem & {
+  Response: string;
+  Released?: string;
+  Plot?: string;
+  Genre?: string;
+  Director?: string;
+  Writer?: string;
+  imdbRating?: string;
+  imdbVotes?: string;
+  Metascore?: string;
+  Ratings?: { Source: string; Value: string }[];
+};
+
+const TYPES: Record<string, MediaType> = {
+  movie: MediaType.FILM,
+  series: MediaType.SERIES,
+  episode: MediaType.OTHER,
+};
+
+/**
+ * Read a value published by OMDb, which uses "N/A" for missing values
+ */
+const present = (value: string | undefined): string | null => (value && value !== 'N/A' ? value : null);
+
+/**
+ * OMDb provider, serving IMDb data for films and series. External IDs are IMDb IDs such as `tt1375666`.
+ * @param {{ apiKey: string; timeoutMs: number }} options API key and request timeout
+ * @returns {MetadataProvider} The provider
+ */
+export function createOmdbProvider(options: { apiKey: string; timeoutMs: number }): MetadataProvider {
+  const request = <T>(params: Record<string, string>) => {
+    const url = new URL(API_URL);
+    url.searchParams.set('apikey', options.apiKey);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return fetchJson<T>('omdb', url, options.timeoutMs);
+  };
+
+  const toResult = (item: OmdbSearchItem, directorAuthor: string | null = null): MetadataSearchResult => ({
+    provider: 'omdb',
+    externalId: item.imdbID,
+    title: item.Title,
+    type: TYPES[item.Type] ?? MediaType.OTHER,
+    releaseDate: toIsoDate(item.Year?.slice(0, 4)),
+    directorAuthor,
+    coverUrl: present(item.Poster),
+  });
+
+  return {
+    name: 'omdb',
+    types: [MediaType.FILM, MediaType.SERIES],
+
+    async search(query, type) {
+      const params: Record<string, string> = { s: query };
+      if (type === MediaType.FILM) params.type = 'movie';
+      if (type === MediaType.SERIES) params.type = 'series';
+      const body = await request<{ Response: string; Search?: OmdbSearchItem[] }>(params);
+      return (body?.Search ?? []).map((item) => toResult(item));
+    },
+
+    async fetch(externalId) {
+      if (!/^tt\d+$/.test(externalId)) {
+        return null;
+      }
+
+      const details = await request<OmdbDetails>({ i: externalId, plot: 'short' });
+      if (!details || details.Response !== 'True') {
+        return null;
+      }
+
+      const scores: ExternalScoresInput = {};
+      const imdbRating = Number(present(details.imdbRating));
+      if (present(details.imdbRating) && !Number.isNaN(imdbRating)) {
+        const votes = Number((details.imdbVotes ?? '').replace(/,/g, ''));
+        scores.imdb = { value: imdbRating, ...(Number.isInteger(votes) && votes > 0 ? { votes } : {}) };
+      }
+      const metascore = Number(present(details.Metascore));
+      if (present(details.Metascore) && !Number.isNaN(metascore)) {
+        scores.metacritic = { value: metascore };
+      }
+      const tomatometer = details.Ratings?.find((rating) => rating.Source === 'Rotten Tomatoes')?.Value;
+      if (tomatometer && /^\d+%$/.test(tomatometer)) {
+        scores.rottenTomatoes = { value: Number(tomatometer.slice(0, -1)) };
+      }
+
+      const director = present(details.Director) ?? present(details.Writer);
+      return {
+        ...toResult(details, director),
+        releaseDate: toIsoDate(present(details.Released)) ?? toIsoDate(details.Year?.slice(0, 4)),
+        description: present(details.Plot),
+        tags: (present(details.Genre) ?? '').split(',').map((genre) => genre.trim().toLowerCase()).filter(Boolean),
+        url: `https://www.imdb.com/title/${details.imdbID}/`,
+        externalIds: { imdb: details.imdbID },
+        scores,
+      };
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { MediaType } from "@/generated/prisma/browser";
+import { fetchJson, toIsoDate } from "@/providers/metadata/http";
+import type { MetadataProvider, MetadataSearchResult } from "@/types/types";
+
+const COVER_URL = 'https://covers.openlibrary.org/b/id';
+const MAX_TAGS = 10;
+
+type OpenLibrarySearchDoc = {
+  key: string;
+  title: string;
+  author_name?: string[];
+  first_publish_year?: number;
+  cover_i?: number;
+};
+
+type OpenLibraryWork = {
+  key: string;
+  title: string;
+  description?: string | { value: string };
+  subjects?: string[];
+  covers?: number[];
+  first_publish_date?: string;
+  authors?: { author: { key: string } }[];
+};
+
+/**
+ * Open Library provider, for books. External IDs are work IDs such as `OL45804W`. No API key is needed.
+ * @param {{ baseUrl: string; timeoutMs: number }} options API base URL and request timeout
+ * @returns {MetadataProvider} The provider
+ */
+export function createOpenLibraryProvider(options: { baseUrl: string; timeoutMs: number }): MetadataProvider {
+  const request = <T>(path: string, params: Record<string, string> = {}) => {
+    const url = new URL(path, options.baseUrl);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return fetchJson<T>('openlibrary', url, options.timeoutMs);
+  };
+
+  const coverUrl = (coverId: number | undefined) => (coverId ? `${COVER_URL}/${coverId}-L.jpg` : null);
+
+  return {
+    name: 'openlibrary',
+    types: [MediaType.BOOK],
+
+    async search(query, type) {
+      if (type && type !== MediaType.BOOK) {
+        return [];
+      }
+
+      const body = await request<{ docs: OpenLibrarySearchDoc[] }>('/search.json', {
+        q: query,
+        limit: '10',
+        fields: 'key,title,author_name,first_publish_year,cover_i',
+      });
+      return (body?.docs ?? []).map((doc): MetadataSearchResult => ({
+        provider: 'openlibrary',
+        externalId: doc.key.replace('/works/', ''),
+        title: doc.title,
+        type: MediaType.BOOK,
+        releaseDate: toIsoDate(doc.first_publish_year),
+        directorAuthor: doc.author_name?.[0] ?? null,
+        coverUrl: coverUrl(doc.cover_i),
+      }));
+    },
+
+    async fetch(externalId) {
+      if (!/^OL\d+W$/.test(externalId)) {
+        return null;
+      }
+
+      const work = await request<OpenLibraryWork>(`/works/${externalId}.json`);
+      if (!work) {
+        return null;
+      }
+
+      const authorKey = work.authors?.[0]?.author.key;
+      const author = authorKey ? await request<{ name?: string }>(`${authorKey}.json`) : null;
+      const description = typeof work.description === 'string' ? work.description : work.description?.value;
+
+      return {
+        provider: 'openlibrary',
+        externalId,
+        title: work.title,
+        type: MediaType.BOOK,
+        releaseDate: toIsoDate(work.first_publish_date),
+        directorAuthor: author?.name ?? null,
+        coverUrl: coverUrl(work.covers?.[0]),
+        description: description ?? null,
+        tags: (work.subjects ?? []).slice(0, MAX_TAGS).map((subject) => subject.toLowerCase()),
+        url: `${options.baseUrl}/works/${externalId}`,
+        externalIds: { openlibrary: externalId },
+        scores: {},
+      };
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { MediaType } from "@/generated/prisma/browser";
+import { fetchJson, toIsoDate } from "@/providers/metadata/http";
+import type { MetadataProvider, MetadataRecord, MetadataSearchResult } from "@/types/types";
+
+const API_URL = 'https://api.themoviedb.org/3';
+const IMAGE_URL = 'https://image.tmdb.org/t/p/w500';
+
+type TmdbSearchItem = {
+  id: number;
+  media_type: string;
+  title?: string;
+  name?: string;
+  release_date?: string;
+  first_air_date?: string;
+  poster_path?: string | null;
+};
+
+type TmdbDetails = TmdbSearchItem & {
+  overview?: string;
+  genres?: { name: string }[];
+  vote_average?: number;
+  vote_count?: number;
+  imdb_id?: string | null;
+  external_ids?: { imdb_id?: string | null };
+  created_by?: { name: string }[];
+  credits?: { crew?: { job: string; name: string }[] };
+};
+
+/**
+ * The Movie Database provider, for films and series. External IDs look like `movie/27205` or `tv/1396`.
+ * @param {{ apiKey: string; timeoutMs: number }} options API key and request timeout
+ * @returns {MetadataProvider} The provider
+ */
+export function createTmdbProvider(options: { apiKey: string; timeoutMs: number }): MetadataProvider {
+  const request = <T>(path: string, params: Record<string, string> = {}) => {
+    const url = new URL(`${API_URL}/${path}`);
+    url.searchParams.set('api_key', options.apiKey);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return fetchJson<T>('tmdb', url, options.timeoutMs);
+  };
+
+  const toResult = (item: TmdbSearchItem, directorAuthor: string | null = null): MetadataSearchResult => ({
+    provider: 'tmdb',
+    externalId: `${item.media_type}/${item.id}`,
+    title: item.title ?? item.name ?? '',
+    type: item.media_type === 'tv' ? MediaType.SERIES : MediaType.FILM,
+    releaseDate: toIsoDate(item.release_date ?? item.first_air_date),
+    directorAuthor,
+    coverUrl: item.poster_path ? `${IMAGE_URL}${item.poster_path}` : null,
+  });
+
+  return {
+    name: 'tmdb',
+    types: [MediaType.FILM, MediaType.SERIES],
+
+    async search(query, type) {
+      const path = type === MediaType.FILM ? 'search/movie' : type === MediaType.SERIES ? 'search/tv' : 'search/multi';
+      const body = await request<{ results: TmdbSearchItem[] }>(path, { query });
+      const mediaType = type === MediaType.FILM ? 'movie' : type === MediaType.SERIES ? 'tv' : null;
+      return (body?.results ?? [])
+        .map((item) => ({ ...item, media_type: mediaType ?? item.media_type }))
+        .filter((item) => item.media_type === 'movie' || item.media_type === 'tv')
+        .map((item) => toResult(item));
+    },
+
+    async fetch(externalId) {
+      const [mediaType, id] = externalId.split('/');
+      if ((mediaType !== 'movie' && mediaType !== 'tv') || !id || !/^\d+$/.test(id)) {
+        return null;
+      }
+
+      const details = await request<TmdbDetails>(`${mediaType}/${id}`, { append_to_response: 'credits,external_ids' });
+      if (!details) {
+        return null;
+      }
+
+      const director = mediaType === 'movie'
+        ? details.credits?.crew?.find((member) => member.job === 'Director')?.name
+        : details.created_by?.[0]?.name;
+      const imdbId = details.imdb_id ?? details.external_ids?.imdb_id;
+
+      const record: MetadataRecord = {
+        ...toResult({ ...details, media_type: mediaType }, director ?? null),
+        description: details.overview || null,
+        tags: (details.genres ?? []).map((genre) => genre.name.toLowerCase()),
+        url: `https://www.themoviedb.org/${mediaType}/${id}`,
+        externalIds: { tmdb: id, ...(imdbId ? { imdb: imdbId } : {}) },
+        scores: details.vote_count
+          ? { tmdb: { value: details.vote_average ?? 0, votes: details.vote_count } }
+          : {},
+      };
+      return record;
+    },
+  };
+}
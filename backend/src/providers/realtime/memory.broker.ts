@@ -0,0 +1,40 @@
+import type { RealtimeBroker, RealtimeEvent } from "@/types/types";
+
+/**
+ * In-process broker delivering events to the listeners of the same server instance.
+ * A failing listener is logged and does not prevent delivery to the others.
+ * @returns {RealtimeBroker} The broker
+ */
+export function createMemoryBroker(): RealtimeBroker {
+  const channels = new Map<string, Set<(event: RealtimeEvent) => void>>();
+
+  return {
+    name: 'memory',
+
+    async publish(channel, event) {
+      for (const listener of channels.get(channel) ?? []) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(`Error delivering realtime event on ${channel}:`, error);
+        }
+      }
+    },
+
+    subscribe(channel, listener) {
+      let listeners = channels.get(channel);
+      if (!listeners) {
+        listeners = new Set();
+        channels.set(channel, listeners);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && channels.get(channel) === listeners) {
+          channels.delete(channel);
+        }
+      };
+    },
+  };
+}
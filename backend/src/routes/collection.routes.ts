@@ -0,0 +1,1066 @@
+import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
+import { describeRoute, resolver, validator } from 'hono-openapi';
+import { z } from 'zod';
+import { collectionService } from '@/services/collection.service';
+import { memberService } from '@/services/member.service';
+import { importService } from '@/services/import.service';
+import { exportService } from '@/services/export.service';
+import { activityService } from '@/services/activity.service';
+import type { AuthType } from '@/middleware/auth';
+import {
+  createCollectionSchema,
+  updateCollectionSchema,
+  collectionIdParamSchema,
+  collectionResponseSchema,
+  getCollectionsQuerySchema,
+  collectionListResponseSchema,
+  collectionMediaParamSchema,
+  addCollectionMediaSchema,
+  updateCollectionMediaSchema,
+  getCollectionMediaQuerySchema,
+  collectionMediaResponseSchema,
+  collectionMediaListResponseSchema,
+  moveCollectionSchema,
+  getChildrenQuerySchema,
+  collectionAncestorsResponseSchema
+} from '@/schemas/collection.schema';
+import {
+  inviteMemberSchema,
+  updateMemberSchema,
+  transferOwnershipSchema,
+  memberParamSchema,
+  getMembersQuerySchema,
+  memberResponseSchema,
+  memberListResponseSchema
+} from '@/schemas/member.schema';
+import { mediaListResponseSchema } from '@/schemas/media.schema';
+import {
+  importCollectionSchema,
+  importResultSchema,
+  exportCollectionQuerySchema,
+  collectionExportSchema
+} from '@/schemas/transfer.schema';
+import { activityListResponseSchema, getActivityQuerySchema } from '@/schemas/activity.schema';
+import { AppError } from '@/middleware/errorHandler';
+import { authorize } from '@/middleware/authorize';
+
+export const collectionRoutes = new Hono<{ Variables: AuthType }>();
+
+// POST / - Create a new collection
+collectionRoutes.post(
+  '/',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Create a new collection owned by the authenticated user. With parentId, the collection is created as a sub-collection (owner or collaborator of the parent). With rules, it is a smart collection listing the readable media that match them instead of manually added items.',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Collection created successfully',
+        content: {
+          'application/json': {
+            schema: resolver(collectionResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload, invalid rules or tree too deep' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden on the parent collection' },
+      404: { description: 'Parent collection not found' },
+    },
+  }),
+  validator('json', createCollectionSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const data = c.req.valid('json');
+    const collection = await collectionService.createCollection(data, sessionUser.id);
+    return c.json(collection, 201);
+  }
+);
+
+
+// GET / - List collections visible to the user with pagination, filtering and sorting
+collectionRoutes.get(
+  '/',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'List public collections and collections the user owns or is a member of. Supports both offset-based (page/pageSize) and keyset (cursor) pagination; ties are broken by ID so pages never skip or repeat items.',
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1, description: 'Page number for offset-based pagination' },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20, description: 'Number of items per page' },
+      { name: 'tag', in: 'query', schema: { type: 'string' }, example: 'sci-fi' },
+      { name: 'tags', in: 'query', schema: { type: 'string' }, example: 'sci-fi,classic' },
+      { name: 'visibility', in: 'query', schema: { type: 'string', enum: ['PUBLIC', 'PRIVATE'] } },
+      { name: 'ownerId', in: 'query', schema: { type: 'string' }, example: 'user_123' },
+      { name: 'parentId', in: 'query', schema: { type: 'string' }, example: 'root', description: 'Only the children of this collection, or top-level collections with "root"' },
+      { name: 'q', in: 'query', schema: { type: 'string' }, example: 'classics', description: 'Full-text search on name, tags and description, ignoring case and accents. Words match by prefix and close names tolerate typos. Results get a relevance and highlights wrapped in <mark>' },
+      { name: 'sort', in: 'query', schema: { type: 'string', enum: ['createdAt', 'updatedAt', 'name', 'relevance'] }, description: 'relevance requires q and page-based pagination' },
+      { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+      { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Opaque signed cursor from the `cursor` field or the next/prev links of a previous page, valid for the same sort and order (use instead of page)' },
+    ],
+    responses: {
+      200: {
+        description: 'List of collections',
+        content: {
+          'application/json': {
+            schema: resolver(collectionListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'sort=relevance without q or with a cursor, or invalid cursor' },
+    },
+  }),
+  validator('query', getCollectionsQuerySchema),
+  async (c) => {
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const result = await collectionService.listCollections(query, sessionUser?.id);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /:collectionId - Retrieve a collection by ID
+collectionRoutes.get(
+  '/:collectionId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Get collection details with media and member counts',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection details',
+        content: {
+          'application/json': {
+            schema: resolver(collectionResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const sessionUser = c.get('user');
+    const collection = await collectionService.getById(collectionId, sessionUser?.id);
+
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+
+    return c.json(collection, 200);
+  }
+);
+
+
+// PATCH /:collectionId - Update a collection by ID
+collectionRoutes.patch(
+  '/:collectionId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Update collection name, description, tags, visibility or smart collection rules (owner or collaborator). Rules can only be set on a collection without items; null turns a smart collection back into a regular one.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Updated collection',
+        content: {
+          'application/json': {
+            schema: resolver(collectionResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload, invalid rules or no fields to update' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection not found' },
+      409: { description: 'Rules set on a collection with items' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:update', { collectionParam: 'collectionId' }),
+  validator('json', updateCollectionSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const data = c.req.valid('json');
+
+    if (Object.keys(data).length === 0) {
+      return c.json({ error: 'No fields to update' }, 400);
+    }
+
+    const collection = await collectionService.updateById(collectionId, data);
+
+    if (!collection) {
+      throw new AppError('Failed to update collection', 500);
+    }
+
+    return c.json(collection, 200);
+  }
+);
+
+
+// DELETE /:collectionId - Delete a collection by ID
+collectionRoutes.delete(
+  '/:collectionId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Delete a collection (owner only). Media entries are kept, only their membership in the collection is removed.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection deleted successfully',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:delete', { collectionParam: 'collectionId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const deleted = await collectionService.deleteById(collectionId);
+
+    if (!deleted) {
+      throw new AppError('Failed to delete collection', 500);
+    }
+
+    return c.json({ message: 'Collection deleted successfully' }, 200);
+  }
+);
+
+
+// POST /:collectionId/media - Add an existing media entry to a collection
+collectionRoutes.post(
+  '/:collectionId/media',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Add an existing media entry to the collection (owner or collaborator). The item is appended at the end unless a position is given, with NORMAL priority unless a priority is given.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { mediaId: 'media_123', position: 3, priority: 'HIGH', dueDate: '2026-02-01T00:00:00.000Z' },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Media added to the collection',
+        content: {
+          'application/json': {
+            schema: resolver(collectionMediaResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or media not found' },
+      409: { description: 'Media already in collection, or smart collection' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:manageMedia', { collectionParam: 'collectionId' }),
+  validator('json', addCollectionMediaSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const { mediaId, ...options } = c.req.valid('json');
+    const item = await collectionService.addMedia(collectionId, mediaId, sessionUser.id, options);
+    return c.json(item, 201);
+  }
+);
+
+
+// GET /:collectionId/media - List the items of a collection ordered by position
+collectionRoutes.get(
+  '/:collectionId/media',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'List the media of a collection ordered by position. With recursive=true, the media of the readable sub-collections are included. For a smart collection, lists the readable media matching its rules in the order they set, as media entries rather than items.',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'status', in: 'query', schema: { type: 'string', enum: ['PLANNED', 'IN_PROGRESS', 'COMPLETED', 'DROPPED', 'ON_HOLD'] }, description: 'Only media with this watch status in the authenticated user\'s library' },
+      { name: 'recursive', in: 'query', schema: { type: 'string', enum: ['true', 'false'] }, description: 'Include the media of sub-collections' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection items, or media entries for a smart collection',
+        content: {
+          'application/json': {
+            schema: resolver(z.union([collectionMediaListResponseSchema, mediaListResponseSchema])),
+          },
+        },
+      },
+      401: { description: 'Unauthorized (status filter requires authentication)' },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:read', { collectionParam: 'collectionId' }),
+  validator('query', getCollectionMediaQuerySchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    if (query.status && !sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const rules = await collectionService.getRules(collectionId);
+    const result = rules
+      ? await collectionService.listSmartMedia(collectionId, rules, query, sessionUser?.id)
+      : await collectionService.listItems(collectionId, query, sessionUser?.id);
+    return c.json(result, 200);
+  }
+);
+
+
+// PATCH /:collectionId/media/:collectionMediaId - Move an item or change its priority and due date
+collectionRoutes.patch(
+  '/:collectionId/media/:collectionMediaId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Move an item to a 1-based position, or right before/after another item of the same collection, and/or set its viewing priority and due date (owner or collaborator). Positions are renumbered atomically.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'collectionMediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'collection_media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { before: 'collection_media_456', priority: 'MUST' },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Updated item',
+        content: {
+          'application/json': {
+            schema: resolver(collectionMediaResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or item not found' },
+    },
+  }),
+  validator('param', collectionMediaParamSchema),
+  authorize('collection:manageMedia', { collectionParam: 'collectionId' }),
+  validator('json', updateCollectionMediaSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId, collectionMediaId } = c.req.valid('param');
+    const changes = c.req.valid('json');
+    const item = await collectionService.updateItem(collectionId, collectionMediaId, changes);
+    return c.json(item, 200);
+  }
+);
+
+
+// DELETE /:collectionId/media/:collectionMediaId - Remove an item from a collection
+collectionRoutes.delete(
+  '/:collectionId/media/:collectionMediaId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Remove a media entry from the collection (owner or collaborator). The media itself is kept.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'collectionMediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'collection_media_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Item removed successfully',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or item not found' },
+    },
+  }),
+  validator('param', collectionMediaParamSchema),
+  authorize('collection:manageMedia', { collectionParam: 'collectionId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId, collectionMediaId } = c.req.valid('param');
+    await collectionService.removeItem(collectionId, collectionMediaId);
+    return c.json({ message: 'Media removed from collection' }, 200);
+  }
+);
+
+
+// POST /:collectionId/members - Invite a user to a collection
+collectionRoutes.post(
+  '/:collectionId/members',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Invite a user by username or email (owner only). The invitation grants access once accepted by the invitee.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { username: 'jane_smith', role: 'COLLABORATOR' },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Invitation created',
+        content: {
+          'application/json': {
+            schema: resolver(memberResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or user not found' },
+      409: { description: 'User already owner, member or invited' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('member:invite', { collectionParam: 'collectionId' }),
+  validator('json', inviteMemberSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const invite = c.req.valid('json');
+    const member = await memberService.inviteMember(collectionId, invite);
+    return c.json(member, 201);
+  }
+);
+
+
+// GET /:collectionId/members - List the members of a collection
+collectionRoutes.get(
+  '/:collectionId/members',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'List the members of a collection. Pending invitations are only listed for the owner.',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+    ],
+    responses: {
+      200: {
+        description: 'Collection members',
+        content: {
+          'application/json': {
+            schema: resolver(memberListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('member:read', { collectionParam: 'collectionId' }),
+  validator('query', getMembersQuerySchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const result = await memberService.listMembers(collectionId, query, sessionUser?.id);
+    return c.json(result, 200);
+  }
+);
+
+
+// PATCH /:collectionId/members/:memberId - Change the role of a member
+collectionRoutes.patch(
+  '/:collectionId/members/:memberId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Change the role of a member or pending invitation (owner only)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'memberId', in: 'path', required: true, schema: { type: 'string' }, example: 'member_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { role: 'READER' },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Updated member',
+        content: {
+          'application/json': {
+            schema: resolver(memberResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or member not found' },
+    },
+  }),
+  validator('param', memberParamSchema),
+  authorize('member:update', { collectionParam: 'collectionId' }),
+  validator('json', updateMemberSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId, memberId } = c.req.valid('param');
+    const { role } = c.req.valid('json');
+    const member = await memberService.updateRole(collectionId, memberId, role);
+    return c.json(member, 200);
+  }
+);
+
+
+// DELETE /:collectionId/members/:memberId - Remove a member or revoke an invitation
+collectionRoutes.delete(
+  '/:collectionId/members/:memberId',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Remove a member or revoke a pending invitation (owner, or the member themselves)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'memberId', in: 'path', required: true, schema: { type: 'string' }, example: 'member_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Member removed successfully',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or member not found' },
+    },
+  }),
+  validator('param', memberParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId, memberId } = c.req.valid('param');
+    await memberService.removeMember(collectionId, memberId, sessionUser.id);
+    return c.json({ message: 'Member removed successfully' }, 200);
+  }
+);
+
+
+// POST /:collectionId/leave - Leave a collection
+collectionRoutes.post(
+  '/:collectionId/leave',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Leave a collection the authenticated user is a member of. The owner must transfer ownership first.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Left the collection',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Collection or membership not found' },
+      409: { description: 'The owner cannot leave the collection' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    await memberService.leaveCollection(collectionId, sessionUser.id);
+    return c.json({ message: 'Left the collection' }, 200);
+  }
+);
+
+
+// POST /:collectionId/transfer - Transfer ownership to an accepted member
+collectionRoutes.post(
+  '/:collectionId/transfer',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Transfer ownership to an accepted member (owner only). The previous owner becomes a collaborator.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { memberId: 'member_123' },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Ownership transferred',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or member not found' },
+      409: { description: 'Member has not accepted the invitation' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('member:transferOwnership', { collectionParam: 'collectionId' }),
+  validator('json', transferOwnershipSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const { memberId } = c.req.valid('json');
+    await memberService.transferOwnership(collectionId, memberId);
+    return c.json({ message: 'Ownership transferred' }, 200);
+  }
+);
+
+
+// GET /:collectionId/children - List the sub-collections of a collection
+collectionRoutes.get(
+  '/:collectionId/children',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'List the direct sub-collections of a collection that the user can read',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+    ],
+    responses: {
+      200: {
+        description: 'Sub-collections',
+        content: {
+          'application/json': {
+            schema: resolver(collectionListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:read', { collectionParam: 'collectionId' }),
+  validator('query', getChildrenQuerySchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const result = await collectionService.listChildren(collectionId, query, sessionUser?.id);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /:collectionId/ancestors - Breadcrumb of a collection
+collectionRoutes.get(
+  '/:collectionId/ancestors',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Get the ancestors of a collection, root first. The breadcrumb stops below the first ancestor the user cannot read.',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Ancestors of the collection',
+        content: {
+          'application/json': {
+            schema: resolver(collectionAncestorsResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:read', { collectionParam: 'collectionId' }),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const sessionUser = c.get('user');
+    const ancestors = await collectionService.getAncestors(collectionId, sessionUser?.id);
+    return c.json({ ancestors }, 200);
+  }
+);
+
+
+// POST /:collectionId/move - Move a collection in the tree
+collectionRoutes.post(
+  '/:collectionId/move',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Move a collection under another collection, or to the top level with a null parentId (owner only, and owner or collaborator of the new parent)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { parentId: 'col_456' },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Moved collection',
+        content: {
+          'application/json': {
+            schema: resolver(collectionResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or tree too deep' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or parent not found' },
+      409: { description: 'The move would create a cycle' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:move', { collectionParam: 'collectionId' }),
+  validator('json', moveCollectionSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const { parentId } = c.req.valid('json');
+    const collection = await collectionService.moveCollection(collectionId, parentId, sessionUser.id);
+    return c.json(collection, 200);
+  }
+);
+
+
+// POST /:collectionId/import - Import media from a file
+collectionRoutes.post(
+  '/:collectionId/import',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Import media into the collection from an uploaded file (owner or collaborator): the CSV or JSON export of this API, or a Letterboxd, Goodreads or IMDb export. Rows are validated and matched against the catalog one by one; invalid rows are reported without blocking the others. With dryRun=true, nothing is changed and each row tells what would be done.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'multipart/form-data': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Outcome of every row, or the planned actions of a dry run',
+        content: {
+          'application/json': {
+            schema: resolver(importResultSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload, unreadable file or too many rows' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection not found' },
+      409: { description: 'Smart collection' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:manageMedia', { collectionParam: 'collectionId' }),
+  validator('form', importCollectionSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    const { file, ...options } = c.req.valid('form');
+    const result = await importService.importCollection(
+      collectionId,
+      { name: file.name, text: await file.text() },
+      options,
+      sessionUser.id
+    );
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /:collectionId/export - Download the items of a collection
+collectionRoutes.get(
+  '/:collectionId/export',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Download the items of the collection ordered by position, as CSV or JSON. The file is streamed and can be imported back.',
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'format', in: 'query', schema: { type: 'string', enum: ['csv', 'json'] }, example: 'csv' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection items',
+        content: {
+          'text/csv': {
+            schema: { type: 'string' },
+          },
+          'application/json': {
+            schema: resolver(collectionExportSchema),
+          },
+        },
+      },
+      404: { description: 'Collection not found' },
+      409: { description: 'Smart collection' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:read', { collectionParam: 'collectionId' }),
+  validator('query', exportCollectionQuerySchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const { format } = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const collection = await collectionService.getById(collectionId, sessionUser?.id);
+    if (!collection) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    if (collection.rules) {
+      throw new AppError('The media of a smart collection are defined by its rules', 409);
+    }
+
+    c.header('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    c.header('Content-Disposition', `attachment; filename="collection-${collection.id}.${format}"`);
+    return stream(c, async (output) => {
+      for await (const chunk of exportService.exportItems({ id: collection.id, name: collection.name }, format)) {
+        await output.write(chunk);
+      }
+    }, async (error, output) => {
+      console.error('Error exporting collection:', error);
+      await output.close();
+    });
+  }
+);
+
+
+// GET /:collectionId/activity - Activity log of a collection
+collectionRoutes.get(
+  '/:collectionId/activity',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Who added, removed, reordered or edited what in a collection, newest first, with the changed fields before and after and the ID of the request that made each change. Members only, or anyone on a public collection. Pass `cursor` to page through the log without shifts as new activity is logged.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'cursor', in: 'query', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'Activity of the collection',
+        content: {
+          'application/json': {
+            schema: resolver(activityListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid cursor' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('activity:read', { collectionParam: 'collectionId' }),
+  validator('query', getActivityQuerySchema),
+  async (c) => {
+    const { collectionId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const result = await activityService.listCollectionActivity(collectionId, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// PUT /:collectionId/follow - Follow a collection
+collectionRoutes.put(
+  '/:collectionId/follow',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Follow a readable collection, so that its activity shows in the feed of the authenticated user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection followed',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Collection not found' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  authorize('collection:read', { collectionParam: 'collectionId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    await activityService.follow(sessionUser.id, collectionId);
+    return c.json({ message: 'Collection followed' }, 200);
+  }
+);
+
+
+// DELETE /:collectionId/follow - Stop following a collection
+collectionRoutes.delete(
+  '/:collectionId/follow',
+  describeRoute({
+    tags: ['Collections'],
+    description: 'Stop following a collection',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'collectionId', in: 'path', required: true, schema: { type: 'string' }, example: 'col_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Collection unfollowed',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Collection not followed' },
+    },
+  }),
+  validator('param', collectionIdParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { collectionId } = c.req.valid('param');
+    await activityService.unfollow(sessionUser.id, collectionId);
+    return c.json({ message: 'Collection unfollowed' }, 200);
+  }
+);
@@ -1,6 +1,14 @@
 import { Hono } from 'hono';
 import { describeRoute, resolver, validator } from 'hono-openapi';
 import { mediaService } from '@/services/media.service';
+import { catalogService } from '@/services/catalog.service';
+import { reviewService } from '@/services/review.service';
+import { recommendationService } from '@/services/recommendation.service';
+import { metadataService } from '@/services/metadata.service';
+import { platformService } from '@/services/platform.service';
+import { episodeService } from '@/services/episode.service';
+import { batchService } from '@/services/batch.service';
+import { MediaType } from '@/generated/prisma/browser';
 import type { AuthType } from '@/middleware/auth';
 import { 
   createMediaSchema, 
@@ -8,9 +16,45 @@ import {
   updateMediaSchema,
   mediaIdParamSchema,
   getMediaQuerySchema,
-  mediaListResponseSchema
+  mediaListResponseSchema,
+  findDuplicatesSchema,
+  duplicateCandidatesResponseSchema,
+  duplicateConflictResponseSchema,
+  mergeMediaSchema,
+  mediaDetailResponseSchema
 } from '@/schemas/media.schema';
+import {
+  createReviewSchema,
+  updateReviewSchema,
+  reviewParamSchema,
+  getReviewsQuerySchema,
+  reviewResponseSchema,
+  reviewListResponseSchema
+} from '@/schemas/review.schema';
+import { getRecommendationsQuerySchema, recommendationListResponseSchema } from '@/schemas/recommendation.schema';
+import { importMediaSchema, lookupQuerySchema, lookupResponseSchema } from '@/schemas/metadata.schema';
+import {
+  addAvailabilitySchema,
+  availabilityParamSchema,
+  availabilityResponseSchema,
+  availabilityListResponseSchema
+} from '@/schemas/platform.schema';
+import {
+  createSeasonSchema,
+  updateSeasonSchema,
+  createEpisodeSchema,
+  updateEpisodeSchema,
+  seasonParamSchema,
+  episodeParamSchema,
+  markWatchedSchema,
+  seasonResponseSchema,
+  seasonListResponseSchema,
+  episodeResponseSchema,
+  seriesProgressSchema
+} from '@/schemas/episode.schema';
+import { mediaBatchSchema, mediaBatchResponseSchema } from '@/schemas/batch.schema';
 import { AppError } from '@/middleware/errorHandler';
+import { authorize } from '@/middleware/authorize';
 
 export const mediaRoutes = new Hono<{ Variables: AuthType }>();
 
@@ -19,7 +63,7 @@ mediaRoutes.post(
   '/',
   describeRoute({
     tags: ['Media'],
-    description: 'Create a new media entry',
+    description: 'Create a new media entry. The shared catalog is checked first: when the same work already exists (same external ID, or same type, title, release year and director/author), `onDuplicate` decides whether to reject with the candidates (default), attach the existing entry to the collection, or create a new entry anyway.',
     security: [{ bearerAuth: [] }],
     requestBody: {
       required: true,
@@ -36,10 +80,26 @@ mediaRoutes.post(
           },
         },
       },
+      200: {
+        description: 'Existing catalog entry attached to the collection (onDuplicate=attach)',
+        content: {
+          'application/json': {
+            schema: resolver(createMediaResponseSchema),
+          },
+        },
+      },
       400: { description: 'Invalid payload' },
       401: { description: 'Unauthorized' },
       403: { description: 'Forbidden' },
       404: { description: 'Collection not found' },
+      409: {
+        description: 'The media already exists in the catalog (onDuplicate=reject)',
+        content: {
+          'application/json': {
+            schema: resolver(duplicateConflictResponseSchema),
+          },
+        },
+      },
     },
   }),
   validator('json', createMediaSchema),
@@ -50,9 +110,200 @@ mediaRoutes.post(
     }
 
     const mediaData = c.req.valid('json');
-    const { collectionId, ...payload } = mediaData;
-    const newMedia = await mediaService.createMedia(payload, sessionUser.id, collectionId);
-    return c.json(newMedia, 201);
+    const { collectionId, onDuplicate, ...payload } = mediaData;
+    const result = await mediaService.createMedia(payload, sessionUser.id, collectionId, onDuplicate);
+
+    if (result.status === 'duplicate') {
+      return c.json({ error: 'Media already exists in the catalog', candidates: result.candidates }, 409);
+    }
+    return c.json(result.media, result.status === 'created' ? 201 : 200);
+  }
+);
+
+
+// POST /duplicates - Preview catalog entries matching a media before creating it
+mediaRoutes.post(
+  '/duplicates',
+  describeRoute({
+    tags: ['Media'],
+    description: 'Find catalog entries that may be the same work as the given media, best match first. Only media readable by the user are returned.',
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Duplicate candidates',
+        content: {
+          'application/json': {
+            schema: resolver(duplicateCandidatesResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+    },
+  }),
+  validator('json', findDuplicatesSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    const media = c.req.valid('json');
+    const candidates = await catalogService.findDuplicates(media, sessionUser?.id);
+    return c.json({ candidates }, 200);
+  }
+);
+
+
+// GET /lookup - Search titles on the external metadata providers
+mediaRoutes.get(
+  '/lookup',
+  describeRoute({
+    tags: ['Media'],
+    description: 'Search titles on the enabled external metadata providers (METADATA_PROVIDERS). Responses are cached. A failing provider is reported in `errors` without failing the lookup.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'q', in: 'query', required: true, schema: { type: 'string' }, example: 'inception' },
+      { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
+      { name: 'provider', in: 'query', schema: { type: 'string', enum: ['tmdb', 'omdb', 'openlibrary', 'fake'] } },
+    ],
+    responses: {
+      200: {
+        description: 'Search results of each provider',
+        content: {
+          'application/json': {
+            schema: resolver(lookupResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid query or provider not enabled' },
+      401: { description: 'Unauthorized' },
+      503: { description: 'No metadata provider is configured' },
+    },
+  }),
+  validator('query', lookupQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { q, ...options } = c.req.valid('query');
+    const result = await metadataService.lookup(q, options);
+    return c.json(result, 200);
+  }
+);
+
+
+// POST /import - Import a title from an external metadata provider
+mediaRoutes.post(
+  '/import',
+  describeRoute({
+    tags: ['Media'],
+    description: 'Import a title found with the lookup: description, release date, director/author, tags, external IDs, scores and cover are copied into a new media entry. The catalog is checked for duplicates as for a manual creation.',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {
+          example: { provider: 'tmdb', externalId: 'movie/27205', collectionId: 'col_123', onDuplicate: 'attach' },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: 'Media imported',
+        content: {
+          'application/json': {
+            schema: resolver(createMediaResponseSchema),
+          },
+        },
+      },
+      200: {
+        description: 'Existing catalog entry attached to the collection (onDuplicate=attach)',
+        content: {
+          'application/json': {
+            schema: resolver(createMediaResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or provider not enabled' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Collection or title not found' },
+      409: {
+        description: 'The media already exists in the catalog (onDuplicate=reject)',
+        content: {
+          'application/json': {
+            schema: resolver(duplicateConflictResponseSchema),
+          },
+        },
+      },
+      502: { description: 'Metadata provider unavailable' },
+    },
+  }),
+  validator('json', importMediaSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const input = c.req.valid('json');
+    const result = await metadataService.importMedia(input, sessionUser.id);
+
+    if (result.status === 'duplicate') {
+      return c.json({ error: 'Media already exists in the catalog', candidates: result.candidates }, 409);
+    }
+    return c.json(result.media, result.status === 'created' ? 201 : 200);
+  }
+);
+
+
+// POST /batch - Apply several media operations at once
+mediaRoutes.post(
+  '/batch',
+  describeRoute({
+    tags: ['Media'],
+    description: 'Create, update, delete, tag, add platforms to and move media between collections in one request. In `atomic` mode (default) the operations share a transaction: either all of them are applied, or none is and the failed operation is reported. In `bestEffort` mode each operation is applied on its own. Each operation needs the permissions of its own endpoint, all checked before any change.',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Every operation was applied',
+        content: {
+          'application/json': {
+            schema: resolver(mediaBatchResponseSchema),
+          },
+        },
+      },
+      207: {
+        description: 'Some operations failed: the atomic batch was rolled back, or the best-effort batch was partly applied',
+        content: {
+          'application/json': {
+            schema: resolver(mediaBatchResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('json', mediaBatchSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mode, operations } = c.req.valid('json');
+    const result = await batchService.run(operations, mode, sessionUser);
+    return c.json(result, result.failed === 0 ? 200 : 207);
   }
 );
 
@@ -62,19 +313,31 @@ mediaRoutes.get(
   '/',
   describeRoute({
     tags: ['Media'],
-    description: 'Retrieve media entries with pagination, filtering, sorting, and navigation. Supports both offset-based (page/pageSize) and cursor-based (cursor) pagination.',
+    description: 'Retrieve media entries with pagination, filtering, sorting, and navigation. Supports both offset-based (page/pageSize) and keyset (cursor) pagination; ties are broken by ID so pages never skip or repeat items.',
     parameters: [
       { name: 'page', in: 'query', schema: { type: 'number' }, example: 1, description: 'Page number for offset-based pagination' },
       { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20, description: 'Number of items per page' },
       { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
       { name: 'tag', in: 'query', schema: { type: 'string' }, example: 'sci-fi' },
       { name: 'tags', in: 'query', schema: { type: 'string' }, example: 'sci-fi,thriller' },
+      { name: 'tagsMode', in: 'query', schema: { type: 'string', enum: ['any', 'all', 'none'] }, description: 'Media with any (default), all or none of the tags' },
       { name: 'platform', in: 'query', schema: { type: 'string' }, example: 'Netflix' },
       { name: 'platforms', in: 'query', schema: { type: 'string' }, example: 'Netflix,Amazon Prime' },
-      { name: 'q', in: 'query', schema: { type: 'string' }, example: 'inception', description: 'Search in title/description' },
-      { name: 'sort', in: 'query', schema: { type: 'string', enum: ['createdAt', 'title', 'releaseDate'] } },
+      { name: 'q', in: 'query', schema: { type: 'string' }, example: 'inception', description: 'Full-text search on title, director/author, tags and description, ignoring case and accents. Words match by prefix and close titles tolerate typos. Results get a relevance and highlights wrapped in <mark>' },
+      { name: 'minScore', in: 'query', schema: { type: 'string' }, example: 'imdb:8,metacritic:70', description: 'Minimum external scores, on each provider scale' },
+      { name: 'status', in: 'query', schema: { type: 'string', enum: ['PLANNED', 'IN_PROGRESS', 'COMPLETED', 'DROPPED', 'ON_HOLD'] }, description: 'Only media with this watch status in the authenticated user\'s library' },
+      { name: 'availableToMe', in: 'query', schema: { type: 'string', enum: ['true', 'false'] }, description: 'Only media available for free or by subscription on a platform the authenticated user subscribes to, in the region of the subscription' },
+      { name: 'titleRegex', in: 'query', schema: { type: 'string' }, example: '^the (dark|last) ', description: 'Case-insensitive regular expression on the title. At most 100 characters and 10 quantifiers; backreferences, lookarounds and nested quantifiers such as (a+)+ are rejected' },
+      { name: 'directorAuthor', in: 'query', schema: { type: 'string' }, example: 'nolan', description: 'Part of the director or author name, case-insensitive' },
+      { name: 'releasedFrom', in: 'query', schema: { type: 'string', format: 'date' }, example: '2010-01-01' },
+      { name: 'releasedTo', in: 'query', schema: { type: 'string', format: 'date' }, example: '2019-12-31' },
+      { name: 'createdFrom', in: 'query', schema: { type: 'string', format: 'date' }, example: '2024-01-01' },
+      { name: 'createdTo', in: 'query', schema: { type: 'string', format: 'date' }, example: '2024-12-31' },
+      { name: 'filter', in: 'query', schema: { type: 'string' }, example: 'type:FILM tag:sci-fi year:>=2010 -tag:horror', description: 'Filter expression combined with the other filters. Terms are separated by spaces and all must match, `-` excludes, values with spaces are double-quoted. Fields: type, tag, platform, status, director/author, title, year (2010, >=2010, 2010..2015), released and created (>=YYYY-MM-DD), rating (>=8); bare words match the title' },
+      { name: 'sort', in: 'query', schema: { type: 'string', enum: ['createdAt', 'title', 'releaseDate', 'rating', 'relevance'] }, description: 'rating sorts on the average user rating, unrated media last; relevance requires q and page-based pagination' },
       { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
-      { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Cursor for cursor-based pagination (use instead of page)' },
+      { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Opaque signed cursor from the `cursor` field or the next/prev links of a previous page, valid for the same sort and order (use instead of page)' },
+      { name: 'facets', in: 'query', schema: { type: 'string' }, example: 'type,platforms', description: 'Comma-separated facets among type, tags, platforms and year: counts of the whole filtered listing by value, returned in `facets`. Only media visible to the user are counted; tags and platforms are limited to the 50 most frequent values' },
     ],
     responses: {
       200: {
@@ -85,12 +348,18 @@ mediaRoutes.get(
           },
         },
       },
+      400: { description: 'Invalid titleRegex, filter expression or cursor, or sort=relevance without q or with a cursor' },
+      401: { description: 'Unauthorized (status and availableToMe filters require authentication)' },
     },
   }),
   validator('query', getMediaQuerySchema),
   async (c) => {
     const query = c.req.valid('query');
     const sessionUser = c.get('user');
+    if ((query.status || query.availableToMe) && !sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
     const result = await mediaService.listMedia(query, sessionUser?.id);
     return c.json(result, 200);
   }
@@ -102,7 +371,7 @@ mediaRoutes.get(
   '/:mediaId',
   describeRoute({
     tags: ['Media'],
-    description: 'Get media details by ID',
+    description: 'Get media details by ID, with the aggregate of user ratings and, for a SERIES, the progress of the user and the next episode to watch',
     parameters: [
       { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
     ],
@@ -111,7 +380,7 @@ mediaRoutes.get(
         description: 'Media details',
         content: {
           'application/json': {
-            schema: resolver(createMediaResponseSchema),
+            schema: resolver(mediaDetailResponseSchema),
           },
         },
       },
@@ -127,8 +396,12 @@ mediaRoutes.get(
     if (!media) {
       return c.json({ error: 'Media not found' }, 404);
     }
-    
-    return c.json(media, 200);
+
+    const [ratings, progress] = await Promise.all([
+      reviewService.getAggregate(mediaId),
+      sessionUser && media.type === MediaType.SERIES ? episodeService.getProgress(sessionUser.id, mediaId) : null,
+    ]);
+    return c.json({ ...media, ratings, progress }, 200);
   }
 );
 
@@ -158,13 +431,14 @@ mediaRoutes.patch(
           },
         },
       },
-      400: { description: 'Invalid payload or no fields to update' },
+      400: { description: 'Invalid payload, unknown platform or no fields to update' },
       401: { description: 'Unauthorized' },
       403: { description: 'Forbidden' },
       404: { description: 'Media not found' },
     },
   }),
   validator('param', mediaIdParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
   validator('json', updateMediaSchema),
   async (c) => {
     const sessionUser = c.get('user');
@@ -179,7 +453,10 @@ mediaRoutes.patch(
       return c.json({ error: 'No fields to update' }, 400);
     }
     
-    const media = await mediaService.updateById(mediaId, data, sessionUser.id).catch(() => {
+    const media = await mediaService.updateById(mediaId, data).catch((error) => {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('Failed to update media', 500);
     });
     
@@ -217,6 +494,7 @@ mediaRoutes.delete(
     },
   }),
   validator('param', mediaIdParamSchema),
+  authorize('media:delete', { mediaParam: 'mediaId' }),
   async (c) => {
     const sessionUser = c.get('user');
     if (!sessionUser) {
@@ -225,7 +503,10 @@ mediaRoutes.delete(
 
     const { mediaId } = c.req.valid('param');
 
-    const deleted = await mediaService.deleteById(mediaId, sessionUser.id).catch(() => {
+    const deleted = await mediaService.deleteById(mediaId).catch((error) => {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new AppError('Failed to delete media', 500);
     });
     
@@ -238,3 +519,819 @@ mediaRoutes.delete(
 );
 
 
+
+
+// POST /:mediaId/merge - Merge duplicate media entries into this one
+mediaRoutes.post(
+  '/:mediaId/merge',
+  describeRoute({
+    tags: ['Media'],
+    description: 'Merge duplicate media into this entry (admin, or a user allowed to update this media and delete every duplicate). Collection items, reviews, library entries and platform availability are re-pointed to this entry, seasons and episodes are moved or matched by number with the watched episodes, tags, platforms, external IDs and scores are unioned, and the duplicates are deleted.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Merged media',
+        content: {
+          'application/json': {
+            schema: resolver(createMediaResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  validator('json', mergeMediaSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const { duplicateIds } = c.req.valid('json');
+    const media = await catalogService.mergeMedia(mediaId, duplicateIds, sessionUser);
+    return c.json(media, 200);
+  }
+);
+
+
+// GET /:mediaId/similar - Media similar to this one
+mediaRoutes.get(
+  '/:mediaId/similar',
+  describeRoute({
+    tags: ['Media'],
+    description: 'List readable media similar to this one, scored by shared tags, director/author and how often both appear in the same collections',
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
+      { name: 'platform', in: 'query', schema: { type: 'string' }, example: 'Netflix' },
+      { name: 'platforms', in: 'query', schema: { type: 'string' }, example: 'Netflix,Amazon Prime' },
+    ],
+    responses: {
+      200: {
+        description: 'Similar media, most similar first',
+        content: {
+          'application/json': {
+            schema: resolver(recommendationListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('query', getRecommendationsQuerySchema),
+  async (c) => {
+    const { mediaId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const result = await recommendationService.findSimilar(mediaId, sessionUser, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// POST /:mediaId/reviews - Rate and review a media
+mediaRoutes.post(
+  '/:mediaId/reviews',
+  describeRoute({
+    tags: ['Reviews'],
+    description: 'Rate a media from 0 to 10 in half steps, with an optional review. One review per user and media.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Review created',
+        content: {
+          'application/json': {
+            schema: resolver(reviewResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Media not found' },
+      409: { description: 'Media already reviewed by the user' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('json', createReviewSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const review = await reviewService.createReview(mediaId, sessionUser.id, data);
+    return c.json(review, 201);
+  }
+);
+
+
+// GET /:mediaId/reviews - List the reviews of a media
+mediaRoutes.get(
+  '/:mediaId/reviews',
+  describeRoute({
+    tags: ['Reviews'],
+    description: 'List the reviews of a media. Spoiler reviews can be included, have their text hidden, or be excluded.',
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'spoilers', in: 'query', schema: { type: 'string', enum: ['include', 'hide', 'exclude'] } },
+      { name: 'sort', in: 'query', schema: { type: 'string', enum: ['createdAt', 'rating'] } },
+      { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+    ],
+    responses: {
+      200: {
+        description: 'List of reviews',
+        content: {
+          'application/json': {
+            schema: resolver(reviewListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('query', getReviewsQuerySchema),
+  async (c) => {
+    const { mediaId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const result = await reviewService.listReviews(mediaId, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /:mediaId/reviews/:reviewId - Get a review
+mediaRoutes.get(
+  '/:mediaId/reviews/:reviewId',
+  describeRoute({
+    tags: ['Reviews'],
+    description: 'Get a review of a media',
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' }, example: 'review_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Review',
+        content: {
+          'application/json': {
+            schema: resolver(reviewResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Media or review not found' },
+    },
+  }),
+  validator('param', reviewParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const { mediaId, reviewId } = c.req.valid('param');
+    const review = await reviewService.getReview(mediaId, reviewId);
+    return c.json(review, 200);
+  }
+);
+
+
+// PATCH /:mediaId/reviews/:reviewId - Update a review
+mediaRoutes.patch(
+  '/:mediaId/reviews/:reviewId',
+  describeRoute({
+    tags: ['Reviews'],
+    description: 'Update a review (author only)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' }, example: 'review_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Updated review',
+        content: {
+          'application/json': {
+            schema: resolver(reviewResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or no fields to update' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or review not found' },
+    },
+  }),
+  validator('param', reviewParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('json', updateReviewSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, reviewId } = c.req.valid('param');
+    const data = c.req.valid('json');
+
+    if (Object.keys(data).length === 0) {
+      return c.json({ error: 'No fields to update' }, 400);
+    }
+
+    const review = await reviewService.updateReview(mediaId, reviewId, sessionUser.id, data);
+    return c.json(review, 200);
+  }
+);
+
+
+// DELETE /:mediaId/reviews/:reviewId - Delete a review
+mediaRoutes.delete(
+  '/:mediaId/reviews/:reviewId',
+  describeRoute({
+    tags: ['Reviews'],
+    description: 'Delete a review (author or admin)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' }, example: 'review_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Review deleted successfully',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or review not found' },
+    },
+  }),
+  validator('param', reviewParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, reviewId } = c.req.valid('param');
+    await reviewService.deleteReview(mediaId, reviewId, sessionUser);
+    return c.json({ message: 'Review deleted successfully' }, 200);
+  }
+);
+
+
+// GET /:mediaId/availability - Where the media can be watched or read
+mediaRoutes.get(
+  '/:mediaId/availability',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'List the platforms, regions and access types (subscription, rent, buy, free) where the media is available',
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Availability of the media',
+        content: {
+          'application/json': {
+            schema: resolver(availabilityListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const { mediaId } = c.req.valid('param');
+    const data = await platformService.listAvailability(mediaId);
+    return c.json({ data }, 200);
+  }
+);
+
+
+// POST /:mediaId/availability - Record where the media is available
+mediaRoutes.post(
+  '/:mediaId/availability',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Record that the media is available on a registered platform in a region, with its access type and link',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Availability recorded',
+        content: {
+          'application/json': {
+            schema: resolver(availabilityResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or platform not found' },
+      409: { description: 'The same availability is already recorded' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  validator('json', addAvailabilitySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const availability = await platformService.addAvailability(mediaId, data);
+    return c.json(availability, 201);
+  }
+);
+
+
+// DELETE /:mediaId/availability/:availabilityId - Remove an availability
+mediaRoutes.delete(
+  '/:mediaId/availability/:availabilityId',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Remove an availability of the media',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'availabilityId', in: 'path', required: true, schema: { type: 'string' }, example: 'availability_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Availability removed',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or availability not found' },
+    },
+  }),
+  validator('param', availabilityParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, availabilityId } = c.req.valid('param');
+    await platformService.removeAvailability(mediaId, availabilityId);
+    return c.json({ message: 'Availability removed' }, 200);
+  }
+);
+
+
+// GET /:mediaId/seasons - Seasons and episodes of a series
+mediaRoutes.get(
+  '/:mediaId/seasons',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'List the seasons of a series with their episodes, in order. For an authenticated user, each episode tells when they watched it.',
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Seasons and episodes of the series',
+        content: {
+          'application/json': {
+            schema: resolver(seasonListResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const { mediaId } = c.req.valid('param');
+    const sessionUser = c.get('user');
+    const data = await episodeService.listSeasons(mediaId, sessionUser?.id);
+    return c.json({ data }, 200);
+  }
+);
+
+
+// POST /:mediaId/seasons - Add a season to a series
+mediaRoutes.post(
+  '/:mediaId/seasons',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Add a season to a SERIES media, optionally with its episodes',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Season created',
+        content: {
+          'application/json': {
+            schema: resolver(seasonResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload, media is not a series or an episode number is listed twice' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media not found' },
+      409: { description: 'The series already has a season with this number' },
+    },
+  }),
+  validator('param', mediaIdParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  validator('json', createSeasonSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const season = await episodeService.createSeason(mediaId, data);
+    return c.json(season, 201);
+  }
+);
+
+
+// PATCH /:mediaId/seasons/:seasonId - Update a season
+mediaRoutes.patch(
+  '/:mediaId/seasons/:seasonId',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Update the number, title or air date of a season',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'seasonId', in: 'path', required: true, schema: { type: 'string' }, example: 'season_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Season updated',
+        content: {
+          'application/json': {
+            schema: resolver(seasonResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or season not found' },
+      409: { description: 'The series already has a season with this number' },
+    },
+  }),
+  validator('param', seasonParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  validator('json', updateSeasonSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, seasonId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const season = await episodeService.updateSeason(mediaId, seasonId, data);
+    return c.json(season, 200);
+  }
+);
+
+
+// DELETE /:mediaId/seasons/:seasonId - Delete a season
+mediaRoutes.delete(
+  '/:mediaId/seasons/:seasonId',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Delete a season with its episodes and the watched markers of every user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'seasonId', in: 'path', required: true, schema: { type: 'string' }, example: 'season_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Season deleted',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or season not found' },
+    },
+  }),
+  validator('param', seasonParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, seasonId } = c.req.valid('param');
+    await episodeService.deleteSeason(mediaId, seasonId);
+    return c.json({ message: 'Season deleted successfully' }, 200);
+  }
+);
+
+
+// POST /:mediaId/seasons/:seasonId/episodes - Add an episode to a season
+mediaRoutes.post(
+  '/:mediaId/seasons/:seasonId/episodes',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Add an episode to a season',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'seasonId', in: 'path', required: true, schema: { type: 'string' }, example: 'season_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Episode created',
+        content: {
+          'application/json': {
+            schema: resolver(episodeResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or season not found' },
+      409: { description: 'The season already has an episode with this number' },
+    },
+  }),
+  validator('param', seasonParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  validator('json', createEpisodeSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, seasonId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const episode = await episodeService.createEpisode(mediaId, seasonId, data);
+    return c.json(episode, 201);
+  }
+);
+
+
+// PATCH /:mediaId/episodes/:episodeId - Update an episode
+mediaRoutes.patch(
+  '/:mediaId/episodes/:episodeId',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Update the number, title, air date or runtime of an episode',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'episodeId', in: 'path', required: true, schema: { type: 'string' }, example: 'episode_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Episode updated',
+        content: {
+          'application/json': {
+            schema: resolver(episodeResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or episode not found' },
+      409: { description: 'The season already has an episode with this number' },
+    },
+  }),
+  validator('param', episodeParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  validator('json', updateEpisodeSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, episodeId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const episode = await episodeService.updateEpisode(mediaId, episodeId, data);
+    return c.json(episode, 200);
+  }
+);
+
+
+// DELETE /:mediaId/episodes/:episodeId - Delete an episode
+mediaRoutes.delete(
+  '/:mediaId/episodes/:episodeId',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Delete an episode with the watched markers of every user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'episodeId', in: 'path', required: true, schema: { type: 'string' }, example: 'episode_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Episode deleted',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden' },
+      404: { description: 'Media or episode not found' },
+    },
+  }),
+  validator('param', episodeParamSchema),
+  authorize('media:update', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, episodeId } = c.req.valid('param');
+    await episodeService.deleteEpisode(mediaId, episodeId);
+    return c.json({ message: 'Episode deleted successfully' }, 200);
+  }
+);
+
+
+// PUT /:mediaId/episodes/:episodeId/watched - Mark an episode as watched
+mediaRoutes.put(
+  '/:mediaId/episodes/:episodeId/watched',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Mark an episode as watched, optionally with every earlier episode. The library entry of the series follows: season and episode point to the furthest watched episode, and the status becomes IN_PROGRESS, or COMPLETED once every episode is watched.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'episodeId', in: 'path', required: true, schema: { type: 'string' }, example: 'episode_123' },
+    ],
+    requestBody: {
+      required: false,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Progress of the user in the series',
+        content: {
+          'application/json': {
+            schema: resolver(seriesProgressSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Media or episode not found' },
+    },
+  }),
+  validator('param', episodeParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('json', markWatchedSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, episodeId } = c.req.valid('param');
+    const options = c.req.valid('json');
+    const progress = await episodeService.markWatched(sessionUser.id, mediaId, episodeId, options);
+    return c.json(progress, 200);
+  }
+);
+
+
+// DELETE /:mediaId/episodes/:episodeId/watched - Unmark an episode
+mediaRoutes.delete(
+  '/:mediaId/episodes/:episodeId/watched',
+  describeRoute({
+    tags: ['Episodes'],
+    description: 'Remove the watched marker of an episode. The library entry of the series follows, except that a COMPLETED series stays completed.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+      { name: 'episodeId', in: 'path', required: true, schema: { type: 'string' }, example: 'episode_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Progress of the user in the series',
+        content: {
+          'application/json': {
+            schema: resolver(seriesProgressSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Media or episode not found' },
+    },
+  }),
+  validator('param', episodeParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId, episodeId } = c.req.valid('param');
+    const progress = await episodeService.unmarkWatched(sessionUser.id, mediaId, episodeId);
+    return c.json(progress, 200);
+  }
+);
@@ -0,0 +1,207 @@
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator } from 'hono-openapi';
+import { platformService } from '@/services/platform.service';
+import type { AuthType } from '@/middleware/auth';
+import {
+  createPlatformSchema,
+  updatePlatformSchema,
+  platformIdParamSchema,
+  getPlatformsQuerySchema,
+  platformResponseSchema,
+  platformListResponseSchema
+} from '@/schemas/platform.schema';
+
+export const platformRoutes = new Hono<{ Variables: AuthType }>();
+
+// GET / - List registered platforms
+platformRoutes.get(
+  '/',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'List the registered streaming services, stores, libraries and websites, ordered by name',
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'kind', in: 'query', schema: { type: 'string', enum: ['STREAMING', 'STORE', 'LIBRARY', 'WEB'] } },
+      { name: 'region', in: 'query', schema: { type: 'string' }, example: 'FR', description: 'Platforms operating in this country (ISO 3166-1 alpha-2), international ones included' },
+    ],
+    responses: {
+      200: {
+        description: 'List of platforms',
+        content: {
+          'application/json': {
+            schema: resolver(platformListResponseSchema),
+          },
+        },
+      },
+    },
+  }),
+  validator('query', getPlatformsQuerySchema),
+  async (c) => {
+    const query = c.req.valid('query');
+    const result = await platformService.listPlatforms(query);
+    return c.json(result, 200);
+  }
+);
+
+
+// POST / - Register a platform
+platformRoutes.post(
+  '/',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Register a platform (admin only)',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Platform created',
+        content: {
+          'application/json': {
+            schema: resolver(platformResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden (admins only)' },
+      409: { description: 'A platform already has this name' },
+    },
+  }),
+  validator('json', createPlatformSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const data = c.req.valid('json');
+    const platform = await platformService.createPlatform(data, sessionUser);
+    return c.json(platform, 201);
+  }
+);
+
+
+// GET /:platformId - Get a platform
+platformRoutes.get(
+  '/:platformId',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Get a registered platform',
+    parameters: [
+      { name: 'platformId', in: 'path', required: true, schema: { type: 'string' }, example: 'platform_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Platform',
+        content: {
+          'application/json': {
+            schema: resolver(platformResponseSchema),
+          },
+        },
+      },
+      404: { description: 'Platform not found' },
+    },
+  }),
+  validator('param', platformIdParamSchema),
+  async (c) => {
+    const { platformId } = c.req.valid('param');
+    const platform = await platformService.getPlatform(platformId);
+    return c.json(platform, 200);
+  }
+);
+
+
+// PATCH /:platformId - Update a platform
+platformRoutes.patch(
+  '/:platformId',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Update a platform (admin only)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'platformId', in: 'path', required: true, schema: { type: 'string' }, example: 'platform_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Updated platform',
+        content: {
+          'application/json': {
+            schema: resolver(platformResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or no fields to update' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden (admins only)' },
+      404: { description: 'Platform not found' },
+      409: { description: 'Another platform already has this name' },
+    },
+  }),
+  validator('param', platformIdParamSchema),
+  validator('json', updatePlatformSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { platformId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    if (Object.keys(data).length === 0) {
+      return c.json({ error: 'No fields to update' }, 400);
+    }
+
+    const platform = await platformService.updatePlatform(platformId, data, sessionUser);
+    return c.json(platform, 200);
+  }
+);
+
+
+// DELETE /:platformId - Delete a platform
+platformRoutes.delete(
+  '/:platformId',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Delete a platform with the media availability and subscriptions referencing it (admin only)',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'platformId', in: 'path', required: true, schema: { type: 'string' }, example: 'platform_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Platform deleted',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden (admins only)' },
+      404: { description: 'Platform not found' },
+    },
+  }),
+  validator('param', platformIdParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { platformId } = c.req.valid('param');
+    await platformService.deletePlatform(platformId, sessionUser);
+    return c.json({ message: 'Platform deleted' }, 200);
+  }
+);
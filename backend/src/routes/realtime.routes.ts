@@ -0,0 +1,67 @@
+import { Hono } from 'hono';
+import { upgradeWebSocket } from 'hono/bun';
+import { describeRoute } from 'hono-openapi';
+import { TRUSTED_ORIGINS, type AuthType } from '@/middleware/auth';
+import { realtimeService, type RealtimeSession } from '@/services/realtime.service';
+
+export const realtimeRoutes = new Hono<{ Variables: AuthType }>();
+
+// GET / - Open the realtime connection (WebSocket)
+realtimeRoutes.get(
+  '/',
+  describeRoute({
+    tags: ['Realtime'],
+    description: 'Upgrade to a WebSocket carrying the changes of the collections the authenticated user subscribes to. ' +
+      'Send `{"type":"subscribe","collectionId":"..."}` or `{"type":"unsubscribe","collectionId":"..."}`; subscribing requires read access to the collection. ' +
+      'The server answers with `subscribed`, `unsubscribed` (with a `reason` when access was revoked or the collection deleted) or `error` messages, ' +
+      'and sends `{"type":"event","event":{...}}` for each change: `item.added`, `item.updated`, `item.removed`, `member.joined`, `member.updated`, ' +
+      '`member.removed`, `collection.updated` and `collection.deleted`. See docs/endpoints.md for the payloads.',
+    security: [{ bearerAuth: [] }, { sessionCookie: [] }],
+    responses: {
+      101: { description: 'Switching to the WebSocket protocol' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Origin not allowed' },
+      426: { description: 'Not a WebSocket upgrade request' },
+    },
+  }),
+  async (c, next) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    // Browsers send the session cookie with cross-site WebSocket requests, which CORS does not cover
+    const origin = c.req.header('origin');
+    if (origin && !TRUSTED_ORIGINS.includes(origin)) {
+      return c.json({ error: 'Origin not allowed' }, 403);
+    }
+    if (c.req.header('upgrade')?.toLowerCase() !== 'websocket') {
+      return c.json({ error: 'Expected a WebSocket upgrade request' }, 426);
+    }
+    await next();
+  },
+  upgradeWebSocket((c) => {
+    let session: RealtimeSession | null = null;
+
+    return {
+      onOpen(_event, ws) {
+        const sessionUser = c.get('user');
+        if (!sessionUser) {
+          ws.close(1008, 'Unauthorized');
+          return;
+        }
+        session = realtimeService.openSession(sessionUser, (message) => ws.send(JSON.stringify(message)));
+      },
+      async onMessage(event, ws) {
+        if (typeof event.data !== 'string') {
+          ws.send(JSON.stringify({ type: 'error', collectionId: null, error: 'Invalid message' }));
+          return;
+        }
+        await session?.handle(event.data);
+      },
+      onClose() {
+        session?.close();
+        session = null;
+      },
+    };
+  })
+);
@@ -0,0 +1,84 @@
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator } from 'hono-openapi';
+import { tagService } from '@/services/tag.service';
+import type { AuthType } from '@/middleware/auth';
+import {
+  getTagsQuerySchema,
+  tagListResponseSchema,
+  mergeTagsSchema,
+  mergeTagsResponseSchema
+} from '@/schemas/tag.schema';
+
+export const tagRoutes = new Hono<{ Variables: AuthType }>();
+
+// GET / - Most used tags, with prefix autocomplete
+tagRoutes.get(
+  '/',
+  describeRoute({
+    tags: ['Tags'],
+    description: 'List the most used tags of the media and collections readable by the user, with their counts. With `prefix`, only the tags starting with it are listed, for autocomplete.',
+    parameters: [
+      { name: 'prefix', in: 'query', schema: { type: 'string' }, example: 'sci' },
+      { name: 'limit', in: 'query', schema: { type: 'number' }, example: 20, description: 'Maximum number of tags, at most 100' },
+    ],
+    responses: {
+      200: {
+        description: 'Tags, most used first',
+        content: {
+          'application/json': {
+            schema: resolver(tagListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid query' },
+    },
+  }),
+  validator('query', getTagsQuerySchema),
+  async (c) => {
+    const query = c.req.valid('query');
+    const sessionUser = c.get('user');
+    const data = await tagService.listTags(query, sessionUser?.id);
+    return c.json({ data }, 200);
+  }
+);
+
+
+// POST /merge - Rename tags or merge them into one, across all media and collections
+tagRoutes.post(
+  '/merge',
+  describeRoute({
+    tags: ['Tags'],
+    description: 'Rename tags across all media and collections, merging them into a single normalized tag (admin only). A row holding several of the tags keeps one occurrence.',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Tags merged',
+        content: {
+          'application/json': {
+            schema: resolver(mergeTagsResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      403: { description: 'Forbidden (admins only)' },
+    },
+  }),
+  validator('json', mergeTagsSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { from, to } = c.req.valid('json');
+    const result = await tagService.mergeTags(from, to, sessionUser);
+    return c.json(result, 200);
+  }
+);
@@ -2,8 +2,38 @@ import { Hono } from 'hono';
 import { describeRoute, resolver, validator } from 'hono-openapi';
 import type { AuthType } from '@/middleware/auth';
 import { userService } from '@/services/user.service';
+import { memberService } from '@/services/member.service';
+import { libraryService } from '@/services/library.service';
+import { collectionService } from '@/services/collection.service';
+import { recommendationService } from '@/services/recommendation.service';
+import { savedSearchService } from '@/services/savedSearch.service';
+import { platformService } from '@/services/platform.service';
+import { activityService } from '@/services/activity.service';
+import { authorize } from '@/middleware/authorize';
 import { AppError } from '@/middleware/errorHandler';
 import { collectionsResponseSchema, updateUserSchema, userIdParamSchema, userResponseSchema,  } from '@/schemas/user.schema';
+import { invitationParamSchema, invitationsResponseSchema, memberResponseSchema } from '@/schemas/member.schema';
+import {
+  getLibraryQuerySchema,
+  libraryEntryResponseSchema,
+  libraryListResponseSchema,
+  libraryMediaParamSchema,
+  upsertLibraryEntrySchema
+} from '@/schemas/library.schema';
+import { getUpNextQuerySchema, upNextListResponseSchema } from '@/schemas/collection.schema';
+import { getRecommendationsQuerySchema, recommendationListResponseSchema } from '@/schemas/recommendation.schema';
+import { mediaListResponseSchema } from '@/schemas/media.schema';
+import {
+  createSavedSearchSchema,
+  getSavedSearchesQuerySchema,
+  runSavedSearchQuerySchema,
+  savedSearchIdParamSchema,
+  savedSearchListResponseSchema,
+  savedSearchResponseSchema,
+  updateSavedSearchSchema
+} from '@/schemas/savedSearch.schema';
+import { setSubscriptionsSchema, subscriptionListResponseSchema } from '@/schemas/platform.schema';
+import { activityListResponseSchema, getActivityQuerySchema } from '@/schemas/activity.schema';
 
 export const userRoutes = new Hono<{ Variables: AuthType }>();
 
@@ -101,6 +131,706 @@ userRoutes.patch(
 );
 
 
+// GET /me/invitations - List pending collection invitations
+userRoutes.get(
+  '/me/invitations',
+  describeRoute({
+    tags: ['Users'],
+    description: 'List the pending collection invitations of the authenticated user',
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: {
+        description: 'Pending invitations',
+        content: {
+          'application/json': {
+            schema: resolver(invitationsResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const invitations = await memberService.listInvitations(sessionUser.id);
+    return c.json({ invitations }, 200);
+  }
+);
+
+
+// POST /me/invitations/:invitationId/accept - Accept a collection invitation
+userRoutes.post(
+  '/me/invitations/:invitationId/accept',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Accept a pending collection invitation',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'invitationId', in: 'path', required: true, schema: { type: 'string' }, example: 'member_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Invitation accepted',
+        content: {
+          'application/json': {
+            schema: resolver(memberResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Invitation not found' },
+    },
+  }),
+  validator('param', invitationParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { invitationId } = c.req.valid('param');
+    const member = await memberService.respondToInvitation(invitationId, sessionUser.id, true);
+    return c.json(member, 200);
+  }
+);
+
+
+// POST /me/invitations/:invitationId/decline - Decline a collection invitation
+userRoutes.post(
+  '/me/invitations/:invitationId/decline',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Decline a pending collection invitation',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'invitationId', in: 'path', required: true, schema: { type: 'string' }, example: 'member_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Invitation declined',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Invitation not found' },
+    },
+  }),
+  validator('param', invitationParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { invitationId } = c.req.valid('param');
+    await memberService.respondToInvitation(invitationId, sessionUser.id, false);
+    return c.json({ message: 'Invitation declined' }, 200);
+  }
+);
+
+
+// GET /me/library - List the media tracked by the authenticated user
+userRoutes.get(
+  '/me/library',
+  describeRoute({
+    tags: ['Users'],
+    description: 'List the media tracked by the authenticated user with their watch status and progress',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'status', in: 'query', schema: { type: 'string', enum: ['PLANNED', 'IN_PROGRESS', 'COMPLETED', 'DROPPED', 'ON_HOLD'] } },
+      { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
+      { name: 'sort', in: 'query', schema: { type: 'string', enum: ['updatedAt', 'startedAt', 'finishedAt'] } },
+      { name: 'order', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+    ],
+    responses: {
+      200: {
+        description: 'Library entries',
+        content: {
+          'application/json': {
+            schema: resolver(libraryListResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('query', getLibraryQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.valid('query');
+    const result = await libraryService.listLibrary(sessionUser.id, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /me/library/:mediaId - Get the watch status and progress of a media
+userRoutes.get(
+  '/me/library/:mediaId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Get the watch status and progress of a media in the authenticated user\'s library',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Library entry',
+        content: {
+          'application/json': {
+            schema: resolver(libraryEntryResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Library entry not found' },
+    },
+  }),
+  validator('param', libraryMediaParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const entry = await libraryService.getEntry(sessionUser.id, mediaId);
+    return c.json(entry, 200);
+  }
+);
+
+
+// PUT /me/library/:mediaId - Track a media or update its status and progress
+userRoutes.put(
+  '/me/library/:mediaId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Add a media to the authenticated user\'s library or update its status and progress. Omitted fields are left unchanged. Progress fields depend on the media type: season/episode for SERIES, page/percent for BOOK and ARTICLE, timestampSeconds for FILM, percent for OTHER.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Saved library entry',
+        content: {
+          'application/json': {
+            schema: resolver(libraryEntryResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload, progress field not applicable to the media type, or inconsistent dates' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Media not found' },
+    },
+  }),
+  validator('param', libraryMediaParamSchema),
+  authorize('media:read', { mediaParam: 'mediaId' }),
+  validator('json', upsertLibraryEntrySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const entry = await libraryService.upsertEntry(sessionUser.id, mediaId, data);
+    return c.json(entry, 200);
+  }
+);
+
+
+// DELETE /me/library/:mediaId - Stop tracking a media
+userRoutes.delete(
+  '/me/library/:mediaId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Remove a media from the authenticated user\'s library',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'mediaId', in: 'path', required: true, schema: { type: 'string' }, example: 'media_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Library entry removed',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Library entry not found' },
+    },
+  }),
+  validator('param', libraryMediaParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { mediaId } = c.req.valid('param');
+    await libraryService.removeEntry(sessionUser.id, mediaId);
+    return c.json({ message: 'Library entry removed' }, 200);
+  }
+);
+
+
+// GET /me/up-next - What to watch next across the user's collections
+userRoutes.get(
+  '/me/up-next',
+  describeRoute({
+    tags: ['Users'],
+    description: 'List the items of every collection the authenticated user owns or is an accepted member of, without completed media, ordered by priority (MUST first), due date and position. A media held by several collections appears once.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
+      { name: 'platform', in: 'query', schema: { type: 'string' }, example: 'Netflix' },
+      { name: 'platforms', in: 'query', schema: { type: 'string' }, example: 'Netflix,Amazon Prime' },
+    ],
+    responses: {
+      200: {
+        description: 'Up-next queue',
+        content: {
+          'application/json': {
+            schema: resolver(upNextListResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('query', getUpNextQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.valid('query');
+    const result = await collectionService.listUpNext(sessionUser.id, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /me/feed - Activity of the collections the user belongs to or follows
+userRoutes.get(
+  '/me/feed',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Activity of every collection the authenticated user owns, is an accepted member of (directly or through a parent collection) or follows and can still read, newest first. Pass `cursor` to page through the feed without shifts as new activity is logged.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'cursor', in: 'query', schema: { type: 'string' } },
+    ],
+    responses: {
+      200: {
+        description: 'Activity feed',
+        content: {
+          'application/json': {
+            schema: resolver(activityListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid cursor' },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('query', getActivityQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.valid('query');
+    const result = await activityService.listFeed(sessionUser.id, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /me/recommendations - Media recommended from the user's collections and ratings
+userRoutes.get(
+  '/me/recommendations',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Recommend media from public collections that the authenticated user does not have yet, scored by tag overlap, director/author and co-occurrence with the media of their collections and library, weighted by their ratings. Each recommendation is explained by the media that contributed most.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+      { name: 'type', in: 'query', schema: { type: 'string', enum: ['FILM', 'SERIES', 'BOOK', 'ARTICLE', 'OTHER'] } },
+      { name: 'platform', in: 'query', schema: { type: 'string' }, example: 'Netflix' },
+      { name: 'platforms', in: 'query', schema: { type: 'string' }, example: 'Netflix,Amazon Prime' },
+    ],
+    responses: {
+      200: {
+        description: 'Recommendations, best first',
+        content: {
+          'application/json': {
+            schema: resolver(recommendationListResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('query', getRecommendationsQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.valid('query');
+    const result = await recommendationService.recommendForUser(sessionUser.id, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /me/saved-searches - List the saved searches of the authenticated user
+userRoutes.get(
+  '/me/saved-searches',
+  describeRoute({
+    tags: ['Users'],
+    description: 'List the saved media searches of the authenticated user, ordered by name',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20 },
+    ],
+    responses: {
+      200: {
+        description: 'Saved searches',
+        content: {
+          'application/json': {
+            schema: resolver(savedSearchListResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  validator('query', getSavedSearchesQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const query = c.req.valid('query');
+    const result = await savedSearchService.listSavedSearches(sessionUser.id, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// POST /me/saved-searches - Save a media listing query under a name
+userRoutes.post(
+  '/me/saved-searches',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Save a media listing query, with the filters and sort accepted by GET /api/media, under a name unique to the user',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      201: {
+        description: 'Saved search created',
+        content: {
+          'application/json': {
+            schema: resolver(savedSearchResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or filter' },
+      401: { description: 'Unauthorized' },
+      409: { description: 'A saved search with this name already exists' },
+    },
+  }),
+  validator('json', createSavedSearchSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const data = c.req.valid('json');
+    const savedSearch = await savedSearchService.createSavedSearch(sessionUser.id, data);
+    return c.json(savedSearch, 201);
+  }
+);
+
+
+// GET /me/saved-searches/:savedSearchId - Get a saved search
+userRoutes.get(
+  '/me/saved-searches/:savedSearchId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Get a saved search of the authenticated user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'savedSearchId', in: 'path', required: true, schema: { type: 'string' }, example: 'search_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Saved search',
+        content: {
+          'application/json': {
+            schema: resolver(savedSearchResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Saved search not found' },
+    },
+  }),
+  validator('param', savedSearchIdParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { savedSearchId } = c.req.valid('param');
+    const savedSearch = await savedSearchService.getSavedSearch(sessionUser.id, savedSearchId);
+    return c.json(savedSearch, 200);
+  }
+);
+
+
+// PATCH /me/saved-searches/:savedSearchId - Rename a saved search or replace its query
+userRoutes.patch(
+  '/me/saved-searches/:savedSearchId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Rename a saved search and/or replace its query',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'savedSearchId', in: 'path', required: true, schema: { type: 'string' }, example: 'search_123' },
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'Saved search updated',
+        content: {
+          'application/json': {
+            schema: resolver(savedSearchResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload or filter' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Saved search not found' },
+      409: { description: 'Another saved search has this name' },
+    },
+  }),
+  validator('param', savedSearchIdParamSchema),
+  validator('json', updateSavedSearchSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { savedSearchId } = c.req.valid('param');
+    const data = c.req.valid('json');
+    const savedSearch = await savedSearchService.updateSavedSearch(sessionUser.id, savedSearchId, data);
+    return c.json(savedSearch, 200);
+  }
+);
+
+
+// DELETE /me/saved-searches/:savedSearchId - Delete a saved search
+userRoutes.delete(
+  '/me/saved-searches/:savedSearchId',
+  describeRoute({
+    tags: ['Users'],
+    description: 'Delete a saved search of the authenticated user',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'savedSearchId', in: 'path', required: true, schema: { type: 'string' }, example: 'search_123' },
+    ],
+    responses: {
+      200: {
+        description: 'Saved search deleted',
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { message: { type: 'string' } } },
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Saved search not found' },
+    },
+  }),
+  validator('param', savedSearchIdParamSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { savedSearchId } = c.req.valid('param');
+    await savedSearchService.deleteSavedSearch(sessionUser.id, savedSearchId);
+    return c.json({ message: 'Saved search deleted' }, 200);
+  }
+);
+
+
+// GET /me/saved-searches/:savedSearchId/media - Run a saved search
+userRoutes.get(
+  '/me/saved-searches/:savedSearchId/media',
+  describeRoute({
+    tags: ['Users'],
+    description: 'List the media matching a saved search, as GET /api/media would with the saved query. The pagination links point to GET /api/media.',
+    security: [{ bearerAuth: [] }],
+    parameters: [
+      { name: 'savedSearchId', in: 'path', required: true, schema: { type: 'string' }, example: 'search_123' },
+      { name: 'page', in: 'query', schema: { type: 'number' }, example: 1 },
+      { name: 'pageSize', in: 'query', schema: { type: 'number' }, example: 20, description: 'Defaults to the saved page size' },
+      { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Opaque signed cursor from the `cursor` field or the next/prev links of a previous page, valid for the same sort and order (use instead of page)' },
+    ],
+    responses: {
+      200: {
+        description: 'Matching media',
+        content: {
+          'application/json': {
+            schema: resolver(mediaListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid saved filter or cursor' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Saved search not found' },
+    },
+  }),
+  validator('param', savedSearchIdParamSchema),
+  validator('query', runSavedSearchQuerySchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { savedSearchId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const result = await savedSearchService.runSavedSearch(sessionUser.id, savedSearchId, query);
+    return c.json(result, 200);
+  }
+);
+
+
+// GET /me/platforms - Platforms the user subscribes to
+userRoutes.get(
+  '/me/platforms',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'List the platforms the authenticated user subscribes to, used by GET /api/media?availableToMe=true',
+    security: [{ bearerAuth: [] }],
+    responses: {
+      200: {
+        description: 'Subscriptions',
+        content: {
+          'application/json': {
+            schema: resolver(subscriptionListResponseSchema),
+          },
+        },
+      },
+      401: { description: 'Unauthorized' },
+    },
+  }),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const data = await platformService.listSubscriptions(sessionUser.id);
+    return c.json({ data }, 200);
+  }
+);
+
+
+// PUT /me/platforms - Replace the platforms the user subscribes to
+userRoutes.put(
+  '/me/platforms',
+  describeRoute({
+    tags: ['Platforms'],
+    description: 'Replace the platforms the authenticated user subscribes to, each with the country of the subscription. An empty list removes every subscription.',
+    security: [{ bearerAuth: [] }],
+    requestBody: {
+      required: true,
+      content: {
+        'application/json': {},
+      },
+    },
+    responses: {
+      200: {
+        description: 'New subscriptions',
+        content: {
+          'application/json': {
+            schema: resolver(subscriptionListResponseSchema),
+          },
+        },
+      },
+      400: { description: 'Invalid payload' },
+      401: { description: 'Unauthorized' },
+      404: { description: 'Platform not found' },
+    },
+  }),
+  validator('json', setSubscriptionsSchema),
+  async (c) => {
+    const sessionUser = c.get('user');
+    if (!sessionUser) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { platforms } = c.req.valid('json');
+    const data = await platformService.setSubscriptions(sessionUser.id, platforms);
+    return c.json({ data }, 200);
+  }
+);
+
+
 // GET /:userId - Get a public user profile by user ID
 userRoutes.get(
   '/:userId',
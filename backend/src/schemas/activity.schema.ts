@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ActivityAction, ActivityTarget } from '@/generated/prisma/client';
+import { memberUserSchema } from '@/schemas/member.schema';
+
+export const getActivityQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  cursor: z.string().optional().meta( {description: 'Cursor of a previous page, switching to keyset pagination', example: 'eyJzb3J0IjoiY3JlYXRlZEF0Ii...'} ),
+});
+
+export const activityResponseSchema = z.object({
+  id: z.uuid(),
+  action: z.enum(ActivityAction).meta( {example: ActivityAction.ITEM_UPDATED} ),
+  targetType: z.enum(ActivityTarget).meta( {example: ActivityTarget.MEDIA} ),
+  targetId: z.string().meta( {description: 'The collection, media or member user, which may have been deleted since', example: 'media_123'} ),
+  targetLabel: z.string().meta( {description: 'Name, title or username of the target at the time of the change', example: 'Inception'} ),
+  changes: z.record(z.string(), z.object({
+    before: z.unknown(),
+    after: z.unknown(),
+  })).nullable().meta( {description: 'Changed fields with their value before and after, null for additions, removals and deletions', example: {position: {before: 4, after: 1}, priority: {before: 'NORMAL', after: 'HIGH'}}} ),
+  requestId: z.string().nullable().meta( {description: 'ID of the request that made the change (X-Request-Id)', example: '0b7e6c7e-2c55-4a6e-9d4f-3c1b8f0d2a11'} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  collectionId: z.string().meta( {example: 'col_123'} ),
+  collection: z.object({
+    id: z.string().meta( {example: 'col_123'} ),
+    name: z.string().meta( {example: 'Sci-Fi Classics'} ),
+  }),
+  actorId: z.string().nullable().meta( {example: 'user_123'} ),
+  actor: memberUserSchema.nullable().meta( {description: 'Who made the change, null when made outside of a request or by a deleted user'} ),
+});
+
+export const activityListResponseSchema = z.object({
+  data: z.array(activityResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 57} ),
+  pages: z.number().meta( {example: 3} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/collections/col_123/activity?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: '/api/collections/col_123/activity?page=2&pageSize=20'} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+  cursor: z.string().nullable().optional().meta( {description: 'Opaque cursor of the next page, null on the last page', example: 'eyJzb3J0IjoiY3JlYXRlZEF0Ii...'} ),
+});
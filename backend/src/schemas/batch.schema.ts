@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { createMediaSchema, updateMediaSchema } from '@/schemas/media.schema';
+import { MAX_TAG_LENGTH, tagService } from '@/services/tag.service';
+import type { BatchMode, BatchOperation } from '@/types/types';
+
+/** Maximum number of operations in a batch */
+export const MAX_BATCH_OPERATIONS = 100;
+
+const batchMediaIdSchema = z.string().min(1).meta( {example: 'media_123'} );
+
+const batchTagSchema = z.string().max(MAX_TAG_LENGTH)
+  .transform((tag) => tagService.normalize(tag))
+  .refine((tag) => tag.length > 0, { error: 'Tag cannot be blank' })
+  .meta( {description: 'Tag, normalized', example: 'sci-fi'} );
+
+export const batchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create').meta( {example: 'create'} ),
+    data: createMediaSchema,
+  }),
+  z.object({
+    op: z.literal('update').meta( {example: 'update'} ),
+    mediaId: batchMediaIdSchema,
+    data: updateMediaSchema,
+  }),
+  z.object({
+    op: z.literal('delete').meta( {example: 'delete'} ),
+    mediaId: batchMediaIdSchema,
+  }),
+  z.object({
+    op: z.enum(['addTag', 'removeTag']).meta( {example: 'addTag'} ),
+    mediaId: batchMediaIdSchema,
+    tag: batchTagSchema,
+  }),
+  z.object({
+    op: z.literal('addPlatform').meta( {example: 'addPlatform'} ),
+    mediaId: batchMediaIdSchema,
+    platform: z.string().trim().min(1).max(50).meta( {example: 'Netflix'} ),
+  }),
+  z.object({
+    op: z.literal('moveToCollection').meta( {example: 'moveToCollection'} ),
+    mediaId: batchMediaIdSchema,
+    fromCollectionId: z.uuid().meta( {example: 'col_123'} ),
+    toCollectionId: z.uuid().meta( {example: 'col_456'} ),
+  }).refine((operation) => operation.fromCollectionId !== operation.toCollectionId, {
+    error: 'The source and target collections must differ',
+    path: ['toCollectionId'],
+  }),
+]) satisfies z.Schema<BatchOperation>;
+
+export const mediaBatchSchema = z.object({
+  mode: z.enum(['atomic', 'bestEffort']).optional().default('atomic').meta( {description: 'Apply every operation or none of them, or apply each operation on its own', example: 'atomic'} ),
+  operations: z.array(batchOperationSchema).min(1).max(MAX_BATCH_OPERATIONS).meta( {description: `Operations to run in order, at most ${MAX_BATCH_OPERATIONS}`, example: [
+    {op: 'addTag', mediaId: 'media_123', tag: 'sci-fi'},
+    {op: 'moveToCollection', mediaId: 'media_456', fromCollectionId: 'col_123', toCollectionId: 'col_456'},
+    {op: 'delete', mediaId: 'media_789'},
+  ]} ),
+}) satisfies z.Schema<{ mode: BatchMode; operations: BatchOperation[] }>;
+
+export const mediaBatchResponseSchema = z.object({
+  mode: z.enum(['atomic', 'bestEffort']).meta( {example: 'atomic'} ),
+  committed: z.boolean().meta( {description: 'Whether any change was saved: false when an atomic batch was rolled back', example: true} ),
+  succeeded: z.number().meta( {example: 3} ),
+  failed: z.number().meta( {example: 0} ),
+  results: z.array(z.object({
+    index: z.number().meta( {description: '0-based index of the operation in the request', example: 0} ),
+    op: z.enum(['create', 'update', 'delete', 'addTag', 'removeTag', 'addPlatform', 'moveToCollection']).meta( {example: 'addTag'} ),
+    status: z.number().meta( {description: 'HTTP status of the operation on its own; 424 for operations of a failed atomic batch that were rolled back or not run', example: 200} ),
+    mediaId: z.string().nullable().meta( {description: 'Affected media, the created or attached one for `create`', example: 'media_123'} ),
+    error: z.string().nullable().meta( {example: null} ),
+  })),
+});
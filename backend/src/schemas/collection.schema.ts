@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { type Collection, MediaType, Priority, Visibility, WatchStatus } from '@/generated/prisma/client';
+import { createMediaResponseSchema, getMediaQuerySchema, searchMatchSchema, tagsInputSchema } from '@/schemas/media.schema';
+import type { CollectionCreateData, CollectionUpdateData } from '@/types/types';
+
+export const smartCollectionRulesSchema = getMediaQuerySchema
+  .omit({ page: true, pageSize: true, cursor: true, status: true, facets: true, availableToMe: true })
+  .meta( {description: 'Media filters and sort of a smart collection, as accepted by GET /api/media', example: {type: 'FILM', tags: 'sci-fi', tagsMode: 'all', platforms: 'Netflix', minScore: 'imdb:8', sort: 'rating', order: 'desc'}} );
+
+export const createCollectionSchema = z.object({
+  name: z.string().min(1).max(200).meta( {example: 'Sci-Fi Classics'} ),
+  description: z.string().max(1000).optional().meta( {example: 'Must-watch science fiction films'} ),
+  tags: tagsInputSchema.optional().meta( {example: ['sci-fi', 'classic']} ),
+  visibility: z.enum(Visibility).optional().meta( {example: Visibility.PRIVATE} ),
+  parentId: z.uuid().optional().meta( {description: 'Create the collection as a sub-collection of this collection', example: 'col_123'} ),
+  rules: smartCollectionRulesSchema.optional(),
+}) satisfies z.Schema<CollectionCreateData>;
+
+export const updateCollectionSchema = z.object({
+  name: z.string().min(1).max(200).optional().meta( {example: 'Sci-Fi Classics'} ),
+  description: z.string().max(1000).optional().meta( {example: 'Updated description'} ),
+  tags: tagsInputSchema.optional().meta( {example: ['sci-fi', 'classic']} ),
+  visibility: z.enum(Visibility).optional().meta( {example: Visibility.PUBLIC} ),
+  rules: smartCollectionRulesSchema.nullable().optional().meta( {description: 'Rules turning a collection without items into a smart collection, null to turn it back into a regular collection'} ),
+}) satisfies z.Schema<CollectionUpdateData>;
+
+export const collectionIdParamSchema = z.object({
+  collectionId: z.string().min(1),
+});
+
+export const collectionResponseSchema = z.object({
+  id: z.uuid(),
+  name: z.string().meta( {example: 'Sci-Fi Classics'} ),
+  description: z.string().nullable().meta( {example: 'Must-watch science fiction films'} ),
+  tags: z.array(z.string()).meta( {example: ['sci-fi', 'classic']} ),
+  visibility: z.enum(Visibility).meta( {example: Visibility.PUBLIC} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)), //TODO switch to v4's z.date() when the Date cannot be represented in JSON Schema issue is resolved
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  ownerId: z.string().meta( {example: 'user_123'} ),
+  parentId: z.string().nullable().meta( {example: null} ),
+  rules: z.record(z.string(), z.any()).nullable().meta( {description: 'Rules of a smart collection, null for a regular collection', example: null} ),
+  _count: z.object({
+    media: z.number().meta( {example: 12} ),
+    members: z.number().meta( {example: 2} ),
+    children: z.number().meta( {example: 3} ),
+  }).optional(),
+}) satisfies z.Schema<Collection>;
+
+export const getCollectionsQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  tag: z.string().optional().meta( {example: 'sci-fi'} ),
+  tags: z.string().optional().meta( {example: 'sci-fi,classic'} ),
+  visibility: z.enum(Visibility).optional().meta( {example: Visibility.PUBLIC} ),
+  ownerId: z.string().optional().meta( {example: 'user_123'} ),
+  parentId: z.string().optional().meta( {description: 'Only sub-collections of this collection, or top-level collections with "root"', example: 'root'} ),
+  q: z.string().optional().meta( {description: 'Full-text search on name, tags and description', example: 'classics'} ),
+  sort: z.enum(['createdAt', 'updatedAt', 'name', 'relevance']).optional().default('createdAt').meta( {example: 'createdAt'} ),
+  order: z.enum(['asc', 'desc']).optional().default('desc').meta( {example: 'desc'} ),
+  cursor: z.string().optional(),
+});
+
+export const collectionListResponseSchema = z.object({
+  data: z.array(collectionResponseSchema.extend(searchMatchSchema.shape)),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 42} ),
+  pages: z.number().meta( {example: 3} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/collections?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: '/api/collections?page=2&pageSize=20'} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+  cursor: z.string().nullable().optional().meta( {description: 'Opaque cursor of the next page, null on the last page', example: 'eyJzb3J0IjoiY3JlYXRlZEF0Ii...'} ),
+});
+
+export const collectionMediaParamSchema = z.object({
+  collectionId: z.string().min(1),
+  collectionMediaId: z.string().min(1),
+});
+
+export const addCollectionMediaSchema = z.object({
+  mediaId: z.string().min(1).meta( {example: 'media_123'} ),
+  position: z.number().int().min(1).optional().meta( {example: 3, description: '1-based position, appended at the end when omitted'} ),
+  priority: z.enum(Priority).optional().meta( {example: Priority.HIGH, description: 'Viewing priority, NORMAL when omitted'} ),
+  dueDate: z.string().datetime().optional().meta( {example: '2026-02-01T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
+});
+
+export const updateCollectionMediaSchema = z.object({
+  position: z.number().int().min(1).optional().meta( {example: 1, description: 'Move the item to this 1-based position'} ),
+  before: z.string().min(1).optional().meta( {example: 'collection_media_456', description: 'Move the item right before this item'} ),
+  after: z.string().min(1).optional().meta( {example: 'collection_media_789', description: 'Move the item right after this item'} ),
+  priority: z.enum(Priority).optional().meta( {example: Priority.MUST} ),
+  dueDate: z.string().datetime().nullable().optional().meta( {example: '2026-02-01T00:00:00.000Z', description: 'null clears the due date'} ).transform(str => str == null ? str : new Date(str)),
+}).refine(
+  (data) => [data.position, data.before, data.after].filter((value) => value !== undefined).length <= 1,
+  { message: 'At most one of position, before or after can be provided' }
+).refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: 'At least one of position, before, after, priority or dueDate must be provided' }
+);
+
+export const getCollectionMediaQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  status: z.enum(WatchStatus).optional().meta( {example: WatchStatus.PLANNED} ),
+  recursive: z.enum(['true', 'false']).optional().default('false').transform(value => value === 'true').meta( {description: 'Include the media of readable sub-collections', example: 'true'} ),
+});
+
+export const collectionMediaResponseSchema = z.object({
+  id: z.uuid(),
+  position: z.number().meta( {example: 1} ),
+  priority: z.enum(Priority).meta( {example: Priority.NORMAL} ),
+  dueDate: z.string().datetime().nullable().meta( {example: null} ).transform(str => str ? new Date(str) : null),
+  addedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  collectionId: z.string().meta( {example: 'col_123'} ),
+  mediaId: z.string().meta( {example: 'media_123'} ),
+  media: createMediaResponseSchema.omit({ collections: true }),
+});
+
+export const collectionMediaListResponseSchema = z.object({
+  data: z.array(collectionMediaResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 12} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/collections/col_123/media?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
+
+export const moveCollectionSchema = z.object({
+  parentId: z.uuid().nullable().meta( {description: 'New parent collection, or null to make the collection top-level', example: 'col_123'} ),
+});
+
+export const getChildrenQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+});
+
+export const collectionAncestorsResponseSchema = z.object({
+  ancestors: z.array(z.object({
+    id: z.uuid(),
+    name: z.string().meta( {example: 'Marvel'} ),
+    visibility: z.enum(Visibility).meta( {example: Visibility.PUBLIC} ),
+  })).meta( {description: 'Readable ancestors, root first'} ),
+});
+
+export const getUpNextQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  type: z.enum(MediaType).optional().meta( {example: MediaType.FILM} ),
+  platform: z.string().optional().meta( {example: 'Netflix'} ),
+  platforms: z.string().optional().meta( {example: 'Netflix,Amazon Prime'} ),
+});
+
+export const upNextItemResponseSchema = collectionMediaResponseSchema.extend({
+  collection: z.object({
+    id: z.uuid(),
+    name: z.string().meta( {example: 'To Watch'} ),
+  }),
+});
+
+export const upNextListResponseSchema = z.object({
+  data: z.array(upNextItemResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 8} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/users/me/up-next?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
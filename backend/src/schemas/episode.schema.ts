@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import type { Episode, Season } from '@/generated/prisma/client';
+import type { EpisodeInput, SeasonInput } from '@/types/types';
+
+export const createEpisodeSchema = z.object({
+  number: z.number().int().min(1).meta( {example: 1} ),
+  title: z.string().trim().min(1).max(300).optional().meta( {example: 'Pilot'} ),
+  airDate: z.string().datetime().optional().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
+  runtimeMinutes: z.number().int().min(1).optional().meta( {example: 58} ),
+}) satisfies z.Schema<EpisodeInput>;
+
+export const updateEpisodeSchema = z.object({
+  number: z.number().int().min(1).optional().meta( {example: 1} ),
+  title: z.string().trim().min(1).max(300).nullable().optional().meta( {example: 'Pilot'} ),
+  airDate: z.string().datetime().nullable().optional().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str == null ? str : new Date(str)),
+  runtimeMinutes: z.number().int().min(1).nullable().optional().meta( {example: 58} ),
+}) satisfies z.Schema<Partial<EpisodeInput>>;
+
+export const createSeasonSchema = z.object({
+  number: z.number().int().min(0).meta( {description: '0 for specials', example: 1} ),
+  title: z.string().trim().min(1).max(300).optional().meta( {example: 'Season 1'} ),
+  airDate: z.string().datetime().optional().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
+  episodes: z.array(createEpisodeSchema).max(500).optional(),
+}) satisfies z.Schema<SeasonInput>;
+
+export const updateSeasonSchema = z.object({
+  number: z.number().int().min(0).optional().meta( {description: '0 for specials', example: 1} ),
+  title: z.string().trim().min(1).max(300).nullable().optional().meta( {example: 'Season 1'} ),
+  airDate: z.string().datetime().nullable().optional().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str == null ? str : new Date(str)),
+}) satisfies z.Schema<Partial<Omit<SeasonInput, 'episodes'>>>;
+
+export const seasonParamSchema = z.object({
+  mediaId: z.string().min(1),
+  seasonId: z.string().min(1),
+});
+
+export const episodeParamSchema = z.object({
+  mediaId: z.string().min(1),
+  episodeId: z.string().min(1),
+});
+
+export const markWatchedSchema = z.object({
+  includePrevious: z.boolean().optional().default(false).meta( {description: 'Also mark every earlier episode of the series as watched', example: true} ),
+  watchedAt: z.string().datetime().optional().meta( {description: 'When the episode was watched, defaults to now', example: '2026-01-01T20:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
+});
+
+export const episodeResponseSchema = z.object({
+  id: z.uuid(),
+  number: z.number().meta( {example: 1} ),
+  title: z.string().nullable().meta( {example: 'Pilot'} ),
+  airDate: z.string().datetime().nullable().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str ? new Date(str) : null),
+  runtimeMinutes: z.number().nullable().meta( {example: 58} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  seasonId: z.string().meta( {example: 'season_123'} ),
+}) satisfies z.Schema<Episode>;
+
+export const seasonResponseSchema = z.object({
+  id: z.uuid(),
+  number: z.number().meta( {example: 1} ),
+  title: z.string().nullable().meta( {example: 'Season 1'} ),
+  airDate: z.string().datetime().nullable().meta( {example: '2008-01-20T00:00:00.000Z'} ).transform(str => str ? new Date(str) : null),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  mediaId: z.string().meta( {example: 'media_123'} ),
+  episodes: z.array(episodeResponseSchema),
+}) satisfies z.Schema<Season & { episodes: Episode[] }>;
+
+export const seasonListResponseSchema = z.object({
+  data: z.array(seasonResponseSchema.extend({
+    episodes: z.array(episodeResponseSchema.extend({
+      watchedAt: z.string().datetime().nullable().meta( {description: 'When the user watched the episode, null when not watched or anonymous', example: null} ).transform(str => str ? new Date(str) : null),
+    })),
+  })),
+});
+
+const progressEpisodeSchema = episodeResponseSchema.extend({
+  seasonNumber: z.number().meta( {example: 1} ),
+});
+
+export const seriesProgressSchema = z.object({
+  watchedEpisodes: z.number().meta( {example: 3} ),
+  totalEpisodes: z.number().meta( {example: 7} ),
+  percent: z.number().meta( {example: 42} ),
+  lastWatched: progressEpisodeSchema.nullable().meta( {description: 'Furthest watched episode'} ),
+  nextEpisode: progressEpisodeSchema.nullable().meta( {description: 'First unwatched episode after the furthest watched one, null when every episode is watched'} ),
+});
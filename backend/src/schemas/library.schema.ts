@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { MediaType, WatchStatus } from '@/generated/prisma/client';
+import { createMediaResponseSchema } from '@/schemas/media.schema';
+
+export const upsertLibraryEntrySchema = z.object({
+  status: z.enum(WatchStatus).optional().meta( {example: WatchStatus.IN_PROGRESS} ),
+  season: z.number().int().min(1).nullable().optional().meta( {description: 'SERIES only', example: 2} ),
+  episode: z.number().int().min(1).nullable().optional().meta( {description: 'SERIES only', example: 5} ),
+  page: z.number().int().min(1).nullable().optional().meta( {description: 'BOOK and ARTICLE only', example: 120} ),
+  percent: z.number().int().min(0).max(100).nullable().optional().meta( {description: 'BOOK, ARTICLE and OTHER only', example: 40} ),
+  timestampSeconds: z.number().int().min(0).nullable().optional().meta( {description: 'FILM only, playback position in seconds', example: 3600} ),
+  startedAt: z.string().datetime().nullable().optional().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => str == null ? str : new Date(str)),
+  finishedAt: z.string().datetime().nullable().optional().meta( {example: '2026-01-15T00:00:00.000Z'} ).transform(str => str == null ? str : new Date(str)),
+  rewatchCount: z.number().int().min(0).optional().meta( {example: 1} ),
+});
+
+export const libraryMediaParamSchema = z.object({
+  mediaId: z.string().min(1),
+});
+
+export const getLibraryQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  status: z.enum(WatchStatus).optional().meta( {example: WatchStatus.IN_PROGRESS} ),
+  type: z.enum(MediaType).optional().meta( {example: MediaType.SERIES} ),
+  sort: z.enum(['updatedAt', 'startedAt', 'finishedAt']).optional().default('updatedAt').meta( {example: 'updatedAt'} ),
+  order: z.enum(['asc', 'desc']).optional().default('desc').meta( {example: 'desc'} ),
+});
+
+export const libraryEntryResponseSchema = z.object({
+  id: z.uuid(),
+  status: z.enum(WatchStatus).meta( {example: WatchStatus.IN_PROGRESS} ),
+  season: z.number().nullable().meta( {example: 2} ),
+  episode: z.number().nullable().meta( {example: 5} ),
+  page: z.number().nullable().meta( {example: null} ),
+  percent: z.number().nullable().meta( {example: null} ),
+  timestampSeconds: z.number().nullable().meta( {example: null} ),
+  startedAt: z.string().datetime().nullable().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => str ? new Date(str) : null),
+  finishedAt: z.string().datetime().nullable().meta( {example: null} ).transform(str => str ? new Date(str) : null),
+  rewatchCount: z.number().meta( {example: 0} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  userId: z.string(),
+  mediaId: z.uuid(),
+  media: createMediaResponseSchema.omit({ collections: true }),
+});
+
+export const libraryListResponseSchema = z.object({
+  data: z.array(libraryEntryResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 42} ),
+  pages: z.number().meta( {example: 3} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/users/me/library?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: '/api/users/me/library?page=2&pageSize=20'} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
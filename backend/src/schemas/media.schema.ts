@@ -1,17 +1,147 @@
 import { z } from 'zod';
-import { type Prisma, type Media, MediaType } from '@/generated/prisma/client';
+import { type Media, MediaType, WatchStatus } from '@/generated/prisma/client';
+import { seriesProgressSchema } from '@/schemas/episode.schema';
+import { regionSchema } from '@/schemas/platform.schema';
+import { ratingAggregateSchema } from '@/schemas/review.schema';
+import { CONTRIBUTOR_ROLES, detailsService } from '@/services/details.service';
+import { MEDIA_FACETS } from '@/services/facet.service';
+import { MAX_EXPRESSION_LENGTH, MAX_REGEX_LENGTH } from '@/services/filter.service';
+import { SCORE_PROVIDERS, SCORE_PROVIDER_SCALES, type ScoreProvider } from '@/services/score.service';
+import { MAX_TAG_LENGTH, tagService } from '@/services/tag.service';
+import type { ArticleDetails, BookDetails, ExternalIds, FilmDetails, MediaCreateData, MediaUpdateData, OnDuplicate } from '@/types/types';
 
-export const createMediaSchema = z.object({
+export const externalIdsSchema = z.record(
+  z.string().min(1).max(50).regex(/^[a-z0-9_-]+$/),
+  z.string().min(1).max(100)
+).meta( {description: 'Identifiers of the media in external databases, keyed by provider', example: {imdb: 'tt1375666', tmdb: '27205'}} );
+
+/**
+ * Tags as entered, normalized (trimmed, case-folded, aliases replaced) and deduplicated
+ */
+export const tagsInputSchema = z.array(z.string().max(MAX_TAG_LENGTH)).transform((tags) => tagService.normalizeAll(tags));
+
+export const externalScoreInputSchema = z.object({
+  value: z.number().min(0).meta( {description: 'Score on the provider scale', example: 8.8} ),
+  scale: z.number().positive().optional().meta( {description: 'Maximum score, defaults to the provider scale', example: 10} ),
+  votes: z.number().int().min(0).optional().meta( {example: 2500000} ),
+  fetchedAt: z.string().datetime().optional().meta( {description: 'When the score was retrieved, defaults to now', example: '2026-01-01T00:00:00.000Z'} ),
+});
+
+/**
+ * Reject scores above their scale (the provider's usual scale when none is given)
+ */
+const refineScoreScales = (
+  scores: Partial<Record<ScoreProvider, z.infer<typeof externalScoreInputSchema> | null>>,
+  ctx: z.RefinementCtx
+) => {
+  for (const [provider, score] of Object.entries(scores)) {
+    const scale = score?.scale ?? SCORE_PROVIDER_SCALES[provider as ScoreProvider];
+    if (score && score.value > scale) {
+      ctx.addIssue({ code: 'custom', message: `Score must be between 0 and ${scale}`, path: [provider, 'value'] });
+    }
+  }
+};
+
+export const externalScoresInputSchema = z.partialRecord(
+  z.enum(SCORE_PROVIDERS),
+  externalScoreInputSchema
+).superRefine(refineScoreScales).meta( {description: 'Scores from external sources, keyed by provider', example: {imdb: {value: 8.8, votes: 2500000}, metacritic: {value: 74}}} );
+
+export const externalScoresSchema = z.record(z.string(), z.object({
+  value: z.number().meta( {example: 8.8} ),
+  scale: z.number().meta( {example: 10} ),
+  votes: z.number().nullable().meta( {example: 2500000} ),
+  fetchedAt: z.string().meta( {example: '2026-01-01T00:00:00.000Z'} ),
+  normalized: z.number().meta( {description: 'Score on a 0-100 scale', example: 88} ),
+})).meta( {example: {imdb: {value: 8.8, scale: 10, votes: 2500000, fetchedAt: '2026-01-01T00:00:00.000Z', normalized: 88}}} );
+
+/**
+ * ISBN-10 or ISBN-13 with a valid checksum, stored without separators
+ */
+export const isbnSchema = z.string().transform((value, ctx) => {
+  const isbn = detailsService.normalizeIsbn(value);
+  if (!isbn) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid ISBN-10 or ISBN-13' });
+    return z.NEVER;
+  }
+  return isbn;
+});
+
+/**
+ * DOI, bare or as a `doi:` or `https://doi.org/` link, stored bare
+ */
+export const doiSchema = z.string().transform((value, ctx) => {
+  const doi = detailsService.normalizeDoi(value);
+  if (!doi) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid DOI' });
+    return z.NEVER;
+  }
+  return doi;
+});
+
+export const bookDetailsSchema = z.object({
+  isbn: isbnSchema.optional().meta( {description: 'ISBN-10 or ISBN-13, checksum validated', example: '978-0-547-92822-7'} ),
+  publisher: z.string().trim().min(1).max(200).optional().meta( {example: 'Houghton Mifflin Harcourt'} ),
+  pageCount: z.number().int().min(1).optional().meta( {example: 300} ),
+  edition: z.string().trim().min(1).max(100).optional().meta( {example: '75th anniversary edition'} ),
+  contributors: z.array(z.object({
+    name: z.string().trim().min(1).max(200).meta( {example: 'J.R.R. Tolkien'} ),
+    role: z.enum(CONTRIBUTOR_ROLES).meta( {example: 'author'} ),
+  })).max(50).optional(),
+}) satisfies z.Schema<BookDetails>;
+
+export const articleDetailsSchema = z.object({
+  doi: doiSchema.optional().meta( {example: '10.1038/nphys1170'} ),
+  publication: z.string().trim().min(1).max(200).optional().meta( {description: 'Journal, magazine or website', example: 'Nature Physics'} ),
+  readingTimeMinutes: z.number().int().min(1).optional().meta( {example: 12} ),
+  canonicalUrl: z.url().optional().meta( {example: 'https://www.nature.com/articles/nphys1170'} ),
+}) satisfies z.Schema<ArticleDetails>;
+
+export const filmDetailsSchema = z.object({
+  runtimeMinutes: z.number().int().min(1).optional().meta( {example: 148} ),
+  cast: z.array(z.string().trim().min(1).max(200)).max(100).optional().meta( {example: ['Leonardo DiCaprio', 'Elliot Page']} ),
+  country: regionSchema.optional().meta( {description: 'ISO 3166-1 alpha-2 country of production', example: 'US'} ),
+}) satisfies z.Schema<FilmDetails>;
+
+/** Types without details, which reject a `details` field */
+const noDetailsSchema = z.never({ error: 'Only BOOK, ARTICLE and FILM media have details' }).optional();
+
+const createMediaFieldsSchema = z.object({
   collectionId: z.uuid().optional().meta( {example: 'col_123'} ),
   title: z.string().min(1).max(300).meta( {example: 'Inception'} ),
   description: z.string().max(1000).optional().meta( {example: 'A thief who steals corporate secrets through dream-sharing technology'} ),
   url: z.url().optional().meta( {example: 'https://example.com/inception'} ),
-  tags: z.array(z.string().min(0).max(50)).optional().meta( {example: ['sci-fi', 'thriller']} ),
-  platforms: z.array(z.string().min(0).max(50)).optional().meta( {example: ['Netflix', 'Amazon Prime']} ),
-  type: z.enum(MediaType).meta( {example: MediaType.FILM} ),
+  coverUrl: z.url().optional().meta( {example: 'https://image.tmdb.org/t/p/w500/inception.jpg'} ),
+  tags: tagsInputSchema.optional().meta( {example: ['sci-fi', 'thriller']} ),
+  platforms: z.array(z.string().min(0).max(50)).optional().meta( {description: 'Names of registered platforms, matched ignoring case', example: ['Netflix', 'Amazon Prime']} ),
   releaseDate: z.string().datetime().optional().meta( {example: '2010-07-16T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
   directorAuthor: z.string().max(200).optional().meta( {example: 'Christopher Nolan'} ),
-}) satisfies z.Schema<Prisma.MediaCreateInput & { collectionId?: string }>;
+  externalIds: externalIdsSchema.optional(),
+  scores: externalScoresInputSchema.optional(),
+  onDuplicate: z.enum(['reject', 'attach', 'create']).optional().default('reject').meta( {description: 'What to do when the catalog already holds this media: reject with the candidates, attach the existing entry to the collection, or create a new entry anyway', example: 'reject'} ),
+});
+
+/**
+ * Media to create, `details` being validated against the schema of the media type
+ */
+export const createMediaSchema = z.discriminatedUnion('type', [
+  createMediaFieldsSchema.extend({
+    type: z.literal(MediaType.BOOK).meta( {example: MediaType.BOOK} ),
+    details: bookDetailsSchema.optional(),
+  }),
+  createMediaFieldsSchema.extend({
+    type: z.literal(MediaType.ARTICLE).meta( {example: MediaType.ARTICLE} ),
+    details: articleDetailsSchema.optional(),
+  }),
+  createMediaFieldsSchema.extend({
+    type: z.literal(MediaType.FILM).meta( {example: MediaType.FILM} ),
+    details: filmDetailsSchema.optional(),
+  }),
+  createMediaFieldsSchema.extend({
+    type: z.enum([MediaType.SERIES, MediaType.OTHER]).meta( {example: MediaType.SERIES} ),
+    details: noDetailsSchema,
+  }),
+]) satisfies z.Schema<MediaCreateData & { collectionId?: string; externalIds?: ExternalIds; onDuplicate: OnDuplicate }>;
 
 export const createMediaResponseSchema = z.object({
   id: z.uuid(),
@@ -23,22 +153,61 @@ export const createMediaResponseSchema = z.object({
   tags: z.array(z.string()).meta( {example: ['sci-fi', 'thriller']} ),
   platforms: z.array(z.string()).meta( {example: ['Netflix', 'Amazon Prime']} ),
   url: z.string().nullable().meta( {example: 'https://example.com/inception'} ),
-  scores: z.any().nullable(),
+  coverUrl: z.string().nullable().meta( {example: 'https://image.tmdb.org/t/p/w500/inception.jpg'} ),
+  scores: externalScoresSchema.nullable(),
+  details: z.union([bookDetailsSchema, articleDetailsSchema, filmDetailsSchema]).nullable().meta( {description: 'Type-specific metadata of BOOK, ARTICLE and FILM media', example: {runtimeMinutes: 148, cast: ['Leonardo DiCaprio'], country: 'US'}} ),
+  ratingAverage: z.number().nullable().meta( {description: 'Average user rating', example: 8.25} ),
+  ratingCount: z.number().meta( {example: 4} ),
+  externalIds: z.record(z.string(), z.string()).nullable().meta( {example: {imdb: 'tt1375666'}} ),
+  catalogKey: z.string().nullable().meta( {example: 'FILM|inception|2010|christopher nolan'} ),
   createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)), //TODO switch to v4's z.date() when the Date cannot be represented in JSON Schema issue is resolved
   updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
   collections: z.array(z.any()),
 }) satisfies z.Schema<Media>;
 
-export const updateMediaSchema = z.object({
+const updateMediaFieldsSchema = z.object({
   title: z.string().min(1).max(300).optional().meta( {example: 'Inception'} ),
   description: z.string().max(1000).optional().meta( {example: 'Updated description'} ),
   url: z.url().optional().meta( {example: 'https://example.com/inception'} ),
-  tags: z.array(z.string().min(0).max(50)).optional().meta( {example: ['sci-fi', 'thriller']} ),
-  platforms: z.array(z.string().min(0).max(50)).optional().meta( {example: ['Netflix', 'Amazon Prime']} ),
-  type: z.enum(MediaType).optional().meta( {example: MediaType.FILM} ),
+  coverUrl: z.url().optional().meta( {example: 'https://image.tmdb.org/t/p/w500/inception.jpg'} ),
+  tags: tagsInputSchema.optional().meta( {example: ['sci-fi', 'thriller']} ),
+  platforms: z.array(z.string().min(0).max(50)).optional().meta( {description: 'Names of registered platforms, matched ignoring case', example: ['Netflix', 'Amazon Prime']} ),
   releaseDate: z.string().datetime().optional().meta( {example: '2010-07-16T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
   directorAuthor: z.string().max(200).optional().meta( {example: 'Christopher Nolan'} ),
-}) satisfies z.Schema<Prisma.MediaUpdateInput>;
+  externalIds: externalIdsSchema.optional(),
+  scores: z.partialRecord(z.enum(SCORE_PROVIDERS), externalScoreInputSchema.nullable()).superRefine(refineScoreScales).optional().meta( {description: 'Scores to set, keyed by provider; null removes the score of a provider', example: {imdb: {value: 8.9}, metacritic: null}} ),
+});
+
+/**
+ * Media fields to update. `details` replace the stored details as a whole and are validated against
+ * the schema of `type`, which is required with them; null removes them.
+ */
+export const updateMediaSchema = z.union([z.discriminatedUnion('type', [
+  updateMediaFieldsSchema.extend({
+    type: z.literal(MediaType.BOOK).meta( {example: MediaType.BOOK} ),
+    details: bookDetailsSchema.nullable().optional(),
+  }),
+  updateMediaFieldsSchema.extend({
+    type: z.literal(MediaType.ARTICLE).meta( {example: MediaType.ARTICLE} ),
+    details: articleDetailsSchema.nullable().optional(),
+  }),
+  updateMediaFieldsSchema.extend({
+    type: z.literal(MediaType.FILM).meta( {example: MediaType.FILM} ),
+    details: filmDetailsSchema.nullable().optional(),
+  }),
+  updateMediaFieldsSchema.extend({
+    type: z.enum([MediaType.SERIES, MediaType.OTHER]).meta( {example: MediaType.SERIES} ),
+    details: noDetailsSchema,
+  }),
+]), updateMediaFieldsSchema.extend({
+  type: z.never().optional(),
+  details: z.never({ error: '`type` is required to update details' }).optional(),
+})]) satisfies z.Schema<MediaUpdateData>;
+
+export const mediaDetailResponseSchema = createMediaResponseSchema.extend({
+  ratings: ratingAggregateSchema,
+  progress: seriesProgressSchema.nullable().meta( {description: 'Progress of the user in a SERIES from their watched episodes, null for other media, series without episodes or anonymous users'} ),
+});
 
 export const mediaIdParamSchema = z.object({
   mediaId: z.string().min(1),
@@ -50,16 +219,41 @@ export const getMediaQuerySchema = z.object({
   type: z.enum(MediaType).optional().meta( {example: MediaType.FILM} ),
   tag: z.string().optional().meta( {example: 'sci-fi'} ),
   tags: z.string().optional().meta( {example: 'sci-fi,thriller'} ),
+  tagsMode: z.enum(['any', 'all', 'none']).optional().meta( {description: 'Media with any, all or none of the tags', example: 'all'} ),
   platform: z.string().optional().meta( {example: 'Netflix'} ),
   platforms: z.string().optional().meta( {example: 'Netflix,Amazon Prime'} ),
-  q: z.string().optional().meta( {example: 'inception'} ),
-  sort: z.enum(['createdAt', 'title', 'releaseDate']).optional().default('createdAt').meta( {example: 'createdAt'} ),
+  q: z.string().optional().meta( {description: 'Full-text search on title, director/author, tags and description', example: 'inception'} ),
+  minScore: z.string().regex(/^[a-zA-Z]+:\d+(\.\d+)?(,[a-zA-Z]+:\d+(\.\d+)?)*$/).optional().meta( {description: 'Minimum external scores on the provider scale, comma-separated', example: 'imdb:8,metacritic:70'} ),
+  status: z.enum(WatchStatus).optional().meta( {example: WatchStatus.COMPLETED} ),
+  availableToMe: z.enum(['true', 'false']).optional().transform(value => value === undefined ? undefined : value === 'true').meta( {description: 'Only media the user can watch on the platforms they subscribe to', example: 'true'} ),
+  titleRegex: z.string().min(1).max(MAX_REGEX_LENGTH).optional().meta( {description: 'Case-insensitive regular expression on the title', example: '^the (dark|last) '} ),
+  directorAuthor: z.string().optional().meta( {description: 'Part of the director or author name, case-insensitive', example: 'nolan'} ),
+  releasedFrom: z.iso.date().optional().meta( {example: '2010-01-01'} ),
+  releasedTo: z.iso.date().optional().meta( {example: '2019-12-31'} ),
+  createdFrom: z.iso.date().optional().meta( {example: '2024-01-01'} ),
+  createdTo: z.iso.date().optional().meta( {example: '2024-12-31'} ),
+  filter: z.string().max(MAX_EXPRESSION_LENGTH).optional().meta( {description: 'Filter expression, terms separated by spaces, `-` to exclude', example: 'type:FILM tag:sci-fi year:>=2010 -tag:horror'} ),
+  sort: z.enum(['createdAt', 'title', 'releaseDate', 'rating', 'relevance']).optional().default('createdAt').meta( {example: 'createdAt'} ),
   order: z.enum(['asc', 'desc']).optional().default('desc').meta( {example: 'desc'} ),
   cursor: z.string().optional(),
+  facets: z.string().regex(new RegExp(`^(${MEDIA_FACETS.join('|')})(,(${MEDIA_FACETS.join('|')}))*$`)).optional().meta( {description: `Comma-separated facets to count over the whole listing, among ${MEDIA_FACETS.join(', ')}`, example: 'type,platforms'} ),
+});
+
+export const searchMatchSchema = z.object({
+  relevance: z.number().optional().meta( {description: 'Relevance of the match, only with q', example: 0.8421} ),
+  highlights: z.object({
+    title: z.string().meta( {example: '<mark>Incep</mark>tion'} ),
+    snippet: z.string().nullable().meta( {example: 'A thief who steals corporate secrets through <mark>dream</mark>-sharing technology'} ),
+  }).optional(),
+});
+
+export const facetCountSchema = z.object({
+  value: z.string().meta( {example: 'Netflix'} ),
+  count: z.number().meta( {example: 42} ),
 });
 
 export const mediaListResponseSchema = z.object({
-  data: z.array(createMediaResponseSchema),
+  data: z.array(createMediaResponseSchema.extend(searchMatchSchema.shape)),
   page: z.number().meta( {example: 1} ),
   pageSize: z.number().meta( {example: 20} ),
   total: z.number().meta( {example: 124} ),
@@ -69,6 +263,30 @@ export const mediaListResponseSchema = z.object({
     next: z.string().nullable().meta( {example: '/api/media?page=2&pageSize=20'} ),
     prev: z.string().nullable().meta( {example: null} ),
   }),
-  cursor: z.string().nullable().optional().meta( {example: 'uuid-of-last-item'} ),
+  cursor: z.string().nullable().optional().meta( {description: 'Opaque cursor of the next page, null on the last page', example: 'eyJzb3J0IjoiY3JlYXRlZEF0Ii...'} ),
+  facets: z.partialRecord(z.enum(MEDIA_FACETS), z.array(facetCountSchema)).optional().meta( {description: 'Counts of the whole listing by facet value, only with facets', example: {platforms: [{value: 'Netflix', count: 42}, {value: 'Amazon Prime', count: 17}]}} ),
 });
 
+
+export const findDuplicatesSchema = z.object({
+  title: z.string().min(1).max(300).meta( {example: 'Inception'} ),
+  type: z.enum(MediaType).meta( {example: MediaType.FILM} ),
+  releaseDate: z.string().datetime().optional().meta( {example: '2010-07-16T00:00:00.000Z'} ).transform(str => str ? new Date(str) : undefined),
+  directorAuthor: z.string().max(200).optional().meta( {example: 'Christopher Nolan'} ),
+  externalIds: externalIdsSchema.optional(),
+});
+
+export const duplicateCandidatesResponseSchema = z.object({
+  candidates: z.array(z.object({
+    media: createMediaResponseSchema.omit({ collections: true }),
+    match: z.enum(['externalId', 'catalogKey', 'title']).meta( {example: 'catalogKey'} ),
+  })),
+});
+
+export const duplicateConflictResponseSchema = duplicateCandidatesResponseSchema.extend({
+  error: z.string().meta( {example: 'Media already exists in the catalog'} ),
+});
+
+export const mergeMediaSchema = z.object({
+  duplicateIds: z.array(z.string().min(1)).min(1).max(50).meta( {example: ['media_456', 'media_789']} ),
+});
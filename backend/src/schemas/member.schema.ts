@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { CollectionRole, Visibility } from '@/generated/prisma/client';
+
+const assignableRoles = [CollectionRole.COLLABORATOR, CollectionRole.READER] as const;
+
+export const inviteMemberSchema = z.object({
+  username: z.string().min(2).max(40).optional().meta( {example: 'jane_smith'} ),
+  email: z.email().optional().meta( {example: 'jane@example.com'} ),
+  role: z.enum(assignableRoles).optional().default(CollectionRole.READER).meta( {example: CollectionRole.COLLABORATOR} ),
+}).refine(
+  (data) => (data.username === undefined) !== (data.email === undefined),
+  { message: 'Exactly one of username or email must be provided' }
+);
+
+export const updateMemberSchema = z.object({
+  role: z.enum(assignableRoles).meta( {example: CollectionRole.READER} ),
+});
+
+export const transferOwnershipSchema = z.object({
+  memberId: z.string().min(1).meta( {example: 'member_123', description: 'Accepted member that becomes the new owner'} ),
+});
+
+export const memberParamSchema = z.object({
+  collectionId: z.string().min(1),
+  memberId: z.string().min(1),
+});
+
+export const invitationParamSchema = z.object({
+  invitationId: z.string().min(1),
+});
+
+export const getMembersQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+});
+
+export const memberUserSchema = z.object({
+  id: z.string().meta( {example: 'user_123'} ),
+  name: z.string().meta( {example: 'Jane Smith'} ),
+  username: z.string().nullable().meta( {example: 'jane_smith'} ),
+  displayUsername: z.string().nullable().meta( {example: 'Jane Smith'} ),
+  image: z.string().nullable().meta( {example: 'https://example.com/avatar.png'} ),
+});
+
+export const memberResponseSchema = z.object({
+  id: z.uuid(),
+  role: z.enum(CollectionRole).meta( {example: CollectionRole.COLLABORATOR} ),
+  invitedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  accepted: z.boolean().meta( {example: true} ),
+  collectionId: z.string().meta( {example: 'col_123'} ),
+  userId: z.string().meta( {example: 'user_123'} ),
+  user: memberUserSchema,
+});
+
+export const memberListResponseSchema = z.object({
+  data: z.array(memberResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 3} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/collections/col_123/members?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
+
+export const invitationsResponseSchema = z.object({
+  invitations: z.array(z.object({
+    id: z.uuid(),
+    role: z.enum(CollectionRole).meta( {example: CollectionRole.READER} ),
+    invitedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+    collection: z.object({
+      id: z.string().meta( {example: 'col_123'} ),
+      name: z.string().meta( {example: 'Sci-Fi Classics'} ),
+      visibility: z.enum(Visibility).meta( {example: Visibility.PRIVATE} ),
+      owner: memberUserSchema,
+    }),
+  })),
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { MediaType } from '@/generated/prisma/client';
+
+export const METADATA_PROVIDER_NAMES = ['tmdb', 'omdb', 'openlibrary', 'fake'] as const;
+
+export const lookupQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).meta( {description: 'Searched title', example: 'inception'} ),
+  type: z.enum(MediaType).optional().meta( {example: MediaType.FILM} ),
+  provider: z.enum(METADATA_PROVIDER_NAMES).optional().meta( {description: 'Search a single provider instead of every enabled one', example: 'tmdb'} ),
+});
+
+export const importMediaSchema = z.object({
+  provider: z.enum(METADATA_PROVIDER_NAMES).meta( {example: 'tmdb'} ),
+  externalId: z.string().min(1).max(100).meta( {description: 'ID of the title on the provider, as returned by the lookup', example: 'movie/27205'} ),
+  collectionId: z.uuid().optional().meta( {example: 'col_123'} ),
+  platforms: z.array(z.string().min(0).max(50)).optional().meta( {example: ['Netflix']} ),
+  onDuplicate: z.enum(['reject', 'attach', 'create']).optional().default('reject').meta( {description: 'What to do when the catalog already holds this media', example: 'attach'} ),
+});
+
+export const metadataSearchResultSchema = z.object({
+  provider: z.string().meta( {example: 'tmdb'} ),
+  externalId: z.string().meta( {example: 'movie/27205'} ),
+  title: z.string().meta( {example: 'Inception'} ),
+  type: z.enum(MediaType).meta( {example: MediaType.FILM} ),
+  releaseDate: z.string().nullable().meta( {example: '2010-07-16T00:00:00.000Z'} ),
+  directorAuthor: z.string().nullable().meta( {example: null} ),
+  coverUrl: z.string().nullable().meta( {example: 'https://image.tmdb.org/t/p/w500/inception.jpg'} ),
+});
+
+export const lookupResponseSchema = z.object({
+  results: z.array(metadataSearchResultSchema),
+  errors: z.array(z.object({
+    provider: z.string().meta( {example: 'omdb'} ),
+    error: z.string().meta( {example: 'Metadata provider omdb is unavailable'} ),
+  })).meta( {description: 'Providers that failed, the results of the others are still returned'} ),
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { AccessType, PlatformKind, type MediaAvailability, type Platform } from '@/generated/prisma/client';
+import type { PlatformData } from '@/types/types';
+
+/** ISO 3166-1 alpha-2 country code, case-insensitive */
+export const regionSchema = z.string().regex(/^[A-Za-z]{2}$/).toUpperCase();
+
+export const createPlatformSchema = z.object({
+  name: z.string().trim().min(1).max(100).meta( {example: 'Netflix'} ),
+  kind: z.enum(PlatformKind).meta( {example: PlatformKind.STREAMING} ),
+  region: regionSchema.optional().meta( {description: 'Country the platform operates in, omitted when international', example: 'FR'} ),
+  logoUrl: z.url().optional().meta( {example: 'https://example.com/netflix.png'} ),
+}) satisfies z.Schema<PlatformData>;
+
+export const updatePlatformSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional().meta( {example: 'Netflix'} ),
+  kind: z.enum(PlatformKind).optional().meta( {example: PlatformKind.STREAMING} ),
+  region: regionSchema.nullable().optional().meta( {description: 'Country the platform operates in, null when international', example: 'FR'} ),
+  logoUrl: z.url().nullable().optional().meta( {example: 'https://example.com/netflix.png'} ),
+}) satisfies z.Schema<Partial<PlatformData>>;
+
+export const platformIdParamSchema = z.object({
+  platformId: z.string().min(1),
+});
+
+export const getPlatformsQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  kind: z.enum(PlatformKind).optional().meta( {example: PlatformKind.STREAMING} ),
+  region: regionSchema.optional().meta( {description: 'Platforms operating in this country, international ones included', example: 'FR'} ),
+});
+
+export const platformResponseSchema = z.object({
+  id: z.uuid(),
+  name: z.string().meta( {example: 'Netflix'} ),
+  kind: z.enum(PlatformKind).meta( {example: PlatformKind.STREAMING} ),
+  region: z.string().nullable().meta( {example: null} ),
+  logoUrl: z.string().nullable().meta( {example: 'https://example.com/netflix.png'} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+}) satisfies z.Schema<Platform>;
+
+export const platformListResponseSchema = z.object({
+  data: z.array(platformResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 12} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/platforms?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
+
+export const addAvailabilitySchema = z.object({
+  platformId: z.string().min(1).meta( {example: 'platform_123'} ),
+  region: regionSchema.meta( {description: 'Country where the media is available', example: 'FR'} ),
+  accessType: z.enum(AccessType).meta( {example: AccessType.SUBSCRIPTION} ),
+  url: z.url().optional().meta( {example: 'https://www.netflix.com/title/70131314'} ),
+});
+
+export const availabilityParamSchema = z.object({
+  mediaId: z.string().min(1),
+  availabilityId: z.string().min(1),
+});
+
+export const availabilityResponseSchema = z.object({
+  id: z.uuid(),
+  region: z.string().meta( {example: 'FR'} ),
+  accessType: z.enum(AccessType).meta( {example: AccessType.SUBSCRIPTION} ),
+  url: z.string().nullable().meta( {example: 'https://www.netflix.com/title/70131314'} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  mediaId: z.string().meta( {example: 'media_123'} ),
+  platformId: z.string().meta( {example: 'platform_123'} ),
+  platform: platformResponseSchema,
+}) satisfies z.Schema<MediaAvailability>;
+
+export const availabilityListResponseSchema = z.object({
+  data: z.array(availabilityResponseSchema),
+});
+
+export const setSubscriptionsSchema = z.object({
+  platforms: z.array(z.object({
+    platformId: z.string().min(1).meta( {example: 'platform_123'} ),
+    region: regionSchema.meta( {description: 'Country of the subscription', example: 'FR'} ),
+  })).max(100),
+});
+
+export const subscriptionListResponseSchema = z.object({
+  data: z.array(z.object({
+    region: z.string().meta( {example: 'FR'} ),
+    createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+    userId: z.string().meta( {example: 'user_123'} ),
+    platformId: z.string().meta( {example: 'platform_123'} ),
+    platform: platformResponseSchema,
+  })),
+});
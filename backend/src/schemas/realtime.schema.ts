@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/** Messages clients send over the realtime socket */
+export const realtimeClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('subscribe'),
+    collectionId: z.uuid(),
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    collectionId: z.uuid(),
+  }),
+]);
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { MediaType } from '@/generated/prisma/client';
+import { createMediaResponseSchema } from '@/schemas/media.schema';
+
+export const getRecommendationsQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(50).optional().default(20).meta( {example: 20} ),
+  type: z.enum(MediaType).optional().meta( {example: MediaType.FILM} ),
+  platform: z.string().optional().meta( {example: 'Netflix'} ),
+  platforms: z.string().optional().meta( {example: 'Netflix,Amazon Prime'} ),
+});
+
+export const recommendationResponseSchema = z.object({
+  media: createMediaResponseSchema.omit({ collections: true }),
+  score: z.number().meta( {example: 4.75} ),
+  reason: z.object({
+    because: z.object({
+      id: z.uuid(),
+      title: z.string().meta( {example: 'Interstellar'} ),
+    }),
+    sharedTags: z.array(z.string()).meta( {example: ['sci-fi', 'space']} ),
+    sameDirectorAuthor: z.boolean().meta( {example: true} ),
+    cooccurrences: z.number().meta( {description: 'Number of collections holding both media', example: 2} ),
+    explanation: z.string().meta( {example: 'Because you added Interstellar'} ),
+  }),
+});
+
+export const recommendationListResponseSchema = z.object({
+  data: z.array(recommendationResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 35} ),
+  pages: z.number().meta( {example: 2} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/users/me/recommendations?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: '/api/users/me/recommendations?page=2&pageSize=20'} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+export const ratingSchema = z.number().min(0).max(10).multipleOf(0.5).meta( {description: 'Rating from 0 to 10 in half steps', example: 8.5} );
+
+export const createReviewSchema = z.object({
+  rating: ratingSchema,
+  body: z.string().max(5000).optional().meta( {example: 'The ending still gets me.'} ),
+  spoiler: z.boolean().optional().default(false).meta( {example: false} ),
+});
+
+export const updateReviewSchema = z.object({
+  rating: ratingSchema.optional(),
+  body: z.string().max(5000).nullable().optional().meta( {example: 'Even better on a second viewing.'} ),
+  spoiler: z.boolean().optional().meta( {example: true} ),
+});
+
+export const reviewParamSchema = z.object({
+  mediaId: z.string().min(1),
+  reviewId: z.string().min(1),
+});
+
+export const getReviewsQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+  spoilers: z.enum(['include', 'hide', 'exclude']).optional().default('include').meta( {description: 'include spoiler reviews, hide their body, or leave them out', example: 'hide'} ),
+  sort: z.enum(['createdAt', 'rating']).optional().default('createdAt').meta( {example: 'createdAt'} ),
+  order: z.enum(['asc', 'desc']).optional().default('desc').meta( {example: 'desc'} ),
+});
+
+export const reviewResponseSchema = z.object({
+  id: z.uuid(),
+  rating: z.number().meta( {example: 8.5} ),
+  body: z.string().nullable().meta( {example: 'The ending still gets me.'} ),
+  spoiler: z.boolean().meta( {example: false} ),
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  userId: z.string(),
+  mediaId: z.uuid(),
+  user: z.object({
+    id: z.string().meta( {example: 'user_123'} ),
+    name: z.string().meta( {example: 'Jane Smith'} ),
+    username: z.string().nullable().meta( {example: 'jane_smith'} ),
+    displayUsername: z.string().nullable().meta( {example: 'Jane Smith'} ),
+    image: z.string().nullable().meta( {example: 'https://example.com/avatar.png'} ),
+  }),
+});
+
+export const reviewListResponseSchema = z.object({
+  data: z.array(reviewResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 12} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/media/media_123/reviews?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
+
+export const ratingAggregateSchema = z.object({
+  average: z.number().nullable().meta( {example: 8.25} ),
+  count: z.number().meta( {example: 4} ),
+  distribution: z.record(z.string(), z.number()).meta( {description: 'Number of ratings per value, from "0" to "10" in half steps', example: {'7.5': 1, '8': 2, '9.5': 1}} ),
+});
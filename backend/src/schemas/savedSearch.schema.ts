@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { getMediaQuerySchema } from '@/schemas/media.schema';
+
+export const savedSearchQuerySchema = getMediaQuerySchema
+  .omit({ page: true, cursor: true })
+  .meta( {description: 'Media listing query, as accepted by GET /api/media', example: {type: 'FILM', tags: 'sci-fi,thriller', tagsMode: 'all', minScore: 'imdb:8', sort: 'rating', order: 'desc'}} );
+
+export const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100).meta( {example: 'Top sci-fi films'} ),
+  query: savedSearchQuerySchema,
+});
+
+export const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional().meta( {example: 'Top sci-fi films'} ),
+  query: savedSearchQuerySchema.optional(),
+});
+
+export const savedSearchIdParamSchema = z.object({
+  savedSearchId: z.string().min(1),
+});
+
+export const getSavedSearchesQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+});
+
+export const runSavedSearchQuerySchema = z.object({
+  page: z.coerce.number().min(1).optional().default(1).meta( {example: 1} ),
+  pageSize: z.coerce.number().min(1).max(100).optional().meta( {description: 'Defaults to the saved page size', example: 20} ),
+  cursor: z.string().optional(),
+});
+
+export const savedSearchResponseSchema = z.object({
+  id: z.uuid(),
+  name: z.string().meta( {example: 'Top sci-fi films'} ),
+  query: savedSearchQuerySchema,
+  createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
+  userId: z.string().meta( {example: 'user_123'} ),
+});
+
+export const savedSearchListResponseSchema = z.object({
+  data: z.array(savedSearchResponseSchema),
+  page: z.number().meta( {example: 1} ),
+  pageSize: z.number().meta( {example: 20} ),
+  total: z.number().meta( {example: 3} ),
+  pages: z.number().meta( {example: 1} ),
+  links: z.object({
+    self: z.string().meta( {example: '/api/users/me/saved-searches?page=1&pageSize=20'} ),
+    next: z.string().nullable().meta( {example: null} ),
+    prev: z.string().nullable().meta( {example: null} ),
+  }),
+});
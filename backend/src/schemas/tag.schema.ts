@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { MAX_TAG_LENGTH } from '@/services/tag.service';
+
+export const getTagsQuerySchema = z.object({
+  prefix: z.string().max(MAX_TAG_LENGTH).optional().meta( {description: 'Only tags starting with this text, case-insensitive', example: 'sci'} ),
+  limit: z.coerce.number().min(1).max(100).optional().default(20).meta( {example: 20} ),
+});
+
+export const tagCountSchema = z.object({
+  tag: z.string().meta( {example: 'sci-fi'} ),
+  count: z.number().meta( {description: 'Number of media and collections using the tag', example: 42} ),
+  media: z.number().meta( {example: 38} ),
+  collections: z.number().meta( {example: 4} ),
+});
+
+export const tagListResponseSchema = z.object({
+  data: z.array(tagCountSchema),
+});
+
+export const mergeTagsSchema = z.object({
+  from: z.array(z.string().min(1).max(MAX_TAG_LENGTH)).min(1).max(50).meta( {description: 'Tags to rename, matched exactly', example: ['Sci-Fi', 'scifi', 'science fiction']} ),
+  to: z.string().min(1).max(MAX_TAG_LENGTH).meta( {description: 'New tag, normalized', example: 'sci-fi'} ),
+});
+
+export const mergeTagsResponseSchema = z.object({
+  tag: z.string().meta( {example: 'sci-fi'} ),
+  media: z.number().meta( {description: 'Number of updated media', example: 12} ),
+  collections: z.number().meta( {description: 'Number of updated collections', example: 2} ),
+});
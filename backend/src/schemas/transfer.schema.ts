@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { MediaType, Priority } from '@/generated/prisma/client';
+import { articleDetailsSchema, bookDetailsSchema, externalScoreInputSchema, filmDetailsSchema } from '@/schemas/media.schema';
+
+/** Maximum size of an imported file, in bytes */
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Collection item fields of an imported row, next to the media fields
+ */
+export const importItemSchema = z.object({
+  priority: z.enum(Priority).optional(),
+  dueDate: z.string().datetime().optional().transform(str => str ? new Date(str) : undefined),
+});
+
+export const importCollectionSchema = z.object({
+  file: z.file().max(MAX_IMPORT_BYTES).meta( {description: 'CSV or JSON file, at most 5 MB'} ),
+  format: z.enum(['csv', 'json', 'letterboxd', 'goodreads', 'imdb']).optional().meta( {description: 'Format of the file, detected from its name and columns when omitted', example: 'letterboxd'} ),
+  dryRun: z.enum(['true', 'false']).optional().transform(value => value === 'true').meta( {description: 'Report what would be imported without changing anything', example: 'true'} ),
+  onDuplicate: z.enum(['attach', 'skip', 'create']).optional().default('attach').meta( {description: 'What to do with rows matching a media of the catalog: add the existing entry to the collection, leave the row out, or create a new entry anyway', example: 'attach'} ),
+});
+
+export const importResultSchema = z.object({
+  format: z.enum(['csv', 'json', 'letterboxd', 'goodreads', 'imdb']).meta( {example: 'letterboxd'} ),
+  dryRun: z.boolean().meta( {example: false} ),
+  total: z.number().meta( {example: 3} ),
+  created: z.number().meta( {example: 1} ),
+  attached: z.number().meta( {example: 1} ),
+  skipped: z.number().meta( {example: 0} ),
+  failed: z.number().meta( {example: 1} ),
+  rows: z.array(z.object({
+    row: z.number().meta( {description: '1-based row of the file, header excluded', example: 2} ),
+    status: z.enum(['create', 'attach', 'skip', 'error']).meta( {description: 'Action taken, or that would be taken in a dry run', example: 'attach'} ),
+    title: z.string().nullable().meta( {example: 'Inception'} ),
+    mediaId: z.string().nullable().meta( {description: 'Created or matched media, null for errors and creations in a dry run', example: 'media_123'} ),
+    duplicateOfRow: z.number().nullable().meta( {description: 'Earlier row of the file holding the same media', example: null} ),
+    errors: z.array(z.string()).meta( {description: 'Validation errors, or why the row was skipped', example: []} ),
+  })),
+});
+
+export const exportCollectionQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional().default('csv').meta( {example: 'csv'} ),
+});
+
+export const collectionExportSchema = z.object({
+  collection: z.object({
+    id: z.string().meta( {example: 'col_123'} ),
+    name: z.string().meta( {example: 'Sci-Fi Classics'} ),
+  }),
+  exportedAt: z.string().meta( {example: '2026-01-01T00:00:00.000Z'} ),
+  items: z.array(z.object({
+    position: z.number().meta( {example: 1} ),
+    priority: z.enum(Priority).meta( {example: Priority.NORMAL} ),
+    dueDate: z.string().nullable().meta( {example: null} ),
+    addedAt: z.string().meta( {example: '2026-01-01T00:00:00.000Z'} ),
+    title: z.string().meta( {example: 'Inception'} ),
+    type: z.enum(MediaType).meta( {example: MediaType.FILM} ),
+    releaseDate: z.string().nullable().meta( {example: '2010-07-16T00:00:00.000Z'} ),
+    directorAuthor: z.string().nullable().meta( {example: 'Christopher Nolan'} ),
+    description: z.string().nullable().meta( {example: 'A thief who steals corporate secrets through dream-sharing technology'} ),
+    url: z.string().nullable().meta( {example: null} ),
+    coverUrl: z.string().nullable().meta( {example: null} ),
+    tags: z.array(z.string()).meta( {example: ['sci-fi', 'thriller']} ),
+    platforms: z.array(z.string()).meta( {example: ['Netflix']} ),
+    externalIds: z.record(z.string(), z.string()).nullable().meta( {example: {imdb: 'tt1375666'}} ),
+    scores: z.record(z.string(), externalScoreInputSchema).nullable().meta( {example: {imdb: {value: 8.8, scale: 10, votes: 2600000, fetchedAt: '2026-01-01T00:00:00.000Z'}}} ),
+    details: z.union([bookDetailsSchema, articleDetailsSchema, filmDetailsSchema]).nullable(),
+  })),
+});
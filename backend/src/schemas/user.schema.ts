@@ -36,6 +36,8 @@ export const collectionsResponseSchema = z.object({
     createdAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)), //TODO switch to v4's z.date() when the Date cannot be represented in JSON Schema issue is resolved
     updatedAt: z.string().datetime().meta( {example: '2026-01-01T00:00:00.000Z'} ).transform(str => new Date(str)),
     ownerId: z.uuid().meta( {example: 'user_123'} ),
+    parentId: z.string().nullable().meta( {example: null} ),
+    rules: z.record(z.string(), z.any()).nullable().meta( {description: 'Rules of a smart collection', example: null} ),
     },
   )),
 }) satisfies z.Schema<{ collections: Collection[] }>;
\ No newline at end of file
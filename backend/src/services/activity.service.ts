@@ -0,0 +1,268 @@
+import { tryGetContext } from "hono/context-storage";
+import type { RequestIdVariables } from "hono/request-id";
+import prisma from "@/db";
+import { ActivityAction, ActivityTarget } from "@/generated/prisma/browser";
+import { Prisma } from "@/generated/prisma/client";
+import type { AuthType } from "@/middleware/auth";
+import { AppError } from "@/middleware/errorHandler";
+import { paginationService, type SortKey } from "@/services/pagination.service";
+import { policyService } from "@/services/policy.service";
+import { publicUserSelect } from "@/services/user.service";
+import type { ActivityChanges, ActivityQuery, PaginatedData } from "@/types/types";
+
+const activityInclude = {
+  actor: { select: publicUserSelect },
+  collection: { select: { id: true, name: true } },
+} satisfies Prisma.ActivityInclude;
+
+export type ActivityEntry = Prisma.ActivityGetPayload<{ include: typeof activityInclude }>;
+
+/** An entry to append to the log, the actor and request being those of the current request */
+export type ActivityRecord = {
+  collectionId: string;
+  action: ActivityAction;
+  targetType: ActivityTarget;
+  targetId: string;
+  targetLabel: string;
+  changes?: ActivityChanges | null;
+};
+
+/** Activity is listed newest first */
+const ACTIVITY_SORT_KEY: SortKey = { field: 'createdAt', type: 'date' };
+
+export const activityService = {
+  /**
+   * Append entries to the activity log, in the transaction of the change they describe.
+   * The actor and request ID are read from the current request, both null outside of one (e.g. in the seed).
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {ActivityRecord[]} records Entries to append
+   * @returns {Promise<void>}
+   */
+  async record(tx: Prisma.TransactionClient, records: ActivityRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const context = tryGetContext<{ Variables: AuthType & RequestIdVariables }>();
+    await tx.activity.createMany({
+      data: records.map(({ changes, ...record }) => ({
+        ...record,
+        changes: changes ? (changes as Prisma.InputJsonObject) : Prisma.DbNull,
+        actorId: context?.var.user?.id ?? null,
+        requestId: context?.var.requestId ?? null,
+      })),
+    });
+  },
+
+  /**
+   * Record the same change on every collection holding a media
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {{ id: string; title: string }} media Changed media
+   * @param {ActivityAction} action MEDIA_UPDATED or MEDIA_DELETED
+   * @param {ActivityChanges | null} changes Changed fields
+   * @returns {Promise<string[]>} IDs of the collections holding the media
+   */
+  async recordMediaChange(
+    tx: Prisma.TransactionClient,
+    media: { id: string; title: string },
+    action: ActivityAction,
+    changes: ActivityChanges | null
+  ): Promise<string[]> {
+    const items = await tx.collectionMedia.findMany({ where: { mediaId: media.id }, select: { collectionId: true } });
+    await this.record(tx, items.map((item) => this.itemRecord(item.collectionId, media, action, changes)));
+    return items.map((item) => item.collectionId);
+  },
+
+  /**
+   * Build the entry of a change to a collection itself
+   */
+  collectionRecord(collection: { id: string; name: string }, action: ActivityAction, changes: ActivityChanges | null): ActivityRecord {
+    return {
+      collectionId: collection.id,
+      action,
+      targetType: ActivityTarget.COLLECTION,
+      targetId: collection.id,
+      targetLabel: collection.name,
+      changes,
+    };
+  },
+
+  /**
+   * Build the entry of a change to the item of a media in a collection
+   */
+  itemRecord(
+    collectionId: string,
+    media: { id: string; title: string },
+    action: ActivityAction,
+    changes: ActivityChanges | null
+  ): ActivityRecord {
+    return { collectionId, action, targetType: ActivityTarget.MEDIA, targetId: media.id, targetLabel: media.title, changes };
+  },
+
+  /**
+   * Build the entry of a change to the membership of a user, labelled with their username
+   */
+  memberRecord(
+    collectionId: string,
+    user: { id: string; name: string; username: string | null },
+    action: ActivityAction,
+    changes: ActivityChanges | null
+  ): ActivityRecord {
+    return { collectionId, action, targetType: ActivityTarget.MEMBER, targetId: user.id, targetLabel: user.username ?? user.name, changes };
+  },
+
+  /**
+   * Compare the given fields of a row before and after a change
+   * @param {Record<string, unknown>} before Row before the change
+   * @param {Record<string, unknown>} after Row after the change
+   * @param {string[]} fields Fields to compare
+   * @returns {ActivityChanges | null} The fields that changed with their two values (dates as ISO strings), null if none did
+   */
+  diff(before: Record<string, unknown>, after: Record<string, unknown>, fields: string[]): ActivityChanges | null {
+    const changes: ActivityChanges = {};
+    for (const field of fields) {
+      const previous = this.toJsonValue(before[field]);
+      const next = this.toJsonValue(after[field]);
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes[field] = { before: previous, after: next };
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+  },
+
+  /**
+   * Convert a field value to what the log stores: dates as ISO strings, missing values as null
+   */
+  toJsonValue(value: unknown): unknown {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return value === undefined ? null : JSON.parse(JSON.stringify(value));
+  },
+
+  /**
+   * List the activity of a collection, newest first.
+   * Requires `activity:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {ActivityQuery} query Page, page size or cursor
+   * @returns {Promise<PaginatedData<ActivityEntry>>} Paginated entries with their actor
+   * @throws AppError 400 if the cursor is invalid
+   */
+  async listCollectionActivity(collectionId: string, query: ActivityQuery): Promise<PaginatedData<ActivityEntry>> {
+    return this.listActivity({ collectionId }, query, `/api/collections/${collectionId}/activity`);
+  },
+
+  /**
+   * List the activity of the collections a user belongs to (directly or through an ancestor) or follows,
+   * newest first. Entries follow the same `activity:read` rule as the activity of a single collection.
+   * @param {string} userId Authenticated user ID
+   * @param {ActivityQuery} query Page, page size or cursor
+   * @returns {Promise<PaginatedData<ActivityEntry>>} Paginated entries with their actor and collection
+   * @throws AppError 400 if the cursor is invalid
+   */
+  async listFeed(userId: string, query: ActivityQuery): Promise<PaginatedData<ActivityEntry>> {
+    const user = { id: userId };
+    const where: Prisma.ActivityWhereInput = {
+      collection: {
+        AND: [
+          { OR: [policyService.membershipWhere(userId), { followers: { some: { userId } } }] },
+          policyService.collectionWhere(user, 'activity:read'),
+        ],
+      },
+    };
+    return this.listActivity(where, query, '/api/users/me/feed');
+  },
+
+  /**
+   * List activity entries with offset pagination, or keyset pagination from a cursor
+   */
+  async listActivity(where: Prisma.ActivityWhereInput, query: ActivityQuery, baseUrl: string): Promise<PaginatedData<ActivityEntry>> {
+    const pageSize = query.pageSize || 20;
+    const params = paginationService.toSearchParams(query);
+
+    // Keyset pagination keeps pages stable while new activity is logged
+    if (query.cursor) {
+      const { data, nextCursor, prevCursor } = await paginationService.paginateKeyset<
+        ActivityEntry,
+        Prisma.ActivityWhereInput,
+        Prisma.ActivityOrderByWithRelationInput
+      >({
+        cursor: query.cursor,
+        sort: 'createdAt',
+        order: 'desc',
+        key: ACTIVITY_SORT_KEY,
+        pageSize,
+        find: ({ where: keysetWhere, orderBy, take }) =>
+          prisma.activity.findMany({ where: { AND: [where, keysetWhere] }, orderBy, take, include: activityInclude }),
+      });
+
+      return {
+        data,
+        page: 1,
+        pageSize,
+        total: 0,
+        pages: 0,
+        links: paginationService.cursorLinks(baseUrl, params, pageSize, {
+          self: query.cursor,
+          next: nextCursor,
+          prev: prevCursor,
+        }),
+        cursor: nextCursor,
+      };
+    }
+
+    const page = query.page || 1;
+    const [data, total] = await Promise.all([
+      prisma.activity.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: paginationService.orderBy(ACTIVITY_SORT_KEY, 'desc') as Prisma.ActivityOrderByWithRelationInput[],
+        include: activityInclude,
+      }),
+      prisma.activity.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+    const lastEntry = data.at(-1);
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks(baseUrl, params, page, pageSize, pages),
+      cursor: page < pages && lastEntry
+        ? paginationService.encodeCursor(ACTIVITY_SORT_KEY, 'createdAt', 'desc', lastEntry, 'next')
+        : null,
+    };
+  },
+
+  /**
+   * Follow a collection, so that its activity shows in the user's feed.
+   * Requires `collection:read` on the collection, enforced by the caller.
+   * @param {string} userId Authenticated user ID
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<void>}
+   */
+  async follow(userId: string, collectionId: string): Promise<void> {
+    await prisma.collectionFollower.upsert({
+      where: { userId_collectionId: { userId, collectionId } },
+      create: { userId, collectionId },
+      update: {},
+    });
+  },
+
+  /**
+   * Stop following a collection
+   * @param {string} userId Authenticated user ID
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the user does not follow the collection
+   */
+  async unfollow(userId: string, collectionId: string): Promise<void> {
+    const { count } = await prisma.collectionFollower.deleteMany({ where: { userId, collectionId } });
+    if (count === 0) {
+      throw new AppError('Collection not followed', 404);
+    }
+  },
+};
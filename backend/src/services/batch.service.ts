@@ -0,0 +1,371 @@
+import prisma from "@/db";
+import { ActivityAction } from "@/generated/prisma/browser";
+import type { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { activityService } from "@/services/activity.service";
+import { catalogService } from "@/services/catalog.service";
+import { collectionService } from "@/services/collection.service";
+import { detailsService } from "@/services/details.service";
+import { mediaService } from "@/services/media.service";
+import {
+  policyService,
+  type CollectionResource,
+  type MediaAction,
+  type MediaResource,
+  type PolicyUser,
+} from "@/services/policy.service";
+import { realtimeService } from "@/services/realtime.service";
+import type { BatchMode, BatchOperation, BatchOperationResult, BatchResult, CollectionEvent } from "@/types/types";
+
+/** Time allowed to an atomic batch, whose operations share one transaction */
+const ATOMIC_BATCH_TIMEOUT_MS = 30_000;
+
+/**
+ * Media and collections of a batch loaded for the policy, keyed by ID
+ */
+type BatchAccess = {
+  media: Map<string, MediaResource>;
+  collections: Map<string, CollectionResource>;
+  /** Collection of the creations without `collectionId`, null until resolved or when the batch has none */
+  defaultCollectionId: string | null;
+};
+
+/** What an applied operation did */
+type BatchOutcome = Pick<BatchOperationResult, 'status' | 'mediaId'>;
+
+type BatchUser = NonNullable<PolicyUser>;
+
+export const batchService = {
+  /**
+   * Run media operations in order, in `atomic` mode (one transaction: every operation is applied or
+   * none, and none runs when one is denied) or `bestEffort` mode (each operation in its own transaction).
+   * Permissions are checked up front from one query for the media and one for the collections of the batch.
+   * Operations need what their own endpoint needs: `media:update` to update or edit tags and platforms,
+   * `media:delete` to delete, `collection:manageMedia` on the target collection to create and on both
+   * collections to move.
+   * Realtime events are published once the changes are committed.
+   * @param {BatchOperation[]} operations Operations to run
+   * @param {BatchMode} mode Atomic or best-effort
+   * @param {BatchUser} user Authenticated user
+   * @returns {Promise<BatchResult>} The status of each operation; in a failed atomic batch, the other
+   * operations are 424
+   */
+  async run(operations: BatchOperation[], mode: BatchMode, user: BatchUser): Promise<BatchResult> {
+    const access = await this.loadAccess(operations, user);
+    const entries = operations.map((operation, index) => ({
+      operation,
+      result: {
+        index,
+        op: operation.op,
+        status: 424,
+        mediaId: 'mediaId' in operation ? operation.mediaId : null,
+        error: null,
+      } as BatchOperationResult,
+    }));
+    const fail = (result: BatchOperationResult, error: unknown) => Object.assign(result, this.toFailure(error));
+
+    const denied = entries.filter(({ operation, result }) => {
+      try {
+        this.authorize(operation, access, user);
+        return false;
+      } catch (error) {
+        fail(result, error);
+        return true;
+      }
+    });
+
+    // Only authorized operations may create the default collection
+    const runnable = mode === 'bestEffort'
+      ? entries.filter((entry) => !denied.includes(entry))
+      : denied.length === 0 ? entries : [];
+    if (runnable.some(({ operation }) => operation.op === 'create' && !operation.data.collectionId)) {
+      access.defaultCollectionId = (await mediaService.getOrCreateDefaultCollection(user.id)).id;
+    }
+
+    if (mode === 'bestEffort') {
+      for (const { operation, result } of runnable) {
+        const events: CollectionEvent[] = [];
+        try {
+          Object.assign(result, await prisma.$transaction((tx) => this.execute(tx, operation, access, user, events)));
+        } catch (error) {
+          fail(result, error);
+          continue;
+        }
+        await this.publish(events);
+      }
+    } else if (runnable.length > 0) {
+      let current = runnable[0];
+      const events: CollectionEvent[] = [];
+      let committed = false;
+      try {
+        const applied = await prisma.$transaction(async (tx) => {
+          const outcomes: [BatchOperationResult, BatchOutcome][] = [];
+          for (const entry of runnable) {
+            current = entry;
+            outcomes.push([entry.result, await this.execute(tx, entry.operation, access, user, events)]);
+          }
+          return outcomes;
+        }, { timeout: ATOMIC_BATCH_TIMEOUT_MS });
+        applied.forEach(([result, outcome]) => Object.assign(result, outcome));
+        committed = true;
+      } catch (error) {
+        if (current) {
+          fail(current.result, error);
+        }
+      }
+      if (committed) {
+        await this.publish(events);
+      }
+    }
+
+    const results = entries.map((entry) => entry.result);
+    for (const result of results) {
+      if (result.status === 424) {
+        result.error = 'Not applied: another operation of the atomic batch failed';
+      }
+    }
+    const succeeded = results.filter((result) => result.status < 400).length;
+    return { mode, committed: succeeded > 0, succeeded, failed: results.length - succeeded, results };
+  },
+
+  /**
+   * Load every media and collection the batch touches, with the user's memberships.
+   * The default collection is left unresolved until the operations are authorized.
+   */
+  async loadAccess(operations: BatchOperation[], user: BatchUser): Promise<BatchAccess> {
+    const mediaIds = new Set<string>();
+    const collectionIds = new Set<string>();
+    for (const operation of operations) {
+      if (operation.op === 'create') {
+        if (operation.data.collectionId) {
+          collectionIds.add(operation.data.collectionId);
+        }
+      } else if (operation.op === 'moveToCollection') {
+        collectionIds.add(operation.fromCollectionId).add(operation.toCollectionId);
+      } else {
+        mediaIds.add(operation.mediaId);
+      }
+    }
+
+    const [media, collections] = await Promise.all([
+      policyService.findMediaMany([...mediaIds], user.id),
+      policyService.findCollections([...collectionIds], user.id),
+    ]);
+    return { media, collections, defaultCollectionId: null };
+  },
+
+  /**
+   * Require the permissions of an operation on the loaded resources
+   * @throws AppError 404 if a media or collection is missing or unreadable, 403 if the role is insufficient
+   */
+  authorize(operation: BatchOperation, access: BatchAccess, user: BatchUser): void {
+    const requireCollection = (collectionId: string) => {
+      const collection = access.collections.get(collectionId);
+      if (!collection) {
+        throw new AppError('Collection not found', 404);
+      }
+      policyService.assertCan(user, 'collection:manageMedia', { type: 'collection', collection });
+    };
+    const requireMedia = (action: MediaAction, mediaId: string) => {
+      const media = access.media.get(mediaId);
+      if (!media) {
+        throw new AppError('Media not found', 404);
+      }
+      policyService.assertCan(user, action, { type: 'media', media });
+    };
+
+    switch (operation.op) {
+      case 'create':
+        // The default collection belongs to the user
+        if (operation.data.collectionId) {
+          requireCollection(operation.data.collectionId);
+        }
+        return;
+      case 'moveToCollection':
+        requireCollection(operation.fromCollectionId);
+        requireCollection(operation.toCollectionId);
+        return;
+      case 'delete':
+        requireMedia('media:delete', operation.mediaId);
+        return;
+      default:
+        requireMedia('media:update', operation.mediaId);
+    }
+  },
+
+  /**
+   * Apply an authorized operation within a transaction
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {BatchOperation} operation Operation to apply
+   * @param {BatchAccess} access Loaded resources of the batch
+   * @param {BatchUser} user Authenticated user
+   * @param {CollectionEvent[]} events Realtime events of the operation, collected to be published after commit
+   * @returns {Promise<BatchOutcome>} The status of the operation and the affected media
+   * @throws AppError 400 for an update without fields, 404 if the media is gone or not in the source
+   * collection, 409 for a duplicate creation, a media already in the target collection or a smart collection
+   */
+  async execute(
+    tx: Prisma.TransactionClient,
+    operation: BatchOperation,
+    access: BatchAccess,
+    user: BatchUser,
+    events: CollectionEvent[]
+  ): Promise<BatchOutcome> {
+    switch (operation.op) {
+      case 'create': {
+        const { collectionId, onDuplicate, ...data } = operation.data;
+        const targetId = collectionId ?? access.defaultCollectionId;
+        if (!targetId) {
+          throw new AppError('Collection not found', 404);
+        }
+        await collectionService.assertRegularCollection(tx, targetId);
+        const fields = { ...data, directorAuthor: data.directorAuthor ?? detailsService.authorsLabel(data.details) };
+
+        const canonical = onDuplicate === 'create' ? null : await catalogService.findCanonical(fields, user.id, tx);
+        if (canonical && onDuplicate === 'attach') {
+          if (await mediaService.appendToCollection(tx, canonical.id, targetId)) {
+            events.push({ type: 'item.added', collectionId: targetId, data: { mediaId: canonical.id } });
+          }
+          return { status: 200, mediaId: canonical.id };
+        }
+        if (canonical) {
+          throw new AppError('Media already exists in the catalog', 409);
+        }
+        const media = await mediaService.insertMedia(tx, fields, targetId);
+        events.push({ type: 'item.added', collectionId: targetId, data: { mediaId: media.id } });
+        return { status: 201, mediaId: media.id };
+      }
+
+      case 'update':
+        if (Object.keys(operation.data).length === 0) {
+          throw new AppError('No fields to update', 400);
+        }
+        await this.requireMedia(tx, operation.mediaId);
+        await mediaService.applyUpdate(tx, operation.mediaId, operation.data);
+        return { status: 200, mediaId: operation.mediaId };
+
+      case 'delete': {
+        const collectionIds = await mediaService.removeMedia(tx, operation.mediaId);
+        if (!collectionIds) {
+          throw new AppError('Media not found', 404);
+        }
+        for (const collectionId of collectionIds) {
+          events.push({ type: 'item.removed', collectionId, data: { mediaId: operation.mediaId } });
+        }
+        return { status: 200, mediaId: operation.mediaId };
+      }
+
+      case 'addTag':
+      case 'removeTag': {
+        const { tags } = await this.requireMedia(tx, operation.mediaId);
+        const updated = operation.op === 'addTag'
+          ? [...new Set([...tags, operation.tag])]
+          : tags.filter((tag) => tag !== operation.tag);
+        if (updated.length !== tags.length) {
+          await mediaService.applyUpdate(tx, operation.mediaId, { tags: updated });
+        }
+        return { status: 200, mediaId: operation.mediaId };
+      }
+
+      case 'addPlatform': {
+        const { platforms } = await this.requireMedia(tx, operation.mediaId);
+        if (!platforms.includes(operation.platform)) {
+          await mediaService.applyUpdate(tx, operation.mediaId, { platforms: [...platforms, operation.platform] });
+        }
+        return { status: 200, mediaId: operation.mediaId };
+      }
+
+      case 'moveToCollection':
+        events.push(...(await this.moveItem(tx, operation.mediaId, operation.fromCollectionId, operation.toCollectionId)));
+        return { status: 200, mediaId: operation.mediaId };
+    }
+  },
+
+  /**
+   * Load the tags and platforms of a media, which an earlier operation of the batch may have deleted
+   * @throws AppError 404 if the media no longer exists
+   */
+  async requireMedia(tx: Prisma.TransactionClient, mediaId: string): Promise<{ tags: string[]; platforms: string[] }> {
+    const media = await tx.media.findUnique({ where: { id: mediaId }, select: { tags: true, platforms: true } });
+    if (!media) {
+      throw new AppError('Media not found', 404);
+    }
+    return media;
+  },
+
+  /**
+   * Move the item of a media to the end of another collection, keeping its priority and due date,
+   * and close the gap in the source collection
+   * @returns {Promise<CollectionEvent[]>} The realtime events of the removal and the addition
+   * @throws AppError 404 if the source collection does not hold the media, 409 if the target already does or
+   * either collection is a smart collection
+   */
+  async moveItem(
+    tx: Prisma.TransactionClient,
+    mediaId: string,
+    fromCollectionId: string,
+    toCollectionId: string
+  ): Promise<CollectionEvent[]> {
+    // Lock both collections in a fixed order so concurrent moves between them cannot deadlock
+    const itemIds = new Map<string, string[]>();
+    for (const collectionId of [fromCollectionId, toCollectionId].sort()) {
+      itemIds.set(collectionId, await collectionService.lockAndListItemIds(tx, collectionId));
+      await collectionService.assertRegularCollection(tx, collectionId);
+    }
+
+    const item = await tx.collectionMedia.findUnique({
+      where: { collectionId_mediaId: { collectionId: fromCollectionId, mediaId } },
+      select: { id: true, media: { select: { id: true, title: true } } },
+    });
+    if (!item) {
+      throw new AppError('Media not in the source collection', 404);
+    }
+    const existing = await tx.collectionMedia.findUnique({
+      where: { collectionId_mediaId: { collectionId: toCollectionId, mediaId } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError('Media already in collection', 409);
+    }
+
+    const targetIds = itemIds.get(toCollectionId) ?? [];
+    await tx.collectionMedia.update({
+      where: { id: item.id },
+      data: { collectionId: toCollectionId, position: targetIds.length + 1 },
+    });
+    await collectionService.renumberItems(tx, (itemIds.get(fromCollectionId) ?? []).filter((id) => id !== item.id));
+
+    const changes = { collectionId: { before: fromCollectionId, after: toCollectionId } };
+    await activityService.record(tx, [
+      activityService.itemRecord(fromCollectionId, item.media, ActivityAction.ITEM_REMOVED, changes),
+      activityService.itemRecord(toCollectionId, item.media, ActivityAction.ITEM_ADDED, changes),
+    ]);
+    return [
+      { type: 'item.removed', collectionId: fromCollectionId, data: { itemId: item.id, mediaId } },
+      { type: 'item.added', collectionId: toCollectionId, data: { itemId: item.id, mediaId, position: targetIds.length + 1 } },
+    ];
+  },
+
+  /**
+   * Publish the realtime events of committed operations. The changes are saved by then, so an error
+   * is logged and never turns their results into failures.
+   */
+  async publish(events: CollectionEvent[]): Promise<void> {
+    try {
+      await realtimeService.publish(events);
+    } catch (error) {
+      console.error('Error publishing batch events:', error);
+    }
+  },
+
+  /**
+   * Turn the error of an operation into its status, hiding unexpected errors
+   */
+  toFailure(error: unknown): Pick<BatchOperationResult, 'status' | 'error'> {
+    if (error instanceof AppError) {
+      return { status: error.statusCode, error: error.message };
+    }
+    console.error('Error running batch operation:', error);
+    return { status: 500, error: 'Failed to apply the operation' };
+  },
+};
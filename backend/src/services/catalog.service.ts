@@ -0,0 +1,294 @@
+import prisma from "@/db";
+import { ActivityAction } from "@/generated/prisma/browser";
+import type { Prisma, Media, MediaType } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { activityService, type ActivityRecord } from "@/services/activity.service";
+import { collectionService } from "@/services/collection.service";
+import { episodeService } from "@/services/episode.service";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import { reviewService } from "@/services/review.service";
+import type { DuplicateCandidate, ExternalIds, ExternalScores } from "@/types/types";
+
+type CatalogFields = {
+  title: string;
+  type: MediaType;
+  releaseDate?: Date | string | null;
+  directorAuthor?: string | null;
+};
+
+const MAX_CANDIDATES = 10;
+
+/** Fields of the target a merge can fill or union, logged when they change */
+const MERGED_FIELDS = [
+  'description', 'releaseDate', 'directorAuthor', 'url', 'coverUrl', 'details', 'tags', 'platforms', 'scores', 'externalIds',
+] as const;
+
+export const catalogService = {
+  /**
+   * Normalize free text for catalog matching: accents, case, punctuation and spacing are ignored
+   * @param {string} value Text to normalize
+   * @returns {string} Normalized text ("Amélie (2001)!" -> "amelie 2001")
+   */
+  normalizeText(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  },
+
+  /**
+   * Build the canonical key identifying a catalog entry: type, normalized title, release year
+   * and normalized director/author
+   * @param {CatalogFields} media Media fields used for matching
+   * @returns {string} Catalog key, e.g. "FILM|inception|2010|christopher nolan"
+   */
+  buildCatalogKey(media: CatalogFields): string {
+    const year = media.releaseDate ? new Date(media.releaseDate).getUTCFullYear().toString() : '';
+    const director = media.directorAuthor ? this.normalizeText(media.directorAuthor) : '';
+    return [this.buildTitlePrefix(media), year, director].join('|');
+  },
+
+  /**
+   * Build the leading part of a catalog key shared by every edition of a title
+   */
+  buildTitlePrefix(media: Pick<CatalogFields, 'title' | 'type'>): string {
+    return `${media.type}|${this.normalizeText(media.title)}`;
+  },
+
+  /**
+   * Find catalog entries that may be the same work as the given media, among media the user can read.
+   * Matches are ranked: same external ID, then same catalog key, then same title and type.
+   * @param {CatalogFields & { externalIds?: ExternalIds | null }} media Candidate media fields
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @param {string | undefined} excludeId Media ID to leave out of the results
+   * @param {Prisma.TransactionClient} tx Transaction client (optional)
+   * @returns {Promise<DuplicateCandidate[]>} Candidate duplicates, best match first
+   */
+  async findDuplicates(
+    media: CatalogFields & { externalIds?: ExternalIds | null },
+    userId?: string,
+    excludeId?: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<DuplicateCandidate[]> {
+    const catalogKey = this.buildCatalogKey(media);
+    const externalIdFilters: Prisma.MediaWhereInput[] = Object.entries(media.externalIds ?? {}).map(
+      ([provider, value]) => ({ externalIds: { path: [provider], equals: value } })
+    );
+
+    const matches = await tx.media.findMany({
+      where: {
+        AND: [
+          policyService.mediaWhere(userId ? { id: userId } : null, 'media:read'),
+          excludeId ? { id: { not: excludeId } } : {},
+          {
+            OR: [
+              ...externalIdFilters,
+              { catalogKey: { startsWith: `${this.buildTitlePrefix(media)}|` } },
+            ],
+          },
+        ],
+      },
+      take: MAX_CANDIDATES * 2,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const rank = { externalId: 0, catalogKey: 1, title: 2 } as const;
+    return matches
+      .map((candidate): DuplicateCandidate => ({
+        media: candidate,
+        match: this.sharesExternalId(candidate, media.externalIds)
+          ? 'externalId'
+          : candidate.catalogKey === catalogKey ? 'catalogKey' : 'title',
+      }))
+      .sort((a, b) => rank[a.match] - rank[b.match])
+      .slice(0, MAX_CANDIDATES);
+  },
+
+  /**
+   * Find the canonical entry for a media, i.e. the oldest readable entry with the same external ID
+   * or catalog key
+   * @param {CatalogFields & { externalIds?: ExternalIds | null }} media Candidate media fields
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @param {Prisma.TransactionClient} tx Transaction client (optional)
+   * @returns {Promise<Media | null>} The canonical entry, or null when the media is new to the catalog
+   */
+  async findCanonical(
+    media: CatalogFields & { externalIds?: ExternalIds | null },
+    userId?: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<Media | null> {
+    const candidates = await this.findDuplicates(media, userId, undefined, tx);
+    return candidates.find((candidate) => candidate.match !== 'title')?.media ?? null;
+  },
+
+  /**
+   * Check whether two media share at least one external ID
+   */
+  sharesExternalId(media: Pick<Media, 'externalIds'>, externalIds?: ExternalIds | null): boolean {
+    const known = (media.externalIds ?? {}) as ExternalIds;
+    return Object.entries(externalIds ?? {}).some(([provider, value]) => known[provider] === value);
+  },
+
+  /**
+   * Merge duplicate media into a target entry.
+   * Collection items, reviews, library entries and platform availability are re-pointed to the target
+   * (keeping the target's row when both exist), seasons and episodes are moved or matched by number with
+   * the users' watched episodes, tags, platforms, external IDs and external scores are unioned, empty target
+   * fields are filled from the duplicates (details only from duplicates of the same type), then the
+   * duplicates are deleted. The re-pointed and removed items and the changes to the target are logged
+   * in the activity of their collections.
+   * Admins can merge anything; other users need `media:update` on the target and `media:delete`
+   * on every duplicate.
+   * @param {string} targetId Media ID to keep
+   * @param {string[]} duplicateIds Media IDs to merge into the target
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<Media>} The merged target media
+   * @throws AppError 400 if the target is listed as a duplicate, 404/403 if a media is not accessible
+   */
+  async mergeMedia(targetId: string, duplicateIds: string[], user: PolicyUser): Promise<Media> {
+    const uniqueIds = [...new Set(duplicateIds)];
+    if (uniqueIds.includes(targetId)) {
+      throw new AppError('A media cannot be merged into itself', 400);
+    }
+
+    if (!policyService.isAdmin(user)) {
+      await policyService.authorizeMedia(user, 'media:update', targetId);
+      for (const duplicateId of uniqueIds) {
+        await policyService.authorizeMedia(user, 'media:delete', duplicateId);
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const target = await tx.media.findUnique({ where: { id: targetId } });
+      const duplicates = await tx.media.findMany({
+        where: { id: { in: uniqueIds } },
+        include: { collections: true },
+      });
+      if (!target || duplicates.length !== uniqueIds.length) {
+        throw new AppError('Media not found', 404);
+      }
+
+      // Lock the collections of the duplicates in a fixed order, as their items may be removed and renumbered
+      const duplicateCollectionIds = [...new Set(duplicates.flatMap((duplicate) => duplicate.collections.map((item) => item.collectionId)))];
+      for (const collectionId of duplicateCollectionIds.sort()) {
+        await collectionService.lockAndListItemIds(tx, collectionId);
+      }
+
+      const targetCollections = new Set(
+        (await tx.collectionMedia.findMany({ where: { mediaId: targetId }, select: { collectionId: true } }))
+          .map((item) => item.collectionId)
+      );
+
+      const shrunkCollectionIds = new Set<string>();
+      const records: ActivityRecord[] = [];
+      for (const duplicate of duplicates) {
+        const changes = { mediaId: { before: duplicate.id, after: targetId } };
+        for (const item of duplicate.collections) {
+          if (targetCollections.has(item.collectionId)) {
+            await tx.collectionMedia.delete({ where: { id: item.id } });
+            shrunkCollectionIds.add(item.collectionId);
+            records.push(activityService.itemRecord(item.collectionId, duplicate, ActivityAction.ITEM_REMOVED, changes));
+          } else {
+            await tx.collectionMedia.update({ where: { id: item.id }, data: { mediaId: targetId } });
+            targetCollections.add(item.collectionId);
+            records.push(activityService.itemRecord(item.collectionId, target, ActivityAction.ITEM_UPDATED, changes));
+          }
+        }
+      }
+      await activityService.record(tx, records);
+      // Close the gaps left by the removed items
+      for (const collectionId of shrunkCollectionIds) {
+        await collectionService.renumberItems(tx, await collectionService.lockAndListItemIds(tx, collectionId));
+      }
+
+      for (const duplicate of duplicates) {
+        const reviewers = await tx.review.findMany({ where: { mediaId: targetId }, select: { userId: true } });
+        await tx.review.updateMany({
+          where: { mediaId: duplicate.id, userId: { notIn: reviewers.map((review) => review.userId) } },
+          data: { mediaId: targetId },
+        });
+        const trackers = await tx.userMedia.findMany({ where: { mediaId: targetId }, select: { userId: true } });
+        await tx.userMedia.updateMany({
+          where: { mediaId: duplicate.id, userId: { notIn: trackers.map((entry) => entry.userId) } },
+          data: { mediaId: targetId },
+        });
+      }
+      await this.mergeAvailability(tx, targetId, uniqueIds);
+      await episodeService.mergeSeasons(tx, targetId, uniqueIds);
+
+      const union = (values: string[][]) => [...new Set(values.flat())];
+      const merged = duplicates.reduce<Pick<Media, 'description' | 'releaseDate' | 'directorAuthor' | 'url' | 'coverUrl'>>((data, duplicate) => ({
+        ...data,
+        description: data.description ?? duplicate.description,
+        releaseDate: data.releaseDate ?? duplicate.releaseDate,
+        directorAuthor: data.directorAuthor ?? duplicate.directorAuthor,
+        url: data.url ?? duplicate.url,
+        coverUrl: data.coverUrl ?? duplicate.coverUrl,
+      }), {
+        description: target.description,
+        releaseDate: target.releaseDate,
+        directorAuthor: target.directorAuthor,
+        url: target.url,
+        coverUrl: target.coverUrl,
+      });
+
+      // Details only carry over from duplicates of the same type
+      const details = target.details
+        ?? duplicates.find((duplicate) => duplicate.type === target.type && duplicate.details)?.details;
+
+      await tx.media.deleteMany({ where: { id: { in: uniqueIds } } });
+      await reviewService.refreshMediaRating(tx, targetId);
+
+      const updated = await tx.media.update({
+        where: { id: targetId },
+        data: {
+          ...merged,
+          // The release year and director/author filled from the duplicates are part of the key
+          catalogKey: this.buildCatalogKey({ ...target, ...merged }),
+          details: (details ?? undefined) as Prisma.InputJsonValue | undefined,
+          tags: union([target.tags, ...duplicates.map((duplicate) => duplicate.tags)]),
+          platforms: union([target.platforms, ...duplicates.map((duplicate) => duplicate.platforms)]),
+          scores: Object.assign(
+            {},
+            ...duplicates.map((duplicate) => (duplicate.scores ?? {}) as ExternalScores),
+            (target.scores ?? {}) as ExternalScores
+          ),
+          externalIds: Object.assign(
+            {},
+            ...duplicates.map((duplicate) => (duplicate.externalIds ?? {}) as ExternalIds),
+            (target.externalIds ?? {}) as ExternalIds
+          ),
+        },
+      });
+      const changes = activityService.diff(target, updated, [...MERGED_FIELDS]);
+      if (changes) {
+        await activityService.recordMediaChange(tx, updated, ActivityAction.MEDIA_UPDATED, changes);
+      }
+      return updated;
+    });
+  },
+
+  /**
+   * Re-point the platform availability of merged duplicates to the target, unioned by platform, region
+   * and access type; a link missing on the target's row is taken from the duplicate
+   */
+  async mergeAvailability(tx: Prisma.TransactionClient, targetId: string, duplicateIds: string[]): Promise<void> {
+    const key = (row: { platformId: string; region: string; accessType: string }) =>
+      `${row.platformId}|${row.region}|${row.accessType}`;
+    const known = new Map(
+      (await tx.mediaAvailability.findMany({ where: { mediaId: targetId } })).map((row) => [key(row), row])
+    );
+
+    const rows = await tx.mediaAvailability.findMany({ where: { mediaId: { in: duplicateIds } } });
+    for (const row of rows) {
+      const existing = known.get(key(row));
+      if (!existing) {
+        known.set(key(row), await tx.mediaAvailability.update({ where: { id: row.id }, data: { mediaId: targetId } }));
+      } else if (!existing.url && row.url) {
+        known.set(key(row), await tx.mediaAvailability.update({ where: { id: existing.id }, data: { url: row.url } }));
+      }
+    }
+  },
+};
@@ -0,0 +1,919 @@
+import prisma from "@/db";
+import { ActivityAction, WatchStatus } from "@/generated/prisma/browser";
+import { Prisma, type CollectionMedia, type Media, type Priority, type Visibility } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { activityService } from "@/services/activity.service";
+import { filterService } from "@/services/filter.service";
+import { libraryService } from "@/services/library.service";
+import { mediaService } from "@/services/media.service";
+import { paginationService, type SortKey } from "@/services/pagination.service";
+import { platformService } from "@/services/platform.service";
+import { MAX_COLLECTION_DEPTH, policyService } from "@/services/policy.service";
+import { realtimeService } from "@/services/realtime.service";
+import { searchService } from "@/services/search.service";
+import { tagService } from "@/services/tag.service";
+import type {
+  CollectionCreateData,
+  CollectionItemUpdate,
+  CollectionListQuery,
+  CollectionUpdateData,
+  CollectionWhereClause,
+  PaginatedData,
+  SearchHits,
+  SearchResult,
+  SmartCollectionRules,
+  UpNextQuery
+} from "@/types/types";
+
+const collectionInclude = {
+  _count: {
+    select: {
+      media: true,
+      members: true,
+      children: true,
+    },
+  },
+} satisfies Prisma.CollectionInclude;
+
+type CollectionSort = Exclude<NonNullable<CollectionListQuery['sort']>, 'relevance'>;
+
+const COLLECTION_SORT_KEYS: Record<CollectionSort, SortKey> = {
+  createdAt: { field: 'createdAt', type: 'date' },
+  updatedAt: { field: 'updatedAt', type: 'date' },
+  name: { field: 'name', type: 'string' },
+};
+
+export type CollectionWithCounts = Prisma.CollectionGetPayload<{ include: typeof collectionInclude }>;
+
+export type CollectionItem = Prisma.CollectionMediaGetPayload<{ include: { media: true } }>;
+
+const upNextInclude = {
+  media: true,
+  collection: { select: { id: true, name: true } },
+} satisfies Prisma.CollectionMediaInclude;
+
+export type UpNextItem = Prisma.CollectionMediaGetPayload<{ include: typeof upNextInclude }>;
+
+export type CollectionBreadcrumb = { id: string; name: string; visibility: Visibility };
+
+export const collectionService = {
+  /**
+   * Create a new collection owned by the given user, optionally as a sub-collection.
+   * Creating a sub-collection requires `collection:createChild` on the parent.
+   * With `rules`, the collection is a smart collection listing the media matching them.
+   * @param {CollectionCreateData} data Data for the new collection
+   * @param {string} userId ID of the owner
+   * @returns {Promise<CollectionWithCounts>} The created collection
+   * @throws AppError 404/403 if the parent is not accessible, 400 if the tree would be too deep or the rules are invalid
+   */
+  async createCollection(data: CollectionCreateData, userId: string): Promise<CollectionWithCounts> {
+    const { parentId, rules, ...fields } = data;
+    if (rules) {
+      filterService.validateFilters(rules, userId);
+    }
+    if (parentId) {
+      const parent = await policyService.authorizeCollection({ id: userId }, 'collection:createChild', parentId);
+      if (parent.ancestors.length + 2 > MAX_COLLECTION_DEPTH) {
+        throw new AppError(`Collections cannot be nested more than ${MAX_COLLECTION_DEPTH} levels deep`, 400);
+      }
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const collection = await tx.collection.create({
+          data: {
+            ...fields,
+            tags: fields.tags ?? [],
+            rules: rules as Prisma.InputJsonObject | undefined,
+            owner: { connect: { id: userId } },
+            ...(parentId ? { parent: { connect: { id: parentId } } } : {}),
+          },
+          include: collectionInclude,
+        });
+        await activityService.record(tx, [activityService.collectionRecord(collection, ActivityAction.COLLECTION_CREATED, null)]);
+        return collection;
+      });
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      throw new AppError('Failed to create collection', 500);
+    }
+  },
+
+  /**
+   * List collections visible to the user with pagination and filters.
+   * With `q`, only the collections matching the full-text search are listed, with their relevance and highlights.
+   * @param {CollectionListQuery} query Query parameters for filtering and pagination
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<PaginatedData<SearchResult<CollectionWithCounts>>>} Paginated list of collections
+   * @throws AppError 400 if `sort=relevance` is used without `q` or with a cursor, or if the cursor is invalid
+   */
+  async listCollections(
+    query: CollectionListQuery,
+    userId?: string
+  ): Promise<PaginatedData<SearchResult<CollectionWithCounts>>> {
+    const pageSize = query.pageSize || 20;
+    const sort = query.sort || 'createdAt';
+    const order = query.order || 'desc';
+    if (sort === 'relevance' && (!query.q || query.cursor)) {
+      throw new AppError('sort=relevance requires q and offset pagination', 400);
+    }
+
+    const hits = query.q ? await searchService.searchCollections(query.q) : null;
+    const filterWhere = this.buildWhereClause(query, hits);
+    const accessWhere = this.buildAccessWhere(userId);
+    const where = Object.keys(filterWhere).length > 0
+      ? { AND: [filterWhere, accessWhere] }
+      : accessWhere;
+    const annotate = (items: CollectionWithCounts[]) =>
+      (query.q && hits ? searchService.annotateCollections(items, query.q, hits) : items);
+
+    const params = paginationService.toSearchParams(query);
+
+    if (query.cursor && sort !== 'relevance') {
+      const { data, nextCursor, prevCursor } = await paginationService.paginateKeyset<
+        CollectionWithCounts,
+        Prisma.CollectionWhereInput,
+        Prisma.CollectionOrderByWithRelationInput
+      >({
+        cursor: query.cursor,
+        sort,
+        order,
+        key: COLLECTION_SORT_KEYS[sort],
+        pageSize,
+        find: ({ where: keysetWhere, orderBy, take }) =>
+          prisma.collection.findMany({ where: { AND: [where, keysetWhere] }, orderBy, take, include: collectionInclude }),
+      });
+
+      return {
+        data: await annotate(data),
+        page: 1,
+        pageSize,
+        total: 0,
+        pages: 0,
+        links: paginationService.cursorLinks('/api/collections', params, pageSize, {
+          self: query.cursor,
+          next: nextCursor,
+          prev: prevCursor,
+        }),
+        cursor: nextCursor,
+      };
+    }
+
+    const page = query.page || 1;
+    const skip = (page - 1) * pageSize;
+
+    const [data, total] = sort === 'relevance'
+      ? await this.findByRelevance(where, hits ?? new Map(), order, skip, pageSize)
+      : await Promise.all([
+        prisma.collection.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: paginationService.orderBy(COLLECTION_SORT_KEYS[sort], order) as Prisma.CollectionOrderByWithRelationInput[],
+          include: collectionInclude,
+        }),
+        prisma.collection.count({ where }),
+      ]);
+
+    const pages = Math.ceil(total / pageSize);
+    const lastItem = data.at(-1);
+    const nextCursor = sort !== 'relevance' && page < pages && lastItem
+      ? paginationService.encodeCursor(COLLECTION_SORT_KEYS[sort], sort, order, lastItem, 'next')
+      : null;
+
+    return {
+      data: await annotate(data),
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks('/api/collections', params, page, pageSize, pages),
+      cursor: nextCursor,
+    };
+  },
+
+  /**
+   * Load a page of search matches ordered by relevance, sorting the IDs of every filtered match in memory
+   * @param {Prisma.CollectionWhereInput} where Filters, access control and search matches
+   * @param {SearchHits} hits Relevance of the search matches
+   * @param {'asc' | 'desc'} order Sort direction, most relevant first with desc
+   * @param {number} skip Number of matches to skip
+   * @param {number} take Page size
+   * @returns {Promise<[CollectionWithCounts[], number]>} The page of collections and the total number of matches
+   */
+  async findByRelevance(
+    where: Prisma.CollectionWhereInput,
+    hits: SearchHits,
+    order: 'asc' | 'desc',
+    skip: number,
+    take: number
+  ): Promise<[CollectionWithCounts[], number]> {
+    const matches = await prisma.collection.findMany({ where, select: { id: true } });
+    const pageIds = searchService.sortByRelevance(matches.map((collection) => collection.id), hits, order).slice(skip, skip + take);
+    const collections = await prisma.collection.findMany({ where: { id: { in: pageIds } }, include: collectionInclude });
+    const byId = new Map(collections.map((collection) => [collection.id, collection]));
+    return [pageIds.flatMap((id) => byId.get(id) ?? []), matches.length];
+  },
+
+  /**
+   * Build a Prisma where clause based on the provided query parameters
+   * @param {CollectionWhereClause} query Query parameters for filtering collections
+   * @param {SearchHits | null} hits Matches of the full-text search on `q`
+   * @returns {Prisma.CollectionWhereInput} Prisma where clause for filtering collections
+   */
+  buildWhereClause(query: CollectionWhereClause, hits?: SearchHits | null): Prisma.CollectionWhereInput {
+    const where: Prisma.CollectionWhereInput = {};
+
+    const tagList = mediaService.parseCommaSeparated(query.tags, query.tag);
+    if (tagList.length > 0) {
+      where.tags = { hasSome: tagService.normalizeAll(tagList) };
+    }
+
+    if (query.visibility) {
+      where.visibility = query.visibility;
+    }
+
+    if (query.ownerId) {
+      where.ownerId = query.ownerId;
+    }
+
+    if (query.parentId) {
+      where.parentId = query.parentId === 'root' ? null : query.parentId;
+    }
+
+    if (query.q) {
+      where.id = { in: [...(hits?.keys() ?? [])] };
+    }
+
+    return where;
+  },
+
+  /**
+   * Build access control where clause for collection visibility
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Prisma.CollectionWhereInput} Prisma where clause for access control
+   */
+  buildAccessWhere(userId?: string): Prisma.CollectionWhereInput {
+    return policyService.collectionWhere(userId ? { id: userId } : null, 'collection:read');
+  },
+
+  /**
+   * Get a collection by ID if the user is allowed to read it
+   * @param {string} id Collection ID
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<CollectionWithCounts | null>} The collection if found and readable, or null
+   */
+  async getById(id: string, userId?: string): Promise<CollectionWithCounts | null> {
+    return await prisma.collection.findFirst({
+      where: {
+        AND: [
+          { id },
+          this.buildAccessWhere(userId),
+        ],
+      },
+      include: collectionInclude,
+    });
+  },
+
+  /**
+   * Update a collection by ID.
+   * Setting `rules` turns a collection without items into a smart collection, `null` turns it back
+   * into a regular one.
+   * Permissions are enforced by the caller (see the `collection:update` policy action).
+   * @param {string} id Collection ID
+   * @param {CollectionUpdateData} data Data to update the collection with
+   * @returns {Promise<CollectionWithCounts | null>} The updated collection, or null if an error occurred
+   * @throws AppError 400 if the rules are invalid, 409 if rules are set on a collection with items
+   */
+  async updateById(id: string, data: CollectionUpdateData): Promise<CollectionWithCounts | null> {
+    const { rules, ...fields } = data;
+    try {
+      if (rules) {
+        const collection = await prisma.collection.findUniqueOrThrow({
+          where: { id },
+          select: { ownerId: true, rules: true, _count: { select: { media: true } } },
+        });
+        if (!collection.rules && collection._count.media > 0) {
+          throw new AppError('Only a collection without items can become a smart collection', 409);
+        }
+        filterService.validateFilters(rules, collection.ownerId);
+      }
+
+      const { collection, changes } = await prisma.$transaction(async (tx) => {
+        const before = await tx.collection.findUniqueOrThrow({ where: { id } });
+        const collection = await tx.collection.update({
+          where: { id },
+          data: {
+            ...fields,
+            ...(rules !== undefined ? { rules: rules === null ? Prisma.DbNull : (rules as Prisma.InputJsonObject) } : {}),
+          },
+          include: collectionInclude,
+        });
+        const changes = activityService.diff(before, collection, Object.keys(data));
+        if (changes) {
+          await activityService.record(tx, [activityService.collectionRecord(collection, ActivityAction.COLLECTION_UPDATED, changes)]);
+        }
+        return { collection, changes };
+      });
+      if (changes) {
+        await realtimeService.publish([{ type: 'collection.updated', collectionId: id, data: { changes } }]);
+      }
+      return collection;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error('Error updating collection:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Delete a collection by ID.
+   * Permissions are enforced by the caller (see the `collection:delete` policy action).
+   * @param {string} id Collection ID
+   * @returns {Promise<boolean>} True if the collection was deleted, false otherwise
+   */
+  async deleteById(id: string): Promise<boolean> {
+    try {
+      // Sub-collections become top-level collections and stop inheriting the roles of this one
+      const descendantIds = await this.getDescendantIds(id);
+      await prisma.$transaction(async (tx) => {
+        const children = await tx.collection.findMany({ where: { parentId: id }, select: { id: true, name: true } });
+        await tx.collection.delete({ where: { id } });
+        // The log of the collection goes with it, its sub-collections log their move to the top level
+        const changes = { parentId: { before: id, after: null } };
+        await activityService.record(tx, children.map((child) => activityService.collectionRecord(child, ActivityAction.COLLECTION_MOVED, changes)));
+      });
+      await realtimeService.publish([{ type: 'collection.deleted', collectionId: id, data: {} }]);
+      await this.publishInheritedAccessChange(id, descendantIds);
+      return true;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error('Error deleting collection:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Add an existing media entry to a collection at a given position.
+   * Requires `collection:manageMedia` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string} mediaId ID of the media to attach
+   * @param {string} userId Authenticated user ID, who must be able to read the media
+   * @param {{ position?: number; priority?: Priority; dueDate?: Date }} options 1-based target position, appended at
+   * the end when omitted, viewing priority and due date
+   * @returns {Promise<CollectionItem>} The created collection item
+   * @throws AppError 404 if the media is not visible to the user, 409 if it is already in the collection or the
+   * collection is a smart collection
+   */
+  async addMedia(
+    collectionId: string,
+    mediaId: string,
+    userId: string,
+    options: { position?: number; priority?: Priority; dueDate?: Date } = {}
+  ): Promise<CollectionItem> {
+    const { position, priority, dueDate } = options;
+    const media = await mediaService.getById(mediaId, userId);
+    if (!media) {
+      throw new AppError('Media not found', 404);
+    }
+
+    const added = await prisma.$transaction(async (tx) => {
+      const orderedIds = await this.lockAndListItemIds(tx, collectionId);
+      await this.assertRegularCollection(tx, collectionId);
+      const existing = await tx.collectionMedia.findUnique({
+        where: { collectionId_mediaId: { collectionId, mediaId } },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new AppError('Media already in collection', 409);
+      }
+
+      const item = await tx.collectionMedia.create({
+        data: { collectionId, mediaId, position: orderedIds.length + 1, priority, dueDate },
+      });
+
+      const index = position === undefined ? orderedIds.length : Math.min(position - 1, orderedIds.length);
+      orderedIds.splice(index, 0, item.id);
+      await this.renumberItems(tx, orderedIds);
+      await activityService.record(tx, [activityService.itemRecord(collectionId, media, ActivityAction.ITEM_ADDED, null)]);
+
+      return tx.collectionMedia.findUniqueOrThrow({ where: { id: item.id }, include: { media: true } });
+    });
+    await realtimeService.publish([
+      { type: 'item.added', collectionId, data: { itemId: added.id, mediaId, position: added.position } },
+    ]);
+    return added;
+  },
+
+  /**
+   * List the items of a collection ordered by position.
+   * With `recursive`, the items of the readable sub-collections are listed too, each item
+   * keeping the ID of the collection it belongs to.
+   * Requires `collection:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {{ page?: number; pageSize?: number; status?: WatchStatus; recursive?: boolean }} query Pagination, watch status filter and recursion
+   * @param {string | undefined} userId Authenticated user ID, required by the status filter
+   * @returns {Promise<PaginatedData<CollectionItem>>} Paginated list of collection items
+   */
+  async listItems(
+    collectionId: string,
+    query: { page?: number; pageSize?: number; status?: WatchStatus; recursive?: boolean },
+    userId?: string
+  ): Promise<PaginatedData<CollectionItem>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const where: Prisma.CollectionMediaWhereInput = { collectionId };
+    if (query.recursive) {
+      const descendantIds = await this.getDescendantIds(collectionId);
+      where.collectionId = { in: [collectionId, ...descendantIds] };
+      where.collection = this.buildAccessWhere(userId);
+    }
+    if (query.status && userId) {
+      where.media = libraryService.statusWhere(userId, query.status);
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.collectionMedia.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ position: 'asc' }, { addedAt: 'asc' }, { id: 'asc' }],
+        include: { media: true },
+      }),
+      prisma.collectionMedia.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+    const baseUrl = `/api/collections/${collectionId}/media`;
+    const statusParam = query.status ? `&status=${query.status}` : '';
+    const recursiveParam = query.recursive ? '&recursive=true' : '';
+    const buildLink = (p: number) => `${baseUrl}?page=${p}&pageSize=${pageSize}${statusParam}${recursiveParam}`;
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+
+  /**
+   * Get the rules of a smart collection
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<SmartCollectionRules | null>} The rules, or null for a regular collection
+   */
+  async getRules(collectionId: string): Promise<SmartCollectionRules | null> {
+    const collection = await prisma.collection.findUnique({ where: { id: collectionId }, select: { rules: true } });
+    return (collection?.rules as SmartCollectionRules | null | undefined) ?? null;
+  },
+
+  /**
+   * List the media of a smart collection: the media readable by the user that match the rules,
+   * in the order set by the rules.
+   * Requires `collection:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {SmartCollectionRules} rules Rules of the collection
+   * @param {{ page?: number; pageSize?: number; status?: WatchStatus }} query Pagination and watch status filter
+   * @param {string | undefined} userId Authenticated user ID, required by the status filter
+   * @returns {Promise<PaginatedData<Media>>} Paginated list of media
+   */
+  async listSmartMedia(
+    collectionId: string,
+    rules: SmartCollectionRules,
+    query: { page?: number; pageSize?: number; status?: WatchStatus },
+    userId?: string
+  ): Promise<PaginatedData<Media>> {
+    const { data, page, pageSize, total, pages } = await mediaService.listMedia(
+      { ...rules, page: query.page, pageSize: query.pageSize, status: query.status },
+      userId
+    );
+
+    const params = paginationService.toSearchParams({ status: query.status });
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks(`/api/collections/${collectionId}/media`, params, page, pageSize, pages),
+    };
+  },
+
+  /**
+   * Update an item of a collection: move it, either to a position or relative to another item,
+   * and/or change its viewing priority and due date.
+   * When the item moves, all positions of the collection are renumbered in the same transaction.
+   * Requires `collection:manageMedia` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string} collectionMediaId ID of the item to update
+   * @param {CollectionItemUpdate} changes At most one of position, before or after, plus priority and due date
+   * @returns {Promise<CollectionItem>} The updated item
+   * @throws AppError 404 if the item or the reference item is not in the collection
+   */
+  async updateItem(
+    collectionId: string,
+    collectionMediaId: string,
+    changes: CollectionItemUpdate
+  ): Promise<CollectionItem> {
+    const { priority, dueDate, ...target } = changes;
+
+    const { item, itemChanges } = await prisma.$transaction(async (tx) => {
+      const orderedIds = await this.lockAndListItemIds(tx, collectionId);
+      const currentIndex = orderedIds.indexOf(collectionMediaId);
+      if (currentIndex === -1) {
+        throw new AppError('Collection item not found', 404);
+      }
+      const before = await tx.collectionMedia.findUniqueOrThrow({ where: { id: collectionMediaId } });
+
+      const moves = target.position !== undefined || target.before !== undefined || target.after !== undefined;
+      if (moves) {
+        orderedIds.splice(currentIndex, 1);
+
+        let index: number;
+        if (target.before !== undefined || target.after !== undefined) {
+          const referenceId = (target.before ?? target.after) as string;
+          const referenceIndex = orderedIds.indexOf(referenceId);
+          if (referenceIndex === -1) {
+            throw new AppError('Reference item not found in collection', 404);
+          }
+          index = target.before !== undefined ? referenceIndex : referenceIndex + 1;
+        } else {
+          index = Math.min((target.position ?? 1) - 1, orderedIds.length);
+        }
+
+        orderedIds.splice(index, 0, collectionMediaId);
+        await this.renumberItems(tx, orderedIds);
+      }
+
+      if (priority !== undefined || dueDate !== undefined) {
+        await tx.collectionMedia.update({
+          where: { id: collectionMediaId },
+          data: { priority, dueDate },
+        });
+      }
+
+      const item = await tx.collectionMedia.findUniqueOrThrow({ where: { id: collectionMediaId }, include: { media: true } });
+      const itemChanges = activityService.diff(before, item, ['position', 'priority', 'dueDate']);
+      if (itemChanges) {
+        await activityService.record(tx, [activityService.itemRecord(collectionId, item.media, ActivityAction.ITEM_UPDATED, itemChanges)]);
+      }
+      return { item, itemChanges };
+    });
+    if (itemChanges) {
+      await realtimeService.publish([
+        { type: 'item.updated', collectionId, data: { itemId: item.id, mediaId: item.mediaId, changes: itemChanges } },
+      ]);
+    }
+    return item;
+  },
+
+  /**
+   * Remove an item from a collection and close the gap in positions.
+   * The media entry itself is kept. Requires `collection:manageMedia`, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string} collectionMediaId ID of the item to remove
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the item is not in the collection
+   */
+  async removeItem(collectionId: string, collectionMediaId: string): Promise<void> {
+    const mediaId = await prisma.$transaction(async (tx) => {
+      const orderedIds = await this.lockAndListItemIds(tx, collectionId);
+      const index = orderedIds.indexOf(collectionMediaId);
+      if (index === -1) {
+        throw new AppError('Collection item not found', 404);
+      }
+
+      const { media } = await tx.collectionMedia.delete({ where: { id: collectionMediaId }, include: { media: true } });
+      orderedIds.splice(index, 1);
+      await this.renumberItems(tx, orderedIds);
+      await activityService.record(tx, [activityService.itemRecord(collectionId, media, ActivityAction.ITEM_REMOVED, null)]);
+      return media.id;
+    });
+    await realtimeService.publish([{ type: 'item.removed', collectionId, data: { itemId: collectionMediaId, mediaId } }]);
+  },
+
+  /**
+   * Build the "what to watch next" queue of a user: the items of every collection the user owns or
+   * is an accepted member of, without the media the user completed, ordered by priority, due date
+   * and position. A media held by several collections appears once, with its most urgent item.
+   * @param {string} userId Authenticated user ID
+   * @param {UpNextQuery} query Pagination, media type and platform filters
+   * @returns {Promise<PaginatedData<UpNextItem>>} Paginated queue items with their media and collection
+   */
+  async listUpNext(userId: string, query: UpNextQuery): Promise<PaginatedData<UpNextItem>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+
+    const mediaConditions: Prisma.MediaWhereInput[] = [
+      { NOT: libraryService.statusWhere(userId, WatchStatus.COMPLETED) },
+    ];
+    if (query.type) {
+      mediaConditions.push({ type: query.type });
+    }
+    const platformList = mediaService.parseCommaSeparated(query.platforms, query.platform);
+    if (platformList.length > 0) {
+      mediaConditions.push(platformService.namesWhere(platformList));
+    }
+
+    const where: Prisma.CollectionMediaWhereInput = {
+      collection: policyService.membershipWhere(userId),
+      media: { AND: mediaConditions },
+    };
+
+    const [data, groups] = await Promise.all([
+      prisma.collectionMedia.findMany({
+        where,
+        distinct: ['mediaId'],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [
+          { priority: 'desc' },
+          { dueDate: { sort: 'asc', nulls: 'last' } },
+          { position: 'asc' },
+          { addedAt: 'asc' },
+          { id: 'asc' },
+        ],
+        include: upNextInclude,
+      }),
+      prisma.collectionMedia.groupBy({ by: ['mediaId'], where }),
+    ]);
+
+    const total = groups.length;
+    const pages = Math.ceil(total / pageSize);
+    const queryParams = new URLSearchParams();
+    if (query.type) queryParams.set('type', query.type);
+    if (query.platform) queryParams.set('platform', query.platform);
+    if (query.platforms) queryParams.set('platforms', query.platforms);
+
+    const buildLink = (p: number) => {
+      const params = new URLSearchParams(queryParams);
+      params.set('page', p.toString());
+      params.set('pageSize', pageSize.toString());
+      return `/api/users/me/up-next?${params.toString()}`;
+    };
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+
+  /**
+   * List the sub-collections of a collection that the user can read.
+   * Requires `collection:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {{ page?: number; pageSize?: number }} query Pagination parameters
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<PaginatedData<CollectionWithCounts>>} Paginated list of child collections
+   */
+  async listChildren(
+    collectionId: string,
+    query: { page?: number; pageSize?: number },
+    userId?: string
+  ): Promise<PaginatedData<CollectionWithCounts>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const where: Prisma.CollectionWhereInput = {
+      AND: [{ parentId: collectionId }, this.buildAccessWhere(userId)],
+    };
+
+    const [data, total] = await Promise.all([
+      prisma.collection.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        include: collectionInclude,
+      }),
+      prisma.collection.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+    const baseUrl = `/api/collections/${collectionId}/children`;
+    const buildLink = (p: number) => `${baseUrl}?page=${p}&pageSize=${pageSize}`;
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+
+  /**
+   * Get the breadcrumb of a collection: its ancestors, root first.
+   * The breadcrumb stops below the first ancestor the user cannot read.
+   * Requires `collection:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<CollectionBreadcrumb[]>} Readable ancestors, root first
+   */
+  async getAncestors(collectionId: string, userId?: string): Promise<CollectionBreadcrumb[]> {
+    const chain = await this.getAncestorIds(prisma, collectionId);
+    const readable = await prisma.collection.findMany({
+      where: { AND: [{ id: { in: chain } }, this.buildAccessWhere(userId)] },
+      select: { id: true, name: true, visibility: true },
+    });
+    const byId = new Map(readable.map((collection) => [collection.id, collection]));
+
+    const breadcrumb: CollectionBreadcrumb[] = [];
+    for (const id of chain) {
+      const ancestor = byId.get(id);
+      if (!ancestor) {
+        break;
+      }
+      breadcrumb.unshift(ancestor);
+    }
+    return breadcrumb;
+  },
+
+  /**
+   * Move a collection under another collection, or to the top level.
+   * Requires `collection:move` on the collection, enforced by the caller, and
+   * `collection:createChild` on the new parent.
+   * @param {string} collectionId Collection ID
+   * @param {string | null} parentId New parent collection ID, or null for a top-level collection
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<CollectionWithCounts>} The moved collection
+   * @throws AppError 404/403 if the new parent is not accessible, 409 if the move would create a cycle,
+   * 400 if the tree would be too deep
+   */
+  async moveCollection(collectionId: string, parentId: string | null, userId: string): Promise<CollectionWithCounts> {
+    if (parentId) {
+      await policyService.authorizeCollection({ id: userId }, 'collection:createChild', parentId);
+    }
+
+    const { collection, changes } = await prisma.$transaction(async (tx) => {
+      // Serialize tree moves so that two concurrent moves cannot create a cycle together
+      await tx.$queryRaw`SELECT pg_advisory_xact_lock(hashtext('collection_tree'))`;
+
+      if (parentId) {
+        const parentAncestorIds = await this.getAncestorIds(tx, parentId);
+        if (parentId === collectionId || parentAncestorIds.includes(collectionId)) {
+          throw new AppError('A collection cannot be moved into itself or one of its sub-collections', 409);
+        }
+
+        const subtreeHeight = (await this.getDescendantLevels(collectionId, tx)).length + 1;
+        if (parentAncestorIds.length + 1 + subtreeHeight > MAX_COLLECTION_DEPTH) {
+          throw new AppError(`Collections cannot be nested more than ${MAX_COLLECTION_DEPTH} levels deep`, 400);
+        }
+      }
+
+      const before = await tx.collection.findUniqueOrThrow({ where: { id: collectionId }, select: { parentId: true } });
+      const collection = await tx.collection.update({
+        where: { id: collectionId },
+        data: { parentId },
+        include: collectionInclude,
+      });
+      const changes = activityService.diff(before, collection, ['parentId']);
+      if (changes) {
+        await activityService.record(tx, [activityService.collectionRecord(collection, ActivityAction.COLLECTION_MOVED, changes)]);
+      }
+      return { collection, changes };
+    });
+    // The inherited access of the collection and its sub-collections changes with the parent
+    if (changes) {
+      await realtimeService.publish([{ type: 'collection.updated', collectionId, data: { changes } }]);
+      await this.publishInheritedAccessChange(collectionId);
+    }
+    return collection;
+  },
+
+  /**
+   * Have the realtime subscribers of the sub-collections of a collection check their access again,
+   * after a change to the roles they inherit from it (member removed or demoted, tree changed)
+   * @param {string} collectionId Collection whose roles changed
+   * @param {string[]} descendantIds Its sub-collections, when already known (e.g. before a deletion)
+   * @returns {Promise<void>}
+   */
+  async publishInheritedAccessChange(collectionId: string, descendantIds?: string[]): Promise<void> {
+    const ids = descendantIds ?? await this.getDescendantIds(collectionId);
+    await realtimeService.publish(ids.map((id) => ({
+      type: 'access.changed',
+      collectionId: id,
+      data: { sourceCollectionId: collectionId },
+    })));
+  },
+
+  /**
+   * Get the IDs of all the sub-collections of a collection, level by level
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<string[]>} Descendant IDs, closest levels first
+   */
+  async getDescendantIds(collectionId: string): Promise<string[]> {
+    return (await this.getDescendantLevels(collectionId)).flat();
+  },
+
+  /**
+   * Walk down a collection tree, one query per level, up to MAX_COLLECTION_DEPTH levels
+   * @param {string} collectionId Collection ID
+   * @param {Prisma.TransactionClient} tx Transaction client (optional)
+   * @returns {Promise<string[][]>} Descendant IDs grouped by level, children first
+   */
+  async getDescendantLevels(collectionId: string, tx: Prisma.TransactionClient = prisma): Promise<string[][]> {
+    const levels: string[][] = [];
+    let frontier = [collectionId];
+    while (frontier.length > 0 && levels.length < MAX_COLLECTION_DEPTH) {
+      const children = await tx.collection.findMany({
+        where: { parentId: { in: frontier } },
+        select: { id: true },
+      });
+      frontier = children.map((child) => child.id);
+      if (frontier.length > 0) {
+        levels.push(frontier);
+      }
+    }
+    return levels;
+  },
+
+  /**
+   * Get the IDs of the ancestors of a collection, parent first
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<string[]>} Ancestor IDs, parent first
+   */
+  async getAncestorIds(tx: Prisma.TransactionClient, collectionId: string): Promise<string[]> {
+    const ids: string[] = [];
+    let current = await tx.collection.findUnique({ where: { id: collectionId }, select: { parentId: true } });
+    while (current?.parentId && ids.length < MAX_COLLECTION_DEPTH) {
+      ids.push(current.parentId);
+      current = await tx.collection.findUnique({ where: { id: current.parentId }, select: { parentId: true } });
+    }
+    return ids;
+  },
+
+  /**
+   * Lock a collection row for the rest of the transaction and return its item IDs in display order.
+   * Serializes concurrent reorders of the same collection.
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<string[]>} Item IDs ordered by position
+   */
+  async lockAndListItemIds(tx: Prisma.TransactionClient, collectionId: string): Promise<string[]> {
+    await tx.$queryRaw`SELECT id FROM "collections" WHERE id = ${collectionId} FOR UPDATE`;
+    const items = await tx.collectionMedia.findMany({
+      where: { collectionId },
+      orderBy: [{ position: 'asc' }, { addedAt: 'asc' }],
+      select: { id: true },
+    });
+    return items.map((item) => item.id);
+  },
+
+  /**
+   * Reject manual item changes on a smart collection, whose media are defined by its rules
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} collectionId Collection ID
+   * @throws AppError 409 if the collection is a smart collection
+   */
+  async assertRegularCollection(tx: Prisma.TransactionClient, collectionId: string): Promise<void> {
+    const collection = await tx.collection.findUnique({ where: { id: collectionId }, select: { rules: true } });
+    if (collection?.rules) {
+      throw new AppError('The media of a smart collection are defined by its rules', 409);
+    }
+  },
+
+  /**
+   * Assign contiguous 1-based positions following the given order, only writing rows that changed
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string[]} orderedIds Item IDs in their new order
+   * @returns {Promise<void>}
+   */
+  async renumberItems(tx: Prisma.TransactionClient, orderedIds: string[]): Promise<void> {
+    const current = await tx.collectionMedia.findMany({
+      where: { id: { in: orderedIds } },
+      select: { id: true, position: true },
+    });
+    const positions = new Map(current.map((item: Pick<CollectionMedia, 'id' | 'position'>) => [item.id, item.position]));
+
+    for (const [index, id] of orderedIds.entries()) {
+      if (positions.get(id) !== index + 1) {
+        await tx.collectionMedia.update({ where: { id }, data: { position: index + 1 } });
+      }
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { AppError } from "@/middleware/errorHandler";
+
+/** A parsed CSV record, with the line of the file it starts on */
+export type CsvRecord = {
+  line: number;
+  values: string[];
+};
+
+export const csvService = {
+  /**
+   * Parse CSV text (RFC 4180): comma-separated fields, double-quoted fields may hold commas, line
+   * breaks and doubled quotes. A leading byte order mark and blank lines are ignored.
+   * @param {string} text CSV text
+   * @returns {CsvRecord[]} The records, header included
+   * @throws AppError 400 if a quoted field is not closed
+   */
+  parse(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let values: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+      values.push(field);
+      if (values.length > 1 || values[0] !== '') {
+        records.push({ line: recordLine, values });
+      }
+      values = [];
+      field = '';
+    };
+
+    const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        endRecord();
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new AppError(`Unclosed quoted field starting on line ${recordLine}`, 400);
+    }
+    endRecord();
+    return records;
+  },
+
+  /**
+   * Format one CSV line, quoting the fields that hold commas, quotes or line breaks.
+   * Text starting like a spreadsheet formula (`=`, `+`, `-`, `@`, tab or carriage return) is prefixed
+   * with `'` and quoted, so that spreadsheets opening the file show it instead of evaluating it.
+   * @param {(string | number | null | undefined)[]} values Field values, null and undefined written as empty fields
+   * @returns {string} The line, ending with CRLF
+   */
+  formatRow(values: (string | number | null | undefined)[]): string {
+    return values
+      .map((value) => {
+        if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) {
+          return `"'${value.replace(/"/g, '""')}"`;
+        }
+        const text = value == null ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n';
+  },
+};
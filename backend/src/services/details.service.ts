@@ -0,0 +1,56 @@
+import type { ContributorRole, MediaDetails } from "@/types/types";
+
+/** Roles of the contributors of a book */
+export const CONTRIBUTOR_ROLES = ['author', 'editor', 'translator', 'illustrator', 'narrator'] as const satisfies readonly ContributorRole[];
+
+/** A DOI, e.g. `10.1038/nphys1170` */
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+
+export const detailsService = {
+  /**
+   * Normalize an ISBN and check its checksum
+   * @param {string} isbn ISBN-10 or ISBN-13, hyphens and spaces allowed
+   * @returns {string | null} The ISBN without separators (uppercase check digit), null when invalid
+   */
+  normalizeIsbn(isbn: string): string | null {
+    const value = isbn.replace(/[\s-]/g, '').toUpperCase();
+
+    if (/^\d{9}[\dX]$/.test(value)) {
+      const sum = [...value].reduce(
+        (total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index),
+        0
+      );
+      return sum % 11 === 0 ? value : null;
+    }
+
+    if (/^97[89]\d{10}$/.test(value)) {
+      const sum = [...value].reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+      return sum % 10 === 0 ? value : null;
+    }
+
+    return null;
+  },
+
+  /**
+   * Normalize a DOI, accepting the `doi:` and `https://doi.org/` forms
+   * @param {string} doi DOI as entered
+   * @returns {string | null} The bare DOI, null when invalid
+   */
+  normalizeDoi(doi: string): string | null {
+    const value = doi.trim().replace(/^(doi:|https?:\/\/(dx\.)?doi\.org\/)/i, '');
+    return DOI_PATTERN.test(value) ? value : null;
+  },
+
+  /**
+   * Build the director/author label of a book from its contributors
+   * @param {MediaDetails | null | undefined} details Details of the media
+   * @returns {string | undefined} The authors separated by commas, undefined when the details list none
+   */
+  authorsLabel(details: MediaDetails | null | undefined): string | undefined {
+    if (!details || !('contributors' in details)) {
+      return undefined;
+    }
+    const authors = (details.contributors ?? []).filter((contributor) => contributor.role === 'author');
+    return authors.length > 0 ? authors.map((author) => author.name).join(', ').slice(0, 200) : undefined;
+  },
+};
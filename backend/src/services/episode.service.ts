@@ -0,0 +1,410 @@
+import prisma from "@/db";
+import { MediaType, WatchStatus } from "@/generated/prisma/browser";
+import type { Episode, Prisma, Season } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { libraryService } from "@/services/library.service";
+import type { EpisodeInput, SeasonInput, SeriesProgress } from "@/types/types";
+
+const seasonInclude = {
+  episodes: { orderBy: { number: 'asc' } },
+} satisfies Prisma.SeasonInclude;
+
+export type SeasonWithEpisodes = Prisma.SeasonGetPayload<{ include: typeof seasonInclude }>;
+
+/** An episode with the time the user watched it, null when not watched */
+export type WatchableEpisode = Episode & { watchedAt: Date | null };
+
+export type SeasonWithWatches = Season & { episodes: WatchableEpisode[] };
+
+export const episodeService = {
+  /**
+   * List the seasons of a series with their episodes, in order, and when the user watched each episode.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<SeasonWithWatches[]>} Seasons and episodes, `watchedAt` always null for anonymous users
+   */
+  async listSeasons(mediaId: string, userId?: string): Promise<SeasonWithWatches[]> {
+    const seasons = await prisma.season.findMany({
+      where: { mediaId },
+      orderBy: { number: 'asc' },
+      include: {
+        episodes: {
+          orderBy: { number: 'asc' },
+          include: { watches: { where: { userId: userId ?? '' }, select: { watchedAt: true } } },
+        },
+      },
+    });
+
+    return seasons.map((season) => ({
+      ...season,
+      episodes: season.episodes.map(({ watches, ...episode }) => ({ ...episode, watchedAt: watches[0]?.watchedAt ?? null })),
+    }));
+  },
+
+  /**
+   * Add a season to a series, optionally with its episodes.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {SeasonInput} data Season number, title, air date and episodes
+   * @returns {Promise<SeasonWithEpisodes>} The created season with its episodes
+   * @throws AppError 400 if the media is not a series or episode numbers repeat, 409 if the season number is taken
+   */
+  async createSeason(mediaId: string, data: SeasonInput): Promise<SeasonWithEpisodes> {
+    await this.requireSeries(mediaId);
+    const { episodes = [], ...season } = data;
+    this.assertDistinctNumbers(episodes);
+
+    const existing = await prisma.season.findUnique({
+      where: { mediaId_number: { mediaId, number: season.number } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError(`Season ${season.number} already exists`, 409);
+    }
+
+    return prisma.season.create({
+      data: { ...season, mediaId, episodes: { create: episodes } },
+      include: seasonInclude,
+    });
+  },
+
+  /**
+   * Update the number, title or air date of a season.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} seasonId Season ID
+   * @param {Partial<Omit<SeasonInput, 'episodes'>>} data Fields to update
+   * @returns {Promise<SeasonWithEpisodes>} The updated season with its episodes
+   * @throws AppError 404 if the series has no such season, 409 if the new number is taken
+   */
+  async updateSeason(
+    mediaId: string,
+    seasonId: string,
+    data: Partial<Omit<SeasonInput, 'episodes'>>
+  ): Promise<SeasonWithEpisodes> {
+    const season = await this.requireSeason(mediaId, seasonId);
+    if (data.number !== undefined && data.number !== season.number) {
+      const existing = await prisma.season.findUnique({
+        where: { mediaId_number: { mediaId, number: data.number } },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new AppError(`Season ${data.number} already exists`, 409);
+      }
+    }
+
+    return prisma.season.update({ where: { id: seasonId }, data, include: seasonInclude });
+  },
+
+  /**
+   * Delete a season with its episodes and watch markers.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} seasonId Season ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the series has no such season
+   */
+  async deleteSeason(mediaId: string, seasonId: string): Promise<void> {
+    await this.requireSeason(mediaId, seasonId);
+    await prisma.season.delete({ where: { id: seasonId } });
+  },
+
+  /**
+   * Add an episode to a season.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} seasonId Season ID
+   * @param {EpisodeInput} data Episode number, title, air date and runtime
+   * @returns {Promise<Episode>} The created episode
+   * @throws AppError 404 if the series has no such season, 409 if the episode number is taken
+   */
+  async createEpisode(mediaId: string, seasonId: string, data: EpisodeInput): Promise<Episode> {
+    await this.requireSeason(mediaId, seasonId);
+    await this.assertEpisodeNumberAvailable(seasonId, data.number);
+    return prisma.episode.create({ data: { ...data, seasonId } });
+  },
+
+  /**
+   * Update an episode.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} episodeId Episode ID
+   * @param {Partial<EpisodeInput>} data Fields to update
+   * @returns {Promise<Episode>} The updated episode
+   * @throws AppError 404 if the series has no such episode, 409 if the new number is taken
+   */
+  async updateEpisode(mediaId: string, episodeId: string, data: Partial<EpisodeInput>): Promise<Episode> {
+    const episode = await this.requireEpisode(mediaId, episodeId);
+    if (data.number !== undefined && data.number !== episode.number) {
+      await this.assertEpisodeNumberAvailable(episode.seasonId, data.number);
+    }
+    return prisma.episode.update({ where: { id: episodeId }, data });
+  },
+
+  /**
+   * Delete an episode with its watch markers.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} episodeId Episode ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the series has no such episode
+   */
+  async deleteEpisode(mediaId: string, episodeId: string): Promise<void> {
+    await this.requireEpisode(mediaId, episodeId);
+    await prisma.episode.delete({ where: { id: episodeId } });
+  },
+
+  /**
+   * Mark an episode as watched, and optionally every episode before it, then roll the markers up
+   * into the user's library entry for the series.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @param {string} episodeId Episode ID
+   * @param {{ includePrevious?: boolean; watchedAt?: Date }} options Also mark the previous episodes, watch time (now by default)
+   * @returns {Promise<SeriesProgress>} The progress of the user in the series
+   * @throws AppError 404 if the series has no such episode
+   */
+  async markWatched(
+    userId: string,
+    mediaId: string,
+    episodeId: string,
+    options: { includePrevious?: boolean; watchedAt?: Date } = {}
+  ): Promise<SeriesProgress> {
+    await this.requireEpisode(mediaId, episodeId);
+    const episodes = await this.listEpisodesInOrder(mediaId);
+    const index = episodes.findIndex((episode) => episode.id === episodeId);
+    const marked = options.includePrevious ? episodes.slice(0, index + 1) : [episodes[index]!];
+    const watchedAt = options.watchedAt ?? new Date();
+
+    await prisma.$transaction(marked.map((episode) => prisma.episodeWatch.upsert({
+      where: { userId_episodeId: { userId, episodeId: episode.id } },
+      create: { userId, episodeId: episode.id, watchedAt },
+      // Previous episodes keep their original watch time
+      update: episode.id === episodeId ? { watchedAt } : {},
+    })));
+
+    return this.syncLibrary(userId, mediaId);
+  },
+
+  /**
+   * Remove the watched marker of an episode, then roll the markers up into the user's library entry.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @param {string} episodeId Episode ID
+   * @returns {Promise<SeriesProgress>} The progress of the user in the series
+   * @throws AppError 404 if the series has no such episode
+   */
+  async unmarkWatched(userId: string, mediaId: string, episodeId: string): Promise<SeriesProgress> {
+    await this.requireEpisode(mediaId, episodeId);
+    await prisma.episodeWatch.deleteMany({ where: { userId, episodeId } });
+    return this.syncLibrary(userId, mediaId);
+  },
+
+  /**
+   * Compute the progress of a user in a series from their episode markers.
+   * The next episode is the first unwatched one after the furthest watched episode, or the first
+   * unwatched one when every later episode is watched; it may not have aired yet.
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @returns {Promise<SeriesProgress | null>} The progress, or null when the series has no episodes
+   */
+  async getProgress(userId: string, mediaId: string): Promise<SeriesProgress | null> {
+    const episodes = await this.listEpisodesInOrder(mediaId, userId);
+    if (episodes.length === 0) {
+      return null;
+    }
+
+    const watched = episodes.filter((episode) => episode.watched);
+    const furthest = episodes.findLastIndex((episode) => episode.watched);
+    const next = episodes.slice(furthest + 1).find((episode) => !episode.watched)
+      ?? episodes.find((episode) => !episode.watched);
+    const last = episodes[furthest];
+
+    return {
+      watchedEpisodes: watched.length,
+      totalEpisodes: episodes.length,
+      percent: Math.floor((watched.length * 100) / episodes.length),
+      lastWatched: last ? { ...this.toEpisode(last), seasonNumber: last.seasonNumber } : null,
+      nextEpisode: next ? { ...this.toEpisode(next), seasonNumber: next.seasonNumber } : null,
+    };
+  },
+
+  /**
+   * Roll the episode markers of a user up into their library entry: season and episode point to the
+   * furthest watched episode, the series is IN_PROGRESS once an episode is watched and COMPLETED when
+   * all are. A completed series is not moved back when a marker is removed.
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @returns {Promise<SeriesProgress>} The progress of the user in the series
+   */
+  async syncLibrary(userId: string, mediaId: string): Promise<SeriesProgress> {
+    const progress = (await this.getProgress(userId, mediaId))!;
+    const entry = await prisma.userMedia.findUnique({
+      where: { userId_mediaId: { userId, mediaId } },
+      select: { status: true },
+    });
+
+    const last = progress.lastWatched;
+    if (!last && !entry) {
+      return progress;
+    }
+
+    let status: WatchStatus | undefined;
+    if (progress.watchedEpisodes === progress.totalEpisodes) {
+      status = WatchStatus.COMPLETED;
+    } else if (last && entry?.status !== WatchStatus.COMPLETED) {
+      status = WatchStatus.IN_PROGRESS;
+    }
+
+    await libraryService.upsertEntry(userId, mediaId, {
+      status,
+      season: last?.seasonNumber ?? null,
+      episode: last?.number ?? null,
+    });
+    return progress;
+  },
+
+  /**
+   * List the episodes of a series in watching order, with their season number and whether the user watched them
+   */
+  async listEpisodesInOrder(
+    mediaId: string,
+    userId?: string
+  ): Promise<(Episode & { seasonNumber: number; watched: boolean })[]> {
+    const episodes = await prisma.episode.findMany({
+      where: { season: { mediaId } },
+      orderBy: [{ season: { number: 'asc' } }, { number: 'asc' }],
+      include: {
+        season: { select: { number: true } },
+        watches: { where: { userId: userId ?? '' }, select: { id: true } },
+      },
+    });
+
+    return episodes.map(({ season, watches, ...episode }) => ({
+      ...episode,
+      seasonNumber: season.number,
+      watched: watches.length > 0,
+    }));
+  },
+
+  /**
+   * Strip the computed fields of an episode listed in watching order
+   */
+  toEpisode(episode: Episode & { seasonNumber: number; watched: boolean }): Episode {
+    const { seasonNumber: _seasonNumber, watched: _watched, ...rest } = episode;
+    return rest;
+  },
+
+  /**
+   * Move the seasons and episodes of duplicates merged into a series, within the merge transaction.
+   * Seasons and episodes are matched by number: unmatched ones move to the target with their watch
+   * markers, the markers of matched ones move to the target's episode unless the user already watched it.
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} targetId Media ID kept by the merge
+   * @param {string[]} duplicateIds Media IDs merged into it, deleted afterwards
+   * @returns {Promise<void>}
+   */
+  async mergeSeasons(tx: Prisma.TransactionClient, targetId: string, duplicateIds: string[]): Promise<void> {
+    const targetSeasons = new Map(
+      (await tx.season.findMany({ where: { mediaId: targetId }, include: { episodes: true } }))
+        .map((season) => [season.number, season])
+    );
+    const seasons = await tx.season.findMany({
+      where: { mediaId: { in: duplicateIds } },
+      orderBy: { number: 'asc' },
+      include: { episodes: true },
+    });
+
+    for (const season of seasons) {
+      const targetSeason = targetSeasons.get(season.number);
+      if (!targetSeason) {
+        targetSeasons.set(season.number, await tx.season.update({
+          where: { id: season.id },
+          data: { mediaId: targetId },
+          include: { episodes: true },
+        }));
+        continue;
+      }
+
+      for (const episode of season.episodes) {
+        const match = targetSeason.episodes.find((candidate) => candidate.number === episode.number);
+        if (!match) {
+          targetSeason.episodes.push(await tx.episode.update({ where: { id: episode.id }, data: { seasonId: targetSeason.id } }));
+          continue;
+        }
+        const watchers = await tx.episodeWatch.findMany({ where: { episodeId: match.id }, select: { userId: true } });
+        await tx.episodeWatch.updateMany({
+          where: { episodeId: episode.id, userId: { notIn: watchers.map((watch) => watch.userId) } },
+          data: { episodeId: match.id },
+        });
+      }
+    }
+  },
+
+  /**
+   * Ensure a media exists and is a series
+   * @throws AppError 404 if the media does not exist, 400 if it is not a series
+   */
+  async requireSeries(mediaId: string): Promise<void> {
+    const media = await prisma.media.findUnique({ where: { id: mediaId }, select: { type: true } });
+    if (!media) {
+      throw new AppError('Media not found', 404);
+    }
+    if (media.type !== MediaType.SERIES) {
+      throw new AppError('Only SERIES media have seasons and episodes', 400);
+    }
+  },
+
+  /**
+   * Get a season of a series
+   * @throws AppError 404 if the series has no such season
+   */
+  async requireSeason(mediaId: string, seasonId: string): Promise<Season> {
+    const season = await prisma.season.findFirst({ where: { id: seasonId, mediaId } });
+    if (!season) {
+      throw new AppError('Season not found', 404);
+    }
+    return season;
+  },
+
+  /**
+   * Get an episode of a series
+   * @throws AppError 404 if the series has no such episode
+   */
+  async requireEpisode(mediaId: string, episodeId: string): Promise<Episode> {
+    const episode = await prisma.episode.findFirst({ where: { id: episodeId, season: { mediaId } } });
+    if (!episode) {
+      throw new AppError('Episode not found', 404);
+    }
+    return episode;
+  },
+
+  /**
+   * Ensure a season has no episode with the given number
+   * @throws AppError 409 if the number is taken
+   */
+  async assertEpisodeNumberAvailable(seasonId: string, number: number): Promise<void> {
+    const existing = await prisma.episode.findUnique({
+      where: { seasonId_number: { seasonId, number } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError(`Episode ${number} already exists in this season`, 409);
+    }
+  },
+
+  /**
+   * Ensure episodes created together have distinct numbers
+   * @throws AppError 400 if a number repeats
+   */
+  assertDistinctNumbers(episodes: EpisodeInput[]): void {
+    const numbers = episodes.map((episode) => episode.number);
+    const repeated = numbers.find((number, index) => numbers.indexOf(number) !== index);
+    if (repeated !== undefined) {
+      throw new AppError(`Episode ${repeated} is listed twice`, 400);
+    }
+  },
+};
@@ -0,0 +1,96 @@
+import prisma from "@/db";
+import type { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import type { FacetCount, MediaFacet, MediaFacets } from "@/types/types";
+
+/** Facets available on media listings */
+export const MEDIA_FACETS = ['type', 'tags', 'platforms', 'year'] as const satisfies readonly MediaFacet[];
+
+/** Maximum number of values returned for the tags and platforms facets, most frequent first */
+export const MAX_FACET_VALUES = 50;
+
+export const facetService = {
+  /**
+   * Parse the comma-separated facets requested on a listing
+   * @param {string} facets Requested facets, e.g. `type,platforms`
+   * @returns {MediaFacet[]} The distinct requested facets
+   * @throws AppError 400 if a facet is unknown
+   */
+  parseMediaFacets(facets: string): MediaFacet[] {
+    const names = [...new Set(facets.split(',').map((name) => name.trim()).filter(Boolean))];
+    const unknown = names.filter((name) => !(MEDIA_FACETS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown facet '${unknown[0]}', expected one of ${MEDIA_FACETS.join(', ')}`, 400);
+    }
+    return names as MediaFacet[];
+  },
+
+  /**
+   * Count the media of a listing by type, tag, platform and/or release year.
+   * The counts cover every media matching the where clause, not only the current page, so the
+   * clause must include access control for private media to stay out of the counts.
+   * @param {Prisma.MediaWhereInput} where Filters and access control of the listing
+   * @param {MediaFacet[]} facets Requested facets
+   * @param {Prisma.TransactionClient} client Transaction client (optional)
+   * @returns {Promise<MediaFacets>} Counts of each requested facet, most frequent values first
+   * (latest years first for `year`), media without release date left out of `year`
+   */
+  async countMedia(
+    where: Prisma.MediaWhereInput,
+    facets: MediaFacet[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<MediaFacets> {
+    const result: MediaFacets = {};
+    const wanted = new Set(facets);
+
+    const [types, rows] = await Promise.all([
+      wanted.has('type')
+        ? client.media.groupBy({ by: ['type'], where, _count: { _all: true } })
+        : Promise.resolve([]),
+      wanted.has('tags') || wanted.has('platforms') || wanted.has('year')
+        ? client.media.findMany({
+          where,
+          select: { tags: wanted.has('tags'), platforms: wanted.has('platforms'), releaseDate: wanted.has('year') },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    if (wanted.has('type')) {
+      result.type = this.sortCounts(new Map(types.map((group) => [group.type as string, group._count._all])));
+    }
+    if (wanted.has('tags')) {
+      result.tags = this.sortCounts(this.countValues(rows.map((row) => row.tags ?? []))).slice(0, MAX_FACET_VALUES);
+    }
+    if (wanted.has('platforms')) {
+      result.platforms = this.sortCounts(this.countValues(rows.map((row) => row.platforms ?? []))).slice(0, MAX_FACET_VALUES);
+    }
+    if (wanted.has('year')) {
+      const years = this.countValues(rows.map((row) => (row.releaseDate ? [row.releaseDate.getUTCFullYear().toString()] : [])));
+      result.year = [...years].map(([value, count]) => ({ value, count })).sort((a, b) => b.value.localeCompare(a.value));
+    }
+
+    return result;
+  },
+
+  /**
+   * Count how many rows hold each value, a value counting once per row
+   */
+  countValues(values: string[][]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const rowValues of values) {
+      for (const value of new Set(rowValues)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+    return counts;
+  },
+
+  /**
+   * Order counts from the most to the least frequent value, ties by value
+   */
+  sortCounts(counts: Map<string, number>): FacetCount[] {
+    return [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  },
+};
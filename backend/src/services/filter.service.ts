@@ -0,0 +1,349 @@
+import prisma from "@/db";
+import { MediaType, WatchStatus } from "@/generated/prisma/browser";
+import type { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { libraryService } from "@/services/library.service";
+import { platformService } from "@/services/platform.service";
+import { scoreService } from "@/services/score.service";
+import { tagService } from "@/services/tag.service";
+import type { MediaWhereClause, TagsMode } from "@/types/types";
+
+/** Limits keeping title regexes cheap to evaluate */
+export const MAX_REGEX_LENGTH = 100;
+const MAX_REGEX_QUANTIFIERS = 10;
+const MAX_REGEX_REPEAT = 100;
+const REGEX_TIMEOUT_MS = 1000;
+
+/** Limits of filter expressions */
+export const MAX_EXPRESSION_LENGTH = 500;
+const MAX_EXPRESSION_TERMS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A term of a filter expression: optional `-`, optional `field:`, then a bare or double-quoted value */
+const TERM_PATTERN = /\s*(-)?(?:([a-zA-Z]+):)?(?:"([^"]*)"|([^\s"]+))\s*/y;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.+)$/;
+
+type Comparison = { operator: '>=' | '<=' | '>' | '<' | '='; value: string };
+
+export const filterService = {
+  /**
+   * Build the where fragment of a tag filter, tags being normalized like stored ones
+   * @param {string[]} tags Filtered tags
+   * @param {TagsMode} mode `any` matches media with one of the tags, `all` with every tag, `none` without any of them
+   * @returns {Prisma.MediaWhereInput} Where fragment to combine with other media filters
+   */
+  tagsWhere(tags: string[], mode: TagsMode = 'any'): Prisma.MediaWhereInput {
+    const normalized = tagService.normalizeAll(tags);
+    if (mode === 'all') {
+      return { tags: { hasEvery: normalized } };
+    }
+    if (mode === 'none') {
+      return { NOT: { tags: { hasSome: normalized } } };
+    }
+    return { tags: { hasSome: normalized } };
+  },
+
+  /**
+   * Build the where fragment of a range of days, both days included
+   * @param {'releaseDate' | 'createdAt'} field Filtered date field
+   * @param {string | undefined} from First day, YYYY-MM-DD
+   * @param {string | undefined} to Last day, YYYY-MM-DD
+   * @returns {Prisma.MediaWhereInput | null} Where fragment, or null without bounds
+   * @throws AppError 400 if the first day is after the last one
+   */
+  dateRangeWhere(field: 'releaseDate' | 'createdAt', from?: string, to?: string): Prisma.MediaWhereInput | null {
+    if (!from && !to) {
+      return null;
+    }
+    if (from && to && from > to) {
+      throw new AppError(`Invalid ${field} range, the start is after the end`, 400);
+    }
+    const filter: Prisma.DateTimeFilter = {};
+    if (from) filter.gte = new Date(`${from}T00:00:00.000Z`);
+    if (to) filter.lt = new Date(new Date(`${to}T00:00:00.000Z`).getTime() + DAY_MS);
+    return { [field]: filter };
+  },
+
+  /**
+   * Check the filters of a stored query, such as the rules of a smart collection, without running it.
+   * Invalid filters are then rejected when saved rather than each time they are listed.
+   * @param {MediaWhereClause} filters Media filters
+   * @param {string | undefined} userId User the filters are evaluated for, required by `status:` terms
+   * @throws AppError 400 if a filter is invalid
+   */
+  validateFilters(filters: MediaWhereClause, userId?: string): void {
+    if (filters.titleRegex) {
+      this.assertSafeRegex(filters.titleRegex);
+    }
+    if (filters.filter) {
+      this.parseExpression(filters.filter, userId);
+    }
+    if (filters.minScore) {
+      scoreService.parseMinScore(filters.minScore);
+    }
+    this.dateRangeWhere('releaseDate', filters.releasedFrom, filters.releasedTo);
+    this.dateRangeWhere('createdAt', filters.createdFrom, filters.createdTo);
+  },
+
+  /**
+   * Reject title regexes that are invalid or could be expensive: too long, with backreferences or
+   * lookarounds, with a quantified group that contains a quantifier such as `(a+)+`, with too many
+   * quantifiers or with large repetition counts.
+   * @param {string} pattern Regular expression
+   * @throws AppError 400 if the regex is invalid or exceeds the limits
+   */
+  assertSafeRegex(pattern: string): void {
+    const reject = (reason: string) => {
+      throw new AppError(`Invalid titleRegex: ${reason}`, 400);
+    };
+
+    if (pattern.length === 0 || pattern.length > MAX_REGEX_LENGTH) {
+      reject(`must be between 1 and ${MAX_REGEX_LENGTH} characters`);
+    }
+    if (/\\[1-9]|\(\?[=!<]/.test(pattern)) {
+      reject('backreferences and lookarounds are not supported');
+    }
+    try {
+      new RegExp(pattern);
+    } catch {
+      reject('syntax error');
+    }
+
+    // One flag per open group, set when the group contains a quantifier
+    const groups: boolean[] = [false];
+    let quantifiers = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i]!;
+      if (char === '\\') {
+        i++;
+      } else if (char === '[') {
+        i++;
+        if (pattern[i] === '^') i++;
+        if (pattern[i] === ']') i++;
+        while (i < pattern.length && pattern[i] !== ']') {
+          if (pattern[i] === '\\') i++;
+          i++;
+        }
+      } else if (char === '(') {
+        groups.push(false);
+      } else if (char === ')') {
+        const quantifiedInside = groups.pop();
+        if (quantifiedInside && /^(?:[*+]|\{\d)/.test(pattern.slice(i + 1))) {
+          reject('nested quantifiers are not supported');
+        }
+        if (quantifiedInside) groups[groups.length - 1] = true;
+      } else if (char === '*' || char === '+' || char === '?' || char === '{') {
+        if (char === '?' && /[*+?}]/.test(pattern[i - 1] ?? '')) {
+          continue; // Lazy modifier of the previous quantifier
+        }
+        if (char === '{') {
+          const repeat = /^\{(\d+)(?:,(\d*))?\}/.exec(pattern.slice(i));
+          if (!repeat) continue; // Literal brace
+          if (Number(repeat[1]) > MAX_REGEX_REPEAT || Number(repeat[2] || 0) > MAX_REGEX_REPEAT) {
+            reject(`repetition counts are limited to ${MAX_REGEX_REPEAT}`);
+          }
+          i += repeat[0].length - 1;
+        }
+        quantifiers++;
+        groups[groups.length - 1] = true;
+      }
+    }
+
+    if (quantifiers > MAX_REGEX_QUANTIFIERS) {
+      reject(`at most ${MAX_REGEX_QUANTIFIERS} quantifiers are supported`);
+    }
+  },
+
+  /**
+   * Run the queries of a listing with a title regex: the regex is checked with `assertSafeRegex`,
+   * set for the transaction the queries run in, and matched by `titleRegexWhere` within them.
+   * The queries are evaluated by Postgres under a statement timeout.
+   * @param {string | undefined} pattern Regular expression, the queries run outside of a transaction without it
+   * @param {(client: Prisma.TransactionClient) => Promise<T>} run Queries of the listing
+   * @returns {Promise<T>} The result of the queries
+   * @throws AppError 400 if the regex is rejected, invalid for Postgres or too slow to evaluate
+   */
+  async withTitleRegex<T>(pattern: string | undefined, run: (client: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    if (!pattern) {
+      return run(prisma);
+    }
+    this.assertSafeRegex(pattern);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT set_config('statement_timeout', ${String(REGEX_TIMEOUT_MS)}, true)`;
+        await tx.$queryRaw`SELECT set_config('app.title_regex', ${pattern}, true)`;
+        return run(tx);
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('regular expression')) {
+        throw new AppError('Invalid titleRegex: syntax error', 400, error);
+      }
+      if (message.includes('statement timeout')) {
+        throw new AppError('titleRegex is too expensive to evaluate', 400, error);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Build a Prisma where fragment matching the media whose title matches the regex of the
+   * surrounding `withTitleRegex` transaction, ignoring case
+   * @returns {Prisma.MediaWhereInput} Where fragment to combine with other media filters
+   */
+  titleRegexWhere(): Prisma.MediaWhereInput {
+    return { titleMatch: { isNot: null } };
+  },
+
+  /**
+   * Parse a filter expression into a where clause. Terms are separated by spaces and all must match;
+   * a `-` prefix excludes the matching media. Values with spaces are double-quoted.
+   *
+   * - `type:FILM`, `tag:sci-fi`, `platform:Netflix`, `status:COMPLETED` (authenticated users only)
+   * - `director:nolan` (alias `author:`), `title:dune` and bare words match part of the text, ignoring case
+   * - `year:2010`, `year:>=2010`, `year:2010..2015` on the release year
+   * - `released:<2000-01-01`, `created:>=2024-06-01` on dates, `rating:>=8` on the average user rating
+   *
+   * @param {string} expression Filter expression, e.g. `type:FILM tag:sci-fi year:>=2010 -tag:horror`
+   * @param {string | undefined} userId Authenticated user ID, required by `status:`
+   * @returns {Prisma.MediaWhereInput} Prisma where clause for filtering media entries
+   * @throws AppError 400 if the expression is invalid, 401 if it filters on status without authentication
+   */
+  parseExpression(expression: string, userId?: string): Prisma.MediaWhereInput {
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new AppError(`Filter expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`, 400);
+    }
+
+    const conditions: Prisma.MediaWhereInput[] = [];
+    TERM_PATTERN.lastIndex = 0;
+    while (TERM_PATTERN.lastIndex < expression.length) {
+      const start = TERM_PATTERN.lastIndex;
+      const match = TERM_PATTERN.exec(expression);
+      if (!match) {
+        if (expression.slice(start).trim() === '') break;
+        throw new AppError(`Invalid filter expression near '${expression.slice(start, start + 20).trim()}'`, 400);
+      }
+
+      const [term, negated, field, quoted, bare] = match;
+      const condition = this.parseTerm(field?.toLowerCase(), (quoted ?? bare)!, term.trim(), userId);
+      conditions.push(negated ? { NOT: condition } : condition);
+    }
+
+    if (conditions.length > MAX_EXPRESSION_TERMS) {
+      throw new AppError(`Filter expressions are limited to ${MAX_EXPRESSION_TERMS} terms`, 400);
+    }
+    return conditions.length > 0 ? { AND: conditions } : {};
+  },
+
+  /**
+   * Build the where fragment of a single filter expression term
+   */
+  parseTerm(field: string | undefined, value: string, term: string, userId?: string): Prisma.MediaWhereInput {
+    const invalid = (reason: string) => new AppError(`Invalid filter term '${term}': ${reason}`, 400);
+    if (value === '') {
+      throw invalid('empty value');
+    }
+
+    switch (field) {
+      case undefined:
+      case 'title':
+        return { title: { contains: value, mode: 'insensitive' } };
+      case 'director':
+      case 'author':
+        return { directorAuthor: { contains: value, mode: 'insensitive' } };
+      case 'tag':
+        return { tags: { has: tagService.normalize(value) } };
+      case 'platform':
+        return platformService.namesWhere([value]);
+      case 'type': {
+        const type = value.toUpperCase();
+        if (!(type in MediaType)) {
+          throw invalid(`type must be one of ${Object.values(MediaType).join(', ')}`);
+        }
+        return { type: type as MediaType };
+      }
+      case 'status': {
+        const status = value.toUpperCase();
+        if (!(status in WatchStatus)) {
+          throw invalid(`status must be one of ${Object.values(WatchStatus).join(', ')}`);
+        }
+        if (!userId) {
+          throw new AppError('Filtering on status requires authentication', 401);
+        }
+        return libraryService.statusWhere(userId, status as WatchStatus);
+      }
+      case 'year':
+        return { releaseDate: this.parseYear(value, invalid) };
+      case 'released':
+        return { releaseDate: this.compareDates(this.parseComparison(value), invalid) };
+      case 'created':
+        return { createdAt: this.compareDates(this.parseComparison(value), invalid) };
+      case 'rating': {
+        const { operator, value: raw } = this.parseComparison(value);
+        const rating = Number(raw);
+        if (Number.isNaN(rating)) {
+          throw invalid('rating must be a number');
+        }
+        const operators = { '>=': 'gte', '<=': 'lte', '>': 'gt', '<': 'lt', '=': 'equals' } as const;
+        return { ratingAverage: { [operators[operator]]: rating } };
+      }
+      default:
+        throw invalid(`unknown field, expected one of title, director, author, tag, platform, type, status, year, released, created, rating`);
+    }
+  },
+
+  /**
+   * Split a value into its comparison operator, `=` by default, and operand
+   */
+  parseComparison(value: string): Comparison {
+    const [, operator = '=', operand = ''] = COMPARISON_PATTERN.exec(value) ?? [];
+    return { operator: operator as Comparison['operator'], value: operand };
+  },
+
+  /**
+   * Build a release date filter from a year, a compared year or a `from..to` range of years
+   */
+  parseYear(value: string, invalid: (reason: string) => AppError): Prisma.DateTimeNullableFilter {
+    const yearStart = (year: string) => {
+      if (!/^\d{4}$/.test(year)) {
+        throw invalid('years have 4 digits');
+      }
+      return new Date(Date.UTC(Number(year), 0, 1));
+    };
+    const nextYearStart = (year: string) => new Date(Date.UTC(yearStart(year).getUTCFullYear() + 1, 0, 1));
+
+    const range = /^(\d+)\.\.(\d+)$/.exec(value);
+    if (range) {
+      return { gte: yearStart(range[1]!), lt: nextYearStart(range[2]!) };
+    }
+
+    const { operator, value: year } = this.parseComparison(value);
+    switch (operator) {
+      case '>=': return { gte: yearStart(year) };
+      case '>': return { gte: nextYearStart(year) };
+      case '<=': return { lt: nextYearStart(year) };
+      case '<': return { lt: yearStart(year) };
+      default: return { gte: yearStart(year), lt: nextYearStart(year) };
+    }
+  },
+
+  /**
+   * Build a date filter from a compared ISO date; `=` matches the whole day
+   */
+  compareDates(comparison: Comparison, invalid: (reason: string) => AppError): Prisma.DateTimeFilter {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(comparison.value) || Number.isNaN(Date.parse(comparison.value))) {
+      throw invalid('dates use the YYYY-MM-DD format');
+    }
+    const day = new Date(`${comparison.value}T00:00:00.000Z`);
+    const nextDay = new Date(day.getTime() + DAY_MS);
+    switch (comparison.operator) {
+      case '>=': return { gte: day };
+      case '>': return { gte: nextDay };
+      case '<=': return { lt: nextDay };
+      case '<': return { lt: day };
+      default: return { gte: day, lt: nextDay };
+    }
+  },
+};
@@ -0,0 +1,394 @@
+import prisma from "@/db";
+import type { Priority } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { createMediaSchema } from "@/schemas/media.schema";
+import { importItemSchema } from "@/schemas/transfer.schema";
+import { catalogService } from "@/services/catalog.service";
+import { collectionService } from "@/services/collection.service";
+import { csvService, type CsvRecord } from "@/services/csv.service";
+import { detailsService } from "@/services/details.service";
+import { mediaService } from "@/services/media.service";
+import type { ImportFormat, ImportOptions, ImportResult, ImportRowResult, MediaCreateData } from "@/types/types";
+
+/** Maximum number of rows in an imported file */
+export const MAX_IMPORT_ROWS = 2000;
+
+/** Goodreads shelves every book is on, not kept as tags */
+const GOODREADS_EXCLUSIVE_SHELVES = ['read', 'to-read', 'currently-reading'];
+
+/** IMDb title types imported as FILM and SERIES, the others are imported as OTHER */
+const IMDB_FILM_TYPES = ['movie', 'short', 'tvmovie', 'tvshort', 'tvspecial', 'video'];
+const IMDB_SERIES_TYPES = ['tvseries', 'tvminiseries'];
+
+/** A row of an imported file, mapped to the fields of a media and its collection item */
+type ImportRow = {
+  row: number;
+  input: Record<string, unknown>;
+  position?: number;
+};
+
+export const importService = {
+  /**
+   * Import media into a collection from a file exported by this API (CSV or JSON) or by Letterboxd,
+   * Goodreads or IMDb. Rows are validated one by one and matched against the catalog: a row matching
+   * an existing media (same external ID, or same type, title, release year and director/author) is
+   * attached, skipped or created anyway depending on `onDuplicate`, and rows repeating an earlier
+   * row are skipped. Valid rows are imported even when others fail, in the order of their position
+   * (file order when there is none), after the current items.
+   * Requires `collection:manageMedia` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {{ name: string; text: string }} file Name and content of the uploaded file
+   * @param {ImportOptions} options Format (detected when omitted), dry run and duplicate handling
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<ImportResult>} The outcome of every row, or the planned actions for a dry run
+   * @throws AppError 400 if the file cannot be parsed or has too many rows, 409 for a smart collection
+   */
+  async importCollection(
+    collectionId: string,
+    file: { name: string; text: string },
+    options: ImportOptions,
+    userId: string
+  ): Promise<ImportResult> {
+    if (await collectionService.getRules(collectionId)) {
+      throw new AppError('The media of a smart collection are defined by its rules', 409);
+    }
+
+    const format = options.format ?? this.detectFormat(file.name, file.text);
+    const rows = this.parseRows(format, file.text);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new AppError(`An import is limited to ${MAX_IMPORT_ROWS} rows`, 400);
+    }
+    rows.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity));
+
+    const items = await prisma.collectionMedia.findMany({ where: { collectionId }, select: { mediaId: true } });
+    const inCollection = new Set(items.map((item) => item.mediaId));
+    // Catalog keys and external IDs of the rows already handled, with their row number
+    const seen = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+
+    for (const { row, input } of rows) {
+      const result: ImportRowResult = {
+        row,
+        status: 'error',
+        title: typeof input.title === 'string' ? input.title : null,
+        mediaId: null,
+        duplicateOfRow: null,
+        errors: [],
+      };
+      results.push(result);
+
+      const media = createMediaSchema.safeParse(input);
+      const item = importItemSchema.safeParse(input);
+      if (!media.success || !item.success) {
+        result.errors = [...(media.error?.issues ?? []), ...(item.error?.issues ?? [])]
+          .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+        continue;
+      }
+      const { collectionId: _collectionId, onDuplicate: _onDuplicate, ...data } = media.data;
+
+      const keys = [
+        catalogService.buildCatalogKey(data),
+        ...Object.entries(data.externalIds ?? {}).map(([provider, value]) => `${provider}:${value}`),
+      ];
+      const earlierRow = keys.map((key) => seen.get(key)).find((value) => value !== undefined);
+      if (earlierRow !== undefined) {
+        Object.assign(result, { status: 'skip', duplicateOfRow: earlierRow, errors: [`Same media as row ${earlierRow}`] });
+        continue;
+      }
+      keys.forEach((key) => seen.set(key, row));
+
+      const canonical = options.onDuplicate === 'create' ? null : await catalogService.findCanonical(data, userId);
+      if (canonical && (inCollection.has(canonical.id) || options.onDuplicate === 'skip')) {
+        const reason = inCollection.has(canonical.id) ? 'Already in the collection' : 'Already in the catalog';
+        Object.assign(result, { status: 'skip', mediaId: canonical.id, errors: [reason] });
+        continue;
+      }
+
+      result.status = canonical ? 'attach' : 'create';
+      result.mediaId = canonical?.id ?? null;
+      if (options.dryRun) {
+        continue;
+      }
+
+      try {
+        result.mediaId = canonical
+          ? (await collectionService.addMedia(collectionId, canonical.id, userId, item.data)).mediaId
+          : await this.createItem(collectionId, data, item.data, userId);
+        inCollection.add(result.mediaId);
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          console.error('Error importing row:', error);
+        }
+        result.status = 'error';
+        result.errors = [error instanceof AppError ? error.message : 'Failed to import the row'];
+      }
+    }
+
+    const count = (status: ImportRowResult['status']) => results.filter((result) => result.status === status).length;
+    return {
+      format,
+      dryRun: options.dryRun,
+      total: results.length,
+      created: count('create'),
+      attached: count('attach'),
+      skipped: count('skip'),
+      failed: count('error'),
+      rows: results,
+    };
+  },
+
+  /**
+   * Create a media at the end of the collection, its item with the imported priority and due date
+   */
+  async createItem(
+    collectionId: string,
+    data: MediaCreateData,
+    item: { priority?: Priority; dueDate?: Date },
+    userId: string
+  ): Promise<string> {
+    const result = await mediaService.createMedia(data, userId, collectionId, 'create', item);
+    if (result.status === 'duplicate') {
+      throw new AppError('Media already exists in the catalog', 409);
+    }
+    return result.media.id;
+  },
+
+  /**
+   * Guess the format of a file from its name and content: JSON, a Letterboxd, Goodreads or IMDb
+   * export recognized by its columns, or the CSV format of the export endpoint
+   * @param {string} name File name
+   * @param {string} text File content
+   * @returns {ImportFormat} The detected format
+   */
+  detectFormat(name: string, text: string): ImportFormat {
+    const start = text.replace(/^\uFEFF/, '').trimStart();
+    if (name.toLowerCase().endsWith('.json') || start.startsWith('[') || start.startsWith('{')) {
+      return 'json';
+    }
+    if (start.startsWith('Letterboxd list export')) {
+      return 'letterboxd';
+    }
+
+    const header = (start.split(/\r?\n/, 1)[0] ?? '').split(',').map((column) => column.replace(/"/g, '').trim());
+    if (header.includes('Letterboxd URI')) {
+      return 'letterboxd';
+    }
+    if (header.includes('Book Id') && header.includes('Exclusive Shelf')) {
+      return 'goodreads';
+    }
+    if (header.includes('Const') && header.includes('Title Type')) {
+      return 'imdb';
+    }
+    return 'csv';
+  },
+
+  /**
+   * Parse a file into rows mapped to media fields
+   * @throws AppError 400 if the file cannot be parsed
+   */
+  parseRows(format: ImportFormat, text: string): ImportRow[] {
+    if (format === 'json') {
+      return this.parseJson(text);
+    }
+
+    // Letterboxd lists start with a description of the list, followed by a blank line and the films
+    let body = text;
+    if (format === 'letterboxd' && text.replace(/^\uFEFF/, '').startsWith('Letterboxd list export')) {
+      const start = text.search(/^Position,/m);
+      if (start === -1) {
+        throw new AppError('Invalid Letterboxd list export', 400);
+      }
+      body = text.slice(start);
+    }
+    const records = this.toObjects(csvService.parse(body));
+    const map = {
+      csv: this.fromCsv,
+      letterboxd: this.fromLetterboxd,
+      goodreads: this.fromGoodreads,
+      imdb: this.fromImdb,
+    }[format];
+
+    return records.map(({ line, values }) => ({ row: line - 1, ...map.call(this, values) }));
+  },
+
+  /**
+   * Parse a JSON array of items, or an object listing them in `items` as exported by this API
+   * @throws AppError 400 if the file is not valid JSON or lists no items
+   */
+  parseJson(text: string): ImportRow[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch {
+      throw new AppError('Invalid JSON file', 400);
+    }
+
+    const items = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items;
+    if (!Array.isArray(items)) {
+      throw new AppError('A JSON import must be an array of items or an object with an `items` array', 400);
+    }
+
+    return items.map((item, index) => {
+      const fields = item && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : {};
+      // Exported items hold null for missing fields, which media creation expects to be omitted
+      const input = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== null));
+      return {
+        row: index + 1,
+        input,
+        position: typeof fields.position === 'number' ? fields.position : undefined,
+      };
+    });
+  },
+
+  /**
+   * Key the values of each CSV record by the column names of the header
+   * @throws AppError 400 if the file has no header
+   */
+  toObjects(records: CsvRecord[]): { line: number; values: Record<string, string> }[] {
+    const [header, ...rows] = records;
+    if (!header) {
+      throw new AppError('The file is empty', 400);
+    }
+    const columns = header.values.map((column) => column.trim());
+    return rows.map(({ line, values }) => ({
+      line,
+      values: Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])),
+    }));
+  },
+
+  /**
+   * Map a row of the CSV format of the export endpoint
+   */
+  fromCsv(values: Record<string, string>): Omit<ImportRow, 'row'> {
+    const externalIds = this.list(values.externalIds, '|').map((entry) => {
+      const separator = entry.indexOf(':');
+      return [entry.slice(0, separator), entry.slice(separator + 1)];
+    });
+    return {
+      input: {
+        title: this.text(values.title),
+        type: this.text(values.type)?.toUpperCase(),
+        releaseDate: this.date(values.releaseDate),
+        directorAuthor: this.text(values.directorAuthor),
+        description: this.text(values.description),
+        url: this.text(values.url),
+        coverUrl: this.text(values.coverUrl),
+        tags: this.list(values.tags, '|'),
+        platforms: this.list(values.platforms, '|'),
+        externalIds: externalIds.length > 0 ? Object.fromEntries(externalIds) : undefined,
+        priority: this.text(values.priority)?.toUpperCase(),
+        dueDate: this.date(values.dueDate),
+      },
+      position: this.integer(values.position),
+    };
+  },
+
+  /**
+   * Map a row of a Letterboxd export: watchlist, watched films, ratings, diary or list
+   */
+  fromLetterboxd(values: Record<string, string>): Omit<ImportRow, 'row'> {
+    const uri = this.text(values['Letterboxd URI'] ?? values.URL);
+    return {
+      input: {
+        title: this.text(values.Name),
+        type: 'FILM',
+        releaseDate: this.date(undefined, values.Year),
+        url: uri,
+        externalIds: uri ? { letterboxd: uri.replace(/\/+$/, '').split('/').pop() } : undefined,
+      },
+      position: this.integer(values.Position),
+    };
+  },
+
+  /**
+   * Map a row of a Goodreads library export. ISBNs that fail their checksum are left out.
+   */
+  fromGoodreads(values: Record<string, string>): Omit<ImportRow, 'row'> {
+    // Goodreads writes ISBNs as ="0345339681" so spreadsheets keep the leading zeros
+    const isbn = [values.ISBN13, values.ISBN]
+      .map((value) => value?.replace(/^="?|"$/g, '') ?? '')
+      .map((value) => (value ? detailsService.normalizeIsbn(value) : null))
+      .find(Boolean);
+    const authors = [this.text(values.Author), ...this.list(values['Additional Authors'], ',')]
+      .filter((name): name is string => Boolean(name));
+    const bookId = this.text(values['Book Id']);
+
+    return {
+      input: {
+        title: this.text(values.Title),
+        type: 'BOOK',
+        releaseDate: this.date(undefined, values['Original Publication Year'] || values['Year Published']),
+        directorAuthor: authors.join(', ').slice(0, 200) || undefined,
+        tags: this.list(values.Bookshelves, ',').filter((shelf) => !GOODREADS_EXCLUSIVE_SHELVES.includes(shelf)),
+        externalIds: bookId ? { goodreads: bookId } : undefined,
+        details: {
+          isbn: isbn ?? undefined,
+          publisher: this.text(values.Publisher),
+          pageCount: this.integer(values['Number of Pages']),
+          contributors: authors.length > 0 ? authors.map((name) => ({ name, role: 'author' })) : undefined,
+        },
+      },
+    };
+  },
+
+  /**
+   * Map a row of an IMDb list, watchlist or ratings export
+   */
+  fromImdb(values: Record<string, string>): Omit<ImportRow, 'row'> {
+    const titleType = (values['Title Type'] ?? '').replace(/\s+/g, '').toLowerCase();
+    const type = IMDB_FILM_TYPES.includes(titleType) ? 'FILM' : IMDB_SERIES_TYPES.includes(titleType) ? 'SERIES' : 'OTHER';
+    const id = this.text(values.Const);
+    const rating = Number.parseFloat(values['IMDb Rating'] ?? '');
+    const runtime = this.integer(values['Runtime (mins)']);
+
+    return {
+      input: {
+        title: this.text(values.Title),
+        type,
+        releaseDate: this.date(values['Release Date'], values.Year),
+        directorAuthor: this.text(values.Directors),
+        url: this.text(values.URL),
+        tags: this.list(values.Genres, ','),
+        externalIds: id ? { imdb: id } : undefined,
+        scores: Number.isNaN(rating) ? undefined : { imdb: { value: rating, votes: this.integer(values['Num Votes']) } },
+        details: type === 'FILM' && runtime ? { runtimeMinutes: runtime } : undefined,
+      },
+      position: this.integer(values.Position),
+    };
+  },
+
+  /**
+   * Trim a CSV value, undefined when blank
+   */
+  text(value: string | undefined): string | undefined {
+    return value?.trim() || undefined;
+  },
+
+  /**
+   * Split a CSV value into its trimmed, non-blank items
+   */
+  list(value: string | undefined, separator: string): string[] {
+    return (value ?? '').split(separator).map((item) => item.trim()).filter(Boolean);
+  },
+
+  /**
+   * Parse a CSV integer, undefined when blank or invalid
+   */
+  integer(value: string | undefined): number | undefined {
+    const number = Number.parseInt(value ?? '', 10);
+    return Number.isNaN(number) ? undefined : number;
+  },
+
+  /**
+   * Convert a CSV date (YYYY-MM-DD or ISO 8601) to an ISO 8601 date-time, falling back to January 1st of
+   * the year when only the year is known. Other values are kept for validation to report them.
+   */
+  date(value: string | undefined, year?: string): string | undefined {
+    const date = this.text(value);
+    if (date) {
+      return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00.000Z` : date;
+    }
+    const yearValue = this.text(year);
+    return yearValue && /^\d{4}$/.test(yearValue) ? `${yearValue}-01-01T00:00:00.000Z` : undefined;
+  },
+};
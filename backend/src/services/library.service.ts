@@ -0,0 +1,190 @@
+import prisma from "@/db";
+import { MediaType, WatchStatus } from "@/generated/prisma/browser";
+import type { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import type { LibraryEntryInput, LibraryQuery, PaginatedData } from "@/types/types";
+
+type ProgressField = 'season' | 'episode' | 'page' | 'percent' | 'timestampSeconds';
+
+/**
+ * Progress fields that make sense for each media type
+ */
+const PROGRESS_FIELDS: Record<MediaType, readonly ProgressField[]> = {
+  [MediaType.FILM]: ['timestampSeconds'],
+  [MediaType.SERIES]: ['season', 'episode'],
+  [MediaType.BOOK]: ['page', 'percent'],
+  [MediaType.ARTICLE]: ['page', 'percent'],
+  [MediaType.OTHER]: ['percent'],
+};
+
+const ALL_PROGRESS_FIELDS: readonly ProgressField[] = ['season', 'episode', 'page', 'percent', 'timestampSeconds'];
+
+export type LibraryEntry = Prisma.UserMediaGetPayload<{ include: { media: true } }>;
+
+export const libraryService = {
+  /**
+   * List the media tracked by a user
+   * @param {string} userId Authenticated user ID
+   * @param {LibraryQuery} query Pagination, status/type filters and sorting
+   * @returns {Promise<PaginatedData<LibraryEntry>>} Paginated library entries with their media
+   */
+  async listLibrary(userId: string, query: LibraryQuery): Promise<PaginatedData<LibraryEntry>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const sort = query.sort || 'updatedAt';
+    const order = query.order || 'desc';
+
+    const orderBy: Prisma.UserMediaOrderByWithRelationInput = sort === 'updatedAt'
+      ? { updatedAt: order }
+      : { [sort]: { sort: order, nulls: 'last' } };
+    const where: Prisma.UserMediaWhereInput = { userId };
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.type) {
+      where.media = { type: query.type };
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.userMedia.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [orderBy, { id: 'asc' }],
+        include: { media: true },
+      }),
+      prisma.userMedia.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+    const queryParams = new URLSearchParams();
+    if (query.status) queryParams.set('status', query.status);
+    if (query.type) queryParams.set('type', query.type);
+    queryParams.set('sort', sort);
+    queryParams.set('order', order);
+
+    const buildLink = (p: number) => {
+      const params = new URLSearchParams(queryParams);
+      params.set('page', p.toString());
+      params.set('pageSize', pageSize.toString());
+      return `/api/users/me/library?${params.toString()}`;
+    };
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+
+  /**
+   * Get the library entry of a user for a media
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @returns {Promise<LibraryEntry>} The library entry with its media
+   * @throws AppError 404 if the user does not track the media
+   */
+  async getEntry(userId: string, mediaId: string): Promise<LibraryEntry> {
+    const entry = await prisma.userMedia.findUnique({
+      where: { userId_mediaId: { userId, mediaId } },
+      include: { media: true },
+    });
+
+    if (!entry) {
+      throw new AppError('Library entry not found', 404);
+    }
+
+    return entry;
+  },
+
+  /**
+   * Create or update the status and progress of a media for a user.
+   * Omitted fields are left unchanged. Dates follow the status when not given explicitly:
+   * starting a media sets `startedAt`, completing it sets `finishedAt`, and going back to
+   * IN_PROGRESS after completing it counts as a rewatch.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @param {LibraryEntryInput} input Status, progress and dates
+   * @returns {Promise<LibraryEntry>} The saved library entry
+   * @throws AppError 400 if a progress field does not apply to the media type or dates are inconsistent
+   */
+  async upsertEntry(userId: string, mediaId: string, input: LibraryEntryInput): Promise<LibraryEntry> {
+    const media = await prisma.media.findUnique({ where: { id: mediaId }, select: { type: true } });
+    if (!media) {
+      throw new AppError('Media not found', 404);
+    }
+
+    const allowed = PROGRESS_FIELDS[media.type];
+    const invalidField = ALL_PROGRESS_FIELDS.find((field) => input[field] != null && !allowed.includes(field));
+    if (invalidField) {
+      throw new AppError(`Progress field '${invalidField}' does not apply to ${media.type} media`, 400);
+    }
+
+    const existing = await prisma.userMedia.findUnique({
+      where: { userId_mediaId: { userId, mediaId } },
+    });
+
+    const previousStatus = existing?.status ?? null;
+    const status = input.status ?? previousStatus ?? WatchStatus.PLANNED;
+    const data: Prisma.UserMediaUncheckedUpdateInput = { ...input, status };
+
+    const isRewatch = previousStatus === WatchStatus.COMPLETED && status === WatchStatus.IN_PROGRESS;
+    if (isRewatch) {
+      data.rewatchCount = input.rewatchCount ?? (existing?.rewatchCount ?? 0) + 1;
+      data.finishedAt = input.finishedAt ?? null;
+    }
+
+    const startedStatuses: WatchStatus[] = [WatchStatus.IN_PROGRESS, WatchStatus.COMPLETED];
+    if (input.startedAt === undefined && !existing?.startedAt && startedStatuses.includes(status)) {
+      data.startedAt = new Date();
+    }
+    if (input.finishedAt === undefined && status === WatchStatus.COMPLETED && previousStatus !== WatchStatus.COMPLETED) {
+      data.finishedAt = new Date();
+    }
+
+    const startedAt = data.startedAt !== undefined ? data.startedAt as Date | null : existing?.startedAt;
+    const finishedAt = data.finishedAt !== undefined ? data.finishedAt as Date | null : existing?.finishedAt;
+    if (startedAt && finishedAt && finishedAt < startedAt) {
+      throw new AppError('finishedAt cannot be before startedAt', 400);
+    }
+
+    return prisma.userMedia.upsert({
+      where: { userId_mediaId: { userId, mediaId } },
+      create: { ...(data as Prisma.UserMediaUncheckedCreateInput), userId, mediaId },
+      update: data,
+      include: { media: true },
+    });
+  },
+
+  /**
+   * Stop tracking a media
+   * @param {string} userId Authenticated user ID
+   * @param {string} mediaId Media ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the user does not track the media
+   */
+  async removeEntry(userId: string, mediaId: string): Promise<void> {
+    const { count } = await prisma.userMedia.deleteMany({ where: { userId, mediaId } });
+    if (count === 0) {
+      throw new AppError('Library entry not found', 404);
+    }
+  },
+
+  /**
+   * Build a Prisma where fragment matching the media a user tracks with the given status
+   * @param {string} userId Authenticated user ID
+   * @param {WatchStatus} status Watch status
+   * @returns {Prisma.MediaWhereInput} Where fragment to combine with other media filters
+   */
+  statusWhere(userId: string, status: WatchStatus): Prisma.MediaWhereInput {
+    return { userMedia: { some: { userId, status } } };
+  },
+};
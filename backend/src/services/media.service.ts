@@ -1,34 +1,94 @@
 import prisma from "@/db";
-import { CollectionRole, Visibility } from "@/generated/prisma/browser";
-import type { Prisma, Media } from "@/generated/prisma/browser";
+import { ActivityAction, Visibility } from "@/generated/prisma/browser";
+import { Prisma, type Media, type Priority } from "@/generated/prisma/client";
 import { AppError } from "@/middleware/errorHandler";
-import type { ListQuery, MediaWhereClause, PaginatedData, PaginationLinks } from "@/types/types";
+import { activityService } from "@/services/activity.service";
+import { catalogService } from "@/services/catalog.service";
+import { collectionService } from "@/services/collection.service";
+import { detailsService } from "@/services/details.service";
+import { facetService } from "@/services/facet.service";
+import { filterService } from "@/services/filter.service";
+import { libraryService } from "@/services/library.service";
+import { paginationService, type SortKey } from "@/services/pagination.service";
+import { platformService } from "@/services/platform.service";
+import { policyService } from "@/services/policy.service";
+import { realtimeService } from "@/services/realtime.service";
+import { scoreService } from "@/services/score.service";
+import { searchService } from "@/services/search.service";
+import type {
+  DuplicateCandidate,
+  ExternalScores,
+  ListQuery,
+  MediaCreateData,
+  MediaListing,
+  MediaUpdateData,
+  MediaWhereClause,
+  OnDuplicate,
+  PaginatedData,
+  SearchHits,
+  SearchResult,
+} from "@/types/types";
+
+export type CreateMediaResult =
+  | { status: 'created'; media: Media }
+  | { status: 'attached'; media: Media }
+  | { status: 'duplicate'; candidates: DuplicateCandidate[] };
+
+type MediaSort = Exclude<NonNullable<ListQuery['sort']>, 'relevance'>;
+
+/** Column of each media sort; `rating` sorts on the average user rating, unrated media last */
+const MEDIA_SORT_KEYS: Record<MediaSort, SortKey> = {
+  createdAt: { field: 'createdAt', type: 'date' },
+  title: { field: 'title', type: 'string' },
+  releaseDate: { field: 'releaseDate', type: 'date', nullable: true },
+  rating: { field: 'ratingAverage', type: 'number', nullable: true },
+};
 
 export const mediaService = {
   /**
-   * Create a new media entry in the database
-   * @param {Prisma.MediaCreateInput} data Data for the new media entry
-   * @returns {Promise<Media>} The created media object
+   * Create a new media entry in the catalog and add it to a collection.
+   * The catalog is checked first for the same work (same external ID, or same type, title,
+   * release year and director/author): depending on `onDuplicate` the request is rejected with
+   * the candidates, the existing entry is attached to the collection, or a new entry is created anyway.
+   * @param {MediaCreateData} data Data for the new media entry, external scores are normalized, book authors
+   * fill an empty director/author
+   * @param {string} userId Authenticated user ID
+   * @param {string | undefined} collectionId Target collection, the user's default collection if omitted
+   * @param {OnDuplicate} onDuplicate Behaviour when the catalog already holds the media
+   * @param {{ priority?: Priority; dueDate?: Date }} item Viewing priority and due date of a created media's item
+   * @returns {Promise<CreateMediaResult>} The created or attached media, or the duplicate candidates
    * @throws AppError if media creation fails
    */
   async createMedia(
-    data: Prisma.MediaCreateInput,
+    data: MediaCreateData,
     userId: string,
-    collectionId?: string
-  ): Promise<Media> {
+    collectionId?: string,
+    onDuplicate: OnDuplicate = 'reject',
+    item: { priority?: Priority; dueDate?: Date } = {}
+  ): Promise<CreateMediaResult> {
     try {
       const collection = await this.getCollectionForCreate(userId, collectionId);
-      const newMedia = await prisma.$transaction(async (tx) => {
-        const media = await tx.media.create({ data });
-        await tx.collectionMedia.create({
-          data: {
-            collectionId: collection.id,
-            mediaId: media.id,
-          },
-        });
-        return media;
-      });
-      return newMedia;
+      // Books listing their authors get them as director/author when none is given
+      const fields = { ...data, directorAuthor: data.directorAuthor ?? detailsService.authorsLabel(data.details) };
+
+      if (onDuplicate !== 'create') {
+        const candidates = await catalogService.findDuplicates(fields, userId);
+        const canonical = candidates.find((candidate) => candidate.match !== 'title')?.media;
+
+        if (canonical && onDuplicate === 'attach') {
+          if (await this.attachToCollection(canonical.id, collection.id)) {
+            await realtimeService.publish([{ type: 'item.added', collectionId: collection.id, data: { mediaId: canonical.id } }]);
+          }
+          return { status: 'attached', media: canonical };
+        }
+        if (canonical) {
+          return { status: 'duplicate', candidates };
+        }
+      }
+
+      const newMedia = await prisma.$transaction((tx) => this.insertMedia(tx, fields, collection.id, item));
+      await realtimeService.publish([{ type: 'item.added', collectionId: collection.id, data: { mediaId: newMedia.id } }]);
+      return { status: 'created', media: newMedia };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -39,49 +99,135 @@ export const mediaService = {
   },
 
   /**
-   * List media entries with pagination and filters
+   * Insert a media entry and append it to a collection, within a transaction
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {MediaCreateData} data Data for the new media entry, external scores are normalized
+   * @param {string} collectionId Target collection
+   * @param {{ priority?: Priority; dueDate?: Date }} item Viewing priority and due date of the item
+   * @returns {Promise<Media>} The created media
+   */
+  async insertMedia(
+    tx: Prisma.TransactionClient,
+    data: MediaCreateData,
+    collectionId: string,
+    item: { priority?: Priority; dueDate?: Date } = {}
+  ): Promise<Media> {
+    const { scores, platforms, ...fields } = data;
+    const media = await tx.media.create({
+      data: {
+        ...fields,
+        platforms: platforms ? await platformService.resolveNames(tx, platforms) : undefined,
+        scores: scores ? scoreService.mergeScores(null, scores) : undefined,
+        catalogKey: catalogService.buildCatalogKey(data),
+      },
+    });
+    // Locking the collection keeps concurrent additions from taking the same position
+    const itemIds = await collectionService.lockAndListItemIds(tx, collectionId);
+    await tx.collectionMedia.create({
+      data: {
+        collectionId,
+        mediaId: media.id,
+        position: itemIds.length + 1,
+        priority: item.priority,
+        dueDate: item.dueDate,
+      },
+    });
+    await activityService.record(tx, [activityService.itemRecord(collectionId, media, ActivityAction.ITEM_ADDED, null)]);
+    return media;
+  },
+
+  /**
+   * Append an existing catalog entry to a collection, unless the collection already holds it
+   * @returns {Promise<boolean>} False if the collection already holds the media
+   */
+  async attachToCollection(mediaId: string, collectionId: string): Promise<boolean> {
+    return prisma.$transaction((tx) => this.appendToCollection(tx, mediaId, collectionId));
+  },
+
+  /**
+   * Append a media entry to a collection within a transaction
+   * @returns {Promise<boolean>} False if the collection already holds the media
+   */
+  async appendToCollection(tx: Prisma.TransactionClient, mediaId: string, collectionId: string): Promise<boolean> {
+    const itemIds = await collectionService.lockAndListItemIds(tx, collectionId);
+    const existing = await tx.collectionMedia.findUnique({
+      where: { collectionId_mediaId: { collectionId, mediaId } },
+      select: { id: true },
+    });
+    if (existing) {
+      return false;
+    }
+    const { media } = await tx.collectionMedia.create({
+      data: { collectionId, mediaId, position: itemIds.length + 1 },
+      include: { media: true },
+    });
+    await activityService.record(tx, [activityService.itemRecord(collectionId, media, ActivityAction.ITEM_ADDED, null)]);
+    return true;
+  },
+
+  /**
+   * List media entries with pagination and filters.
+   * With `q`, the listing is a full-text search: only matches are listed, each with its relevance and
+   * highlights, and `sort=relevance` lists the best matches first.
+   * With `facets`, the counts of the whole listing by type, tag, platform and/or year are returned next to the page.
    * @param {Object} query Query parameters for filtering and pagination
    * @param {number} query.page Page number for pagination
    * @param {number} query.pageSize Number of items per page
    * @param {string} query.type Filter by media type
-   * @param {string} query.cursor Cursor for cursor-based pagination
+   * @param {string} query.cursor Cursor of a previous page, switching to keyset pagination
+   * @throws AppError 400 if `sort=relevance` is used without `q` or with a cursor, if the cursor is invalid
+   * or if a facet is unknown
    */
-  async listMedia(query: ListQuery, userId?: string): Promise<PaginatedData<Media>> {
+  async listMedia(query: ListQuery, userId?: string): Promise<MediaListing> {
     const pageSize = query.pageSize || 20;
     const sort = query.sort || 'createdAt';
     const order = query.order || 'desc';
-    const filterWhere = this.buildWhereClause(query);
+    if (sort === 'relevance' && (!query.q || query.cursor)) {
+      throw new AppError('sort=relevance requires q and offset pagination', 400);
+    }
+    const facets = query.facets ? facetService.parseMediaFacets(query.facets) : [];
+
+    const hits = query.q ? await searchService.searchMedia(query.q) : null;
+    const filterWhere = await this.buildWhereClause(query, userId, hits);
     const accessWhere = this.buildAccessWhere(userId);
     const where = Object.keys(filterWhere).length > 0
       ? { AND: [filterWhere, accessWhere] }
       : accessWhere;
-
-    // Use cursor-based pagination if cursor is provided
-    if (query.cursor) {
-      const data = await prisma.media.findMany({
-        where,
-        take: pageSize + 1, // Fetch one extra to check if there's a next page
-        cursor: { id: query.cursor },
-        skip: 1, // Skip the cursor itself
-        orderBy: { [sort]: order },
-      });
-
-      const hasMore = data.length > pageSize;
-      const items = hasMore ? data.slice(0, pageSize) : data;
-      const lastItem = items.at(-1);
-      const nextCursor = hasMore && lastItem ? lastItem.id : null;
-
-      // For cursor-based pagination, we don't calculate total/pages as it's expensive
-      const links = this.buildCursorPaginationLinks(query, pageSize, nextCursor);
+    const annotate = (items: Media[]) => (query.q && hits ? searchService.annotateMedia(items, query.q, hits) : items);
+
+    const params = paginationService.toSearchParams(query);
+    const countFacets = (client: Prisma.TransactionClient) =>
+      (facets.length > 0 ? facetService.countMedia(where, facets, client) : undefined);
+
+    // Keyset pagination when a cursor is provided: pages stay stable while media are added or removed
+    const cursor = query.cursor;
+    if (cursor && sort !== 'relevance') {
+      const [{ data, nextCursor, prevCursor }, facetCounts] = await filterService.withTitleRegex(query.titleRegex, (client) => Promise.all([
+        paginationService.paginateKeyset<Media, Prisma.MediaWhereInput, Prisma.MediaOrderByWithRelationInput>({
+          cursor,
+          sort,
+          order,
+          key: MEDIA_SORT_KEYS[sort],
+          pageSize,
+          find: ({ where: keysetWhere, orderBy, take }) =>
+            client.media.findMany({ where: { AND: [where, keysetWhere] }, orderBy, take }),
+        }),
+        countFacets(client),
+      ]));
 
       return {
-        data: items,
+        data: await annotate(data),
         page: 1, // Cursor pagination doesn't use page numbers
         pageSize,
-        total: 0, // Not calculated for cursor pagination
-        pages: 0, // Not calculated for cursor pagination
-        links,
+        total: 0, // Not calculated for cursor pagination as it's expensive
+        pages: 0,
+        links: paginationService.cursorLinks('/api/media', params, pageSize, {
+          self: cursor,
+          next: nextCursor,
+          prev: prevCursor,
+        }),
         cursor: nextCursor,
+        facets: facetCounts,
       };
     }
 
@@ -89,59 +235,143 @@ export const mediaService = {
     const page = query.page || 1;
     const skip = (page - 1) * pageSize;
 
-    const [data, total] = await Promise.all([
-      prisma.media.findMany({
-        where,
-        skip,
-        take: pageSize,
-        orderBy: { [sort]: order },
-      }),
-      prisma.media.count({ where }),
-    ]);
+    const [[data, total], facetCounts] = await filterService.withTitleRegex(query.titleRegex, (client) => Promise.all([
+      sort === 'relevance'
+        ? this.findByRelevance(where, hits ?? new Map(), order, skip, pageSize, client)
+        : Promise.all([
+          client.media.findMany({
+            where,
+            skip,
+            take: pageSize,
+            orderBy: this.buildOrderBy(sort, order),
+          }),
+          client.media.count({ where }),
+        ]),
+      countFacets(client),
+    ]));
 
     const pages = Math.ceil(total / pageSize);
+    // The cursor lets clients continue with keyset pagination from this page
     const lastItem = data.at(-1);
-    const nextCursor = lastItem ? lastItem.id : null;
-    const links = this.buildPaginationLinks(query, page, pageSize, pages);
+    const nextCursor = sort !== 'relevance' && page < pages && lastItem
+      ? paginationService.encodeCursor(MEDIA_SORT_KEYS[sort], sort, order, lastItem, 'next')
+      : null;
 
     return {
-      data,
+      data: await annotate(data),
       page,
       pageSize,
       total,
       pages,
-      links,
+      links: paginationService.pageLinks('/api/media', params, page, pageSize, pages),
       cursor: nextCursor,
+      facets: facetCounts,
     };
   },
 
+  /**
+   * Load a page of search matches ordered by relevance. Relevance is not a column, so the IDs of
+   * every filtered match are sorted in memory before loading the page.
+   * @param {Prisma.MediaWhereInput} where Filters, access control and search matches
+   * @param {SearchHits} hits Relevance of the search matches
+   * @param {'asc' | 'desc'} order Sort direction, most relevant first with desc
+   * @param {number} skip Number of matches to skip
+   * @param {number} take Page size
+   * @param {Prisma.TransactionClient} client Transaction client (optional)
+   * @returns {Promise<[Media[], number]>} The page of media and the total number of matches
+   */
+  async findByRelevance(
+    where: Prisma.MediaWhereInput,
+    hits: SearchHits,
+    order: 'asc' | 'desc',
+    skip: number,
+    take: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<[Media[], number]> {
+    const matches = await client.media.findMany({ where, select: { id: true } });
+    const pageIds = searchService.sortByRelevance(matches.map((media) => media.id), hits, order).slice(skip, skip + take);
+    const media = await client.media.findMany({ where: { id: { in: pageIds } } });
+    const byId = new Map(media.map((item) => [item.id, item]));
+    return [pageIds.flatMap((id) => byId.get(id) ?? []), matches.length];
+  },
+
+  /**
+   * Build the Prisma order clause for a media listing, ties broken by ID.
+   * `rating` sorts on the average user rating, unrated media last.
+   * @param {MediaSort} sort Sort field
+   * @param {'asc' | 'desc'} order Sort direction
+   * @returns {Prisma.MediaOrderByWithRelationInput[]} Prisma order clause
+   */
+  buildOrderBy(sort: MediaSort, order: 'asc' | 'desc'): Prisma.MediaOrderByWithRelationInput[] {
+    return paginationService.orderBy(MEDIA_SORT_KEYS[sort], order) as Prisma.MediaOrderByWithRelationInput[];
+  },
+
   /**
    * Build a Prisma where clause based on the provided query parameters
    * @param {MediaWhereClause} query Query parameters for filtering media entries
-   * @returns {Prisma.MediaWhereInput} Prisma where clause for filtering media entries
+   * @param {string | undefined} userId Authenticated user ID, required by the status filter
+   * @param {SearchHits | null} hits Matches of the full-text search on `q`
+   * @returns {Promise<Prisma.MediaWhereInput>} Prisma where clause for filtering media entries
+   * @throws AppError 400 if the title regex or the filter expression is invalid
    */
-  buildWhereClause(query: MediaWhereClause): Prisma.MediaWhereInput {
+  async buildWhereClause(query: MediaWhereClause, userId?: string, hits?: SearchHits | null): Promise<Prisma.MediaWhereInput> {
     const where: Prisma.MediaWhereInput = {};
 
     if (query.type) {
       where.type = query.type as any;
     }
 
+    const conditions: Prisma.MediaWhereInput[] = [];
+
+    const platformList = this.parseCommaSeparated(query.platforms, query.platform);
+    if (platformList.length > 0) {
+      conditions.push(platformService.namesWhere(platformList));
+    }
+
     const tagList = this.parseCommaSeparated(query.tags, query.tag);
     if (tagList.length > 0) {
-      where.tags = { hasSome: tagList };
+      conditions.push(filterService.tagsWhere(tagList, query.tagsMode));
     }
 
-    const platformList = this.parseCommaSeparated(query.platforms, query.platform);
-    if (platformList.length > 0) {
-      where.platforms = { hasSome: platformList };
+    if (query.directorAuthor) {
+      conditions.push({ directorAuthor: { contains: query.directorAuthor, mode: 'insensitive' } });
+    }
+
+    for (const range of [
+      filterService.dateRangeWhere('releaseDate', query.releasedFrom, query.releasedTo),
+      filterService.dateRangeWhere('createdAt', query.createdFrom, query.createdTo),
+    ]) {
+      if (range) conditions.push(range);
+    }
+
+    if (query.status && userId) {
+      conditions.push(libraryService.statusWhere(userId, query.status));
+    }
+
+    if (query.availableToMe && userId) {
+      conditions.push(await platformService.availableToWhere(userId));
+    }
+
+    if (query.minScore) {
+      for (const { provider, min } of scoreService.parseMinScore(query.minScore)) {
+        conditions.push({ scores: { path: [provider, 'value'], gte: min } });
+      }
     }
 
     if (query.q) {
-      where.OR = [
-        { title: { contains: query.q, mode: 'insensitive' } },
-        { description: { contains: query.q, mode: 'insensitive' } },
-      ];
+      conditions.push({ id: { in: [...(hits?.keys() ?? [])] } });
+    }
+
+    if (query.titleRegex) {
+      conditions.push(filterService.titleRegexWhere());
+    }
+
+    if (query.filter) {
+      conditions.push(filterService.parseExpression(query.filter, userId));
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
     }
 
     return where;
@@ -153,34 +383,7 @@ export const mediaService = {
    * @returns {Prisma.MediaWhereInput} Prisma where clause for access control
    */
   buildAccessWhere(userId?: string): Prisma.MediaWhereInput {
-    const publicAccess: Prisma.MediaWhereInput = {
-      collections: {
-        some: {
-          collection: {
-            visibility: Visibility.PUBLIC,
-          },
-        },
-      },
-    };
-
-    if (!userId) {
-      return publicAccess;
-    }
-
-    const memberAccess: Prisma.MediaWhereInput = {
-      collections: {
-        some: {
-          collection: {
-            OR: [
-              { ownerId: userId },
-              { members: { some: { userId } } },
-            ],
-          },
-        },
-      },
-    };
-
-    return { OR: [publicAccess, memberAccess] };
+    return policyService.mediaWhere(userId ? { id: userId } : null, 'media:read');
   },
 
   /**
@@ -199,82 +402,6 @@ export const mediaService = {
     return [];
   },
 
-  /**
-   * Build pagination links for API responses based on the current query and pagination state
-   * @param {ListQuery} query Query parameters for filtering and pagination
-   * @param {number} page Current page number
-   * @param {number} pageSize Number of items per page
-   * @param {number} pages Total number of pages
-   * @returns {PaginationLinks} An object containing self, next, and prev pagination links
-   */
-  buildPaginationLinks(query: ListQuery, page: number, pageSize: number, pages: number): PaginationLinks {
-    const baseUrl = '/api/media';
-    const queryParams = new URLSearchParams();
-    
-    if (query.type) queryParams.set('type', query.type);
-    if (query.tag) queryParams.set('tag', query.tag);
-    if (query.tags) queryParams.set('tags', query.tags);
-    if (query.platform) queryParams.set('platform', query.platform);
-    if (query.platforms) queryParams.set('platforms', query.platforms);
-    if (query.q) queryParams.set('q', query.q);
-    if (query.sort) queryParams.set('sort', query.sort);
-    if (query.order) queryParams.set('order', query.order);
-
-    const buildLink = (p: number) => {
-      const params = new URLSearchParams(queryParams);
-      params.set('page', p.toString());
-      params.set('pageSize', pageSize.toString());
-      return `${baseUrl}?${params.toString()}`;
-    };
-
-    return {
-      self: buildLink(page),
-      next: page < pages ? buildLink(page + 1) : null,
-      prev: page > 1 ? buildLink(page - 1) : null,
-    };
-  },
-
-  /**
-   * Build cursor-based pagination links for API responses
-   * @param {ListQuery} query Query parameters for filtering and pagination
-   * @param {number} pageSize Number of items per page
-   * @param {string | null} nextCursor Cursor for the next page
-   * @returns {PaginationLinks} An object containing self, next, and prev pagination links
-   */
-  buildCursorPaginationLinks(query: ListQuery, pageSize: number, nextCursor: string | null): PaginationLinks {
-    const baseUrl = '/api/media';
-    const queryParams = new URLSearchParams();
-    
-    if (query.type) queryParams.set('type', query.type);
-    if (query.tag) queryParams.set('tag', query.tag);
-    if (query.tags) queryParams.set('tags', query.tags);
-    if (query.platform) queryParams.set('platform', query.platform);
-    if (query.platforms) queryParams.set('platforms', query.platforms);
-    if (query.q) queryParams.set('q', query.q);
-    if (query.sort) queryParams.set('sort', query.sort);
-    if (query.order) queryParams.set('order', query.order);
-    queryParams.set('pageSize', pageSize.toString());
-
-    const buildSelfLink = () => {
-      const params = new URLSearchParams(queryParams);
-      if (query.cursor) params.set('cursor', query.cursor);
-      return `${baseUrl}?${params.toString()}`;
-    };
-
-    const buildNextLink = () => {
-      if (!nextCursor) return null;
-      const params = new URLSearchParams(queryParams);
-      params.set('cursor', nextCursor);
-      return `${baseUrl}?${params.toString()}`;
-    };
-
-    return {
-      self: buildSelfLink(),
-      next: buildNextLink(),
-      prev: null, // Cursor-based pagination typically doesn't support prev
-    };
-  },
-
   /**
    * Get a media entry by ID
    * @param {string} id Media ID
@@ -293,15 +420,16 @@ export const mediaService = {
   },
 
   /**
-   * Update a media entry by ID
+   * Update a media entry by ID, keeping its catalog key in sync with the matching fields.
+   * Permissions are enforced by the caller (see the `media:update` policy action).
    * @param {string} id Media ID
-   * @param {Prisma.MediaUpdateInput} data Data to update the media entry with
+   * @param {MediaUpdateData} data Data to update the media entry with, scores are merged per provider, details
+   * are replaced (and dropped when the type changes without new details)
    * @returns {Promise<Media | null>} The updated media object if successful, or null if an error occurred
    */
-  async updateById(id: string, data: Prisma.MediaUpdateInput, userId: string): Promise<Media | null> {
+  async updateById(id: string, data: MediaUpdateData): Promise<Media | null> {
     try {
-      await this.requireMediaRole(id, userId, [CollectionRole.OWNER, CollectionRole.COLLABORATOR]);
-      const media = await prisma.media.update({ where: { id }, data });
+      const media = await prisma.$transaction((tx) => this.applyUpdate(tx, id, data));
       return media;
     } catch (error) {
       if (error instanceof AppError) {
@@ -313,14 +441,51 @@ export const mediaService = {
   },
 
   /**
-   * Delete a media entry by ID
+   * Update a media entry within a transaction, see updateById
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} id Media ID
+   * @param {MediaUpdateData} data Data to update the media entry with
+   * @returns {Promise<Media>} The updated media
+   */
+  async applyUpdate(tx: Prisma.TransactionClient, id: string, data: MediaUpdateData): Promise<Media> {
+    const { scores, details, platforms, ...fields } = data;
+    const current = await tx.media.findUniqueOrThrow({ where: { id } });
+    // Details of the previous type no longer apply once the type changes
+    const typeChanged = fields.type !== undefined && fields.type !== current.type;
+    let updated = await tx.media.update({
+      where: { id },
+      data: {
+        ...fields,
+        platforms: platforms ? await platformService.resolveNames(tx, platforms) : undefined,
+        scores: scores ? scoreService.mergeScores(current.scores as ExternalScores | null, scores) : undefined,
+        details: details === null || (details === undefined && typeChanged) ? Prisma.DbNull : details,
+      },
+    });
+    const catalogKey = catalogService.buildCatalogKey(updated);
+    if (updated.catalogKey !== catalogKey) {
+      updated = await tx.media.update({ where: { id }, data: { catalogKey } });
+    }
+
+    const changes = activityService.diff(current, updated, [...Object.keys(fields), 'platforms', 'scores', 'details']);
+    if (changes) {
+      await activityService.recordMediaChange(tx, updated, ActivityAction.MEDIA_UPDATED, changes);
+    }
+    return updated;
+  },
+
+  /**
+   * Delete a media entry by ID.
+   * Permissions are enforced by the caller (see the `media:delete` policy action).
    * @param {string} id Media ID
    * @returns {Promise<boolean>} True if the media was successfully deleted, false otherwise
    */
-  async deleteById(id: string, userId: string): Promise<boolean> {
+  async deleteById(id: string): Promise<boolean> {
     try {
-      await this.requireMediaRole(id, userId, [CollectionRole.OWNER]);
-      await prisma.media.delete({ where: { id } });
+      const collectionIds = await prisma.$transaction((tx) => this.removeMedia(tx, id));
+      if (!collectionIds) {
+        return false;
+      }
+      await realtimeService.publish(collectionIds.map((collectionId) => ({ type: 'item.removed', collectionId, data: { mediaId: id } })));
       return true;
     } catch (error) {
       if (error instanceof AppError) {
@@ -332,39 +497,29 @@ export const mediaService = {
   },
 
   /**
-   * Resolve a collection for media creation, ensuring the user can write to it
+   * Delete a media entry within a transaction, logging the deletion on every collection that held it
+   * @returns {Promise<string[] | null>} The collections that held the media, null if it does not exist
+   */
+  async removeMedia(tx: Prisma.TransactionClient, id: string): Promise<string[] | null> {
+    const media = await tx.media.findUnique({ where: { id }, select: { id: true, title: true } });
+    if (!media) {
+      return null;
+    }
+    const collectionIds = await activityService.recordMediaChange(tx, media, ActivityAction.MEDIA_DELETED, null);
+    await tx.media.delete({ where: { id } });
+    return collectionIds;
+  },
+
+  /**
+   * Resolve a collection for media creation, ensuring the user can write to it and it is not a smart collection
    */
   async getCollectionForCreate(userId: string, collectionId?: string): Promise<{ id: string }> {
     if (collectionId) {
-      const collection = await prisma.collection.findUnique({
-        where: { id: collectionId },
-        select: {
-          id: true,
-          ownerId: true,
-          members: {
-            where: { userId },
-            select: { role: true },
-          },
-        },
-      });
-
-      if (!collection) {
-        throw new AppError('Collection not found', 404);
-      }
-
-      const isOwner = collection.ownerId === userId;
-      const allowedCreateRoles = new Set<CollectionRole>([
-        CollectionRole.OWNER,
-        CollectionRole.COLLABORATOR,
-      ]);
-      const hasRole = collection.members.some((member) =>
-        allowedCreateRoles.has(member.role)
-      );
-
-      if (!isOwner && !hasRole) {
-        throw new AppError('Forbidden', 403);
+      const collection = await policyService.authorizeCollection({ id: userId }, 'collection:manageMedia', collectionId);
+      const { rules } = await prisma.collection.findUniqueOrThrow({ where: { id: collection.id }, select: { rules: true } });
+      if (rules) {
+        throw new AppError('The media of a smart collection are defined by its rules', 409);
       }
-
       return { id: collection.id };
     }
 
@@ -395,49 +550,4 @@ export const mediaService = {
       select: { id: true },
     });
   },
-
-  /**
-   * Require a minimum role to update/delete a media entry
-   */
-  async requireMediaRole(
-    mediaId: string,
-    userId: string,
-    allowedRoles: CollectionRole[]
-  ): Promise<void> {
-    const media = await prisma.media.findUnique({
-      where: { id: mediaId },
-      select: {
-        id: true,
-        collections: {
-          select: {
-            collection: {
-              select: {
-                ownerId: true,
-                members: {
-                  where: { userId },
-                  select: { role: true },
-                },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    if (!media) {
-      throw new AppError('Media not found', 404);
-    }
-
-    const isOwner = media.collections.some((item) => item.collection.ownerId === userId);
-    if (isOwner && allowedRoles.includes(CollectionRole.OWNER)) {
-      return;
-    }
-
-    const roles = media.collections.flatMap((item) => item.collection.members.map((member) => member.role));
-    const hasRole = roles.some((role) => allowedRoles.includes(role));
-
-    if (!hasRole) {
-      throw new AppError('Forbidden', 403);
-    }
-  },
-};
\ No newline at end of file
+};
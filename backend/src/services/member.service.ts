@@ -0,0 +1,377 @@
+import prisma from "@/db";
+import { ActivityAction, CollectionRole } from "@/generated/prisma/browser";
+import { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { activityService } from "@/services/activity.service";
+import { collectionService } from "@/services/collection.service";
+import { paginationService } from "@/services/pagination.service";
+import { policyService } from "@/services/policy.service";
+import { realtimeService } from "@/services/realtime.service";
+import { publicUserSelect } from "@/services/user.service";
+import type { PaginatedData } from "@/types/types";
+
+const memberInclude = {
+  user: { select: publicUserSelect },
+} satisfies Prisma.CollectionUserInclude;
+
+export type Member = Prisma.CollectionUserGetPayload<{ include: typeof memberInclude }>;
+
+export type Invitation = Prisma.CollectionUserGetPayload<{
+  select: {
+    id: true;
+    role: true;
+    invitedAt: true;
+    collection: {
+      select: {
+        id: true;
+        name: true;
+        visibility: true;
+        owner: { select: typeof publicUserSelect };
+      };
+    };
+  };
+}>;
+
+type AssignableRole = Exclude<CollectionRole, 'OWNER'>;
+
+export const memberService = {
+  /**
+   * Invite a user to a collection by username or email.
+   * The membership only grants access once the invitee accepts it.
+   * Requires `member:invite` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {{ username?: string; email?: string; role: AssignableRole }} invite Invitee and role
+   * @returns {Promise<Member>} The pending membership
+   * @throws AppError 404 if the invitee does not exist, 409 if already owner, member or invited
+   */
+  async inviteMember(
+    collectionId: string,
+    invite: { username?: string; email?: string; role: AssignableRole }
+  ): Promise<Member> {
+    const collection = await this.requireCollection(collectionId);
+
+    const invitee = await prisma.user.findFirst({
+      where: invite.username ? { username: invite.username } : { email: invite.email },
+      select: { id: true },
+    });
+    if (!invitee) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (invitee.id === collection.ownerId) {
+      throw new AppError('User already owns this collection', 409);
+    }
+
+    const existing = await prisma.collectionUser.findUnique({
+      where: { collectionId_userId: { collectionId, userId: invitee.id } },
+      select: { accepted: true },
+    });
+    if (existing) {
+      throw new AppError(existing.accepted ? 'User is already a member' : 'User has already been invited', 409);
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const member = await tx.collectionUser.create({
+          data: {
+            collectionId,
+            userId: invitee.id,
+            role: invite.role,
+            accepted: false,
+          },
+          include: memberInclude,
+        });
+        const changes = { role: { before: null, after: member.role } };
+        await activityService.record(tx, [activityService.memberRecord(collectionId, member.user, ActivityAction.MEMBER_INVITED, changes)]);
+        return member;
+      });
+    } catch (error) {
+      // A concurrent request invited the user between the check and the insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('User is already a member', 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * List the members of a collection.
+   * Pending invitations are only listed for the owner.
+   * Requires `member:read` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {{ page?: number; pageSize?: number }} query Pagination parameters
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<PaginatedData<Member>>} Paginated list of members
+   */
+  async listMembers(
+    collectionId: string,
+    query: { page?: number; pageSize?: number },
+    userId?: string
+  ): Promise<PaginatedData<Member>> {
+    const collection = await this.requireCollection(collectionId);
+
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const where: Prisma.CollectionUserWhereInput = collection.ownerId === userId
+      ? { collectionId }
+      : { collectionId, accepted: true };
+
+    const [data, total] = await Promise.all([
+      prisma.collectionUser.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ invitedAt: 'asc' }, { id: 'asc' }],
+        include: memberInclude,
+      }),
+      prisma.collectionUser.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks(
+        `/api/collections/${collectionId}/members`,
+        new URLSearchParams(),
+        page,
+        pageSize,
+        pages
+      ),
+    };
+  },
+
+  /**
+   * Change the role of a member.
+   * Requires `member:update` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string} memberId Membership ID
+   * @param {AssignableRole} role New role
+   * @returns {Promise<Member>} The updated membership
+   * @throws AppError 404 if the membership does not belong to the collection
+   */
+  async updateRole(collectionId: string, memberId: string, role: AssignableRole): Promise<Member> {
+    const membership = await this.requireMembership(collectionId, memberId);
+
+    const member = await prisma.$transaction(async (tx) => {
+      const member = await tx.collectionUser.update({
+        where: { id: memberId },
+        data: { role },
+        include: memberInclude,
+      });
+      const changes = activityService.diff(membership, member, ['role']);
+      if (changes) {
+        await activityService.record(tx, [activityService.memberRecord(collectionId, member.user, ActivityAction.MEMBER_UPDATED, changes)]);
+      }
+      return member;
+    });
+    // Pending invitations are not announced
+    if (membership.accepted) {
+      await realtimeService.publish([{ type: 'member.updated', collectionId, data: { memberId, userId: member.userId, role } }]);
+      await collectionService.publishInheritedAccessChange(collectionId);
+    }
+    return member;
+  },
+
+  /**
+   * Remove a member or revoke a pending invitation.
+   * Allowed for the owner, or for the member removing themselves.
+   * @param {string} collectionId Collection ID
+   * @param {string} memberId Membership ID
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the membership does not belong to the collection, 403 if not allowed
+   */
+  async removeMember(collectionId: string, memberId: string, userId: string): Promise<void> {
+    const membership = await this.requireMembership(collectionId, memberId);
+
+    if (membership.userId !== userId) {
+      await policyService.authorizeCollection({ id: userId }, 'member:remove', collectionId);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { user } = await tx.collectionUser.delete({ where: { id: memberId }, include: memberInclude });
+      await activityService.record(tx, [activityService.memberRecord(collectionId, user, ActivityAction.MEMBER_REMOVED, null)]);
+    });
+    if (membership.accepted) {
+      await realtimeService.publish([{ type: 'member.removed', collectionId, data: { memberId, userId: membership.userId } }]);
+      await collectionService.publishInheritedAccessChange(collectionId);
+    }
+  },
+
+  /**
+   * Leave a collection the user is a member of.
+   * The owner has to transfer ownership before leaving.
+   * @param {string} collectionId Collection ID
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the user is not a member, 409 if the user owns the collection
+   */
+  async leaveCollection(collectionId: string, userId: string): Promise<void> {
+    const collection = await this.requireCollection(collectionId);
+    if (collection.ownerId === userId) {
+      throw new AppError('The owner cannot leave the collection, transfer ownership first', 409);
+    }
+
+    const membership = await prisma.collectionUser.findFirst({
+      where: { collectionId, userId, accepted: true },
+      select: { id: true },
+    });
+    if (!membership) {
+      throw new AppError('Membership not found', 404);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { user } = await tx.collectionUser.delete({ where: { id: membership.id }, include: memberInclude });
+      await activityService.record(tx, [activityService.memberRecord(collectionId, user, ActivityAction.MEMBER_REMOVED, null)]);
+    });
+    await realtimeService.publish([{ type: 'member.removed', collectionId, data: { memberId: membership.id, userId } }]);
+    await collectionService.publishInheritedAccessChange(collectionId);
+  },
+
+  /**
+   * Transfer ownership of a collection to an accepted member.
+   * The previous owner stays on the collection as a collaborator.
+   * Requires `member:transferOwnership` on the collection, enforced by the caller.
+   * @param {string} collectionId Collection ID
+   * @param {string} memberId Membership ID of the new owner
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the membership does not belong to the collection, 409 if it is still pending
+   */
+  async transferOwnership(collectionId: string, memberId: string): Promise<void> {
+    const collection = await this.requireCollection(collectionId);
+    const membership = await this.requireMembership(collectionId, memberId);
+
+    if (!membership.accepted) {
+      throw new AppError('Ownership can only be transferred to an accepted member', 409);
+    }
+
+    const previousOwner = await prisma.$transaction(async (tx) => {
+      const { user } = await tx.collectionUser.delete({ where: { id: memberId }, include: memberInclude });
+      await tx.collection.update({
+        where: { id: collectionId },
+        data: { ownerId: membership.userId },
+      });
+      const previousOwner = await tx.collectionUser.create({
+        data: {
+          collectionId,
+          userId: collection.ownerId,
+          role: CollectionRole.COLLABORATOR,
+          accepted: true,
+        },
+      });
+      const changes = { ownerId: { before: collection.ownerId, after: membership.userId } };
+      await activityService.record(tx, [activityService.memberRecord(collectionId, user, ActivityAction.OWNERSHIP_TRANSFERRED, changes)]);
+      return previousOwner;
+    });
+    await realtimeService.publish([
+      { type: 'member.updated', collectionId, data: { memberId: null, userId: membership.userId, role: CollectionRole.OWNER } },
+      { type: 'member.updated', collectionId, data: { memberId: previousOwner.id, userId: collection.ownerId, role: CollectionRole.COLLABORATOR } },
+    ]);
+    await collectionService.publishInheritedAccessChange(collectionId);
+  },
+
+  /**
+   * List the pending invitations of a user
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<Invitation[]>} Pending invitations, most recent first
+   */
+  async listInvitations(userId: string): Promise<Invitation[]> {
+    return prisma.collectionUser.findMany({
+      where: { userId, accepted: false },
+      orderBy: { invitedAt: 'desc' },
+      select: {
+        id: true,
+        role: true,
+        invitedAt: true,
+        collection: {
+          select: {
+            id: true,
+            name: true,
+            visibility: true,
+            owner: { select: publicUserSelect },
+          },
+        },
+      },
+    });
+  },
+
+  /**
+   * Accept or decline a pending invitation. Declining deletes the invitation.
+   * @param {string} invitationId Membership ID of the invitation
+   * @param {string} userId Authenticated user ID (invitee)
+   * @param {boolean} accept Whether to accept the invitation
+   * @returns {Promise<Member | null>} The accepted membership, or null when declined
+   * @throws AppError 404 if the invitation does not exist or is not addressed to the user
+   */
+  async respondToInvitation(invitationId: string, userId: string, accept: boolean): Promise<Member | null> {
+    const invitation = await prisma.collectionUser.findFirst({
+      where: { id: invitationId, userId, accepted: false },
+      select: { id: true },
+    });
+    if (!invitation) {
+      throw new AppError('Invitation not found', 404);
+    }
+
+    if (!accept) {
+      await prisma.$transaction(async (tx) => {
+        const { collectionId, user } = await tx.collectionUser.delete({ where: { id: invitationId }, include: memberInclude });
+        await activityService.record(tx, [activityService.memberRecord(collectionId, user, ActivityAction.MEMBER_REMOVED, null)]);
+      });
+      return null;
+    }
+
+    const member = await prisma.$transaction(async (tx) => {
+      const member = await tx.collectionUser.update({
+        where: { id: invitationId },
+        data: { accepted: true },
+        include: memberInclude,
+      });
+      await activityService.record(tx, [activityService.memberRecord(member.collectionId, member.user, ActivityAction.MEMBER_JOINED, null)]);
+      return member;
+    });
+    await realtimeService.publish([
+      { type: 'member.joined', collectionId: member.collectionId, data: { memberId: member.id, userId, role: member.role } },
+    ]);
+    return member;
+  },
+
+  /**
+   * Load the owner of a collection
+   */
+  async requireCollection(collectionId: string): Promise<{ ownerId: string }> {
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      select: { ownerId: true },
+    });
+
+    if (!collection) {
+      throw new AppError('Collection not found', 404);
+    }
+
+    return collection;
+  },
+
+  /**
+   * Ensure a membership belongs to the given collection
+   */
+  async requireMembership(
+    collectionId: string,
+    memberId: string
+  ): Promise<{ userId: string; role: CollectionRole; accepted: boolean }> {
+    const membership = await prisma.collectionUser.findFirst({
+      where: { id: memberId, collectionId },
+      select: { userId: true, role: true, accepted: true },
+    });
+
+    if (!membership) {
+      throw new AppError('Member not found', 404);
+    }
+
+    return membership;
+  },
+};
@@ -0,0 +1,187 @@
+import type { MediaType } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { createFakeProvider, DEFAULT_FIXTURES_PATH } from "@/providers/metadata/fake.provider";
+import { createOmdbProvider } from "@/providers/metadata/omdb.provider";
+import { createOpenLibraryProvider } from "@/providers/metadata/openlibrary.provider";
+import { createTmdbProvider } from "@/providers/metadata/tmdb.provider";
+import { mediaService, type CreateMediaResult } from "@/services/media.service";
+import { MAX_TAG_LENGTH, tagService } from "@/services/tag.service";
+import type { MediaCreateData, MetadataProvider, MetadataRecord, MetadataSearchResult, OnDuplicate } from "@/types/types";
+import env from "../../env";
+
+/** Maximum number of cached provider responses */
+const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Factories of the supported providers, keyed by the name used in METADATA_PROVIDERS.
+ * A factory returns null when the provider is missing its configuration.
+ */
+const PROVIDER_FACTORIES: Record<string, () => MetadataProvider | null> = {
+  tmdb: () => (env.TMDB_API_KEY ? createTmdbProvider({ apiKey: env.TMDB_API_KEY, timeoutMs: env.METADATA_TIMEOUT_MS }) : null),
+  omdb: () => (env.OMDB_API_KEY ? createOmdbProvider({ apiKey: env.OMDB_API_KEY, timeoutMs: env.METADATA_TIMEOUT_MS }) : null),
+  openlibrary: () => createOpenLibraryProvider({ baseUrl: env.OPENLIBRARY_URL, timeoutMs: env.METADATA_TIMEOUT_MS }),
+  fake: () => createFakeProvider({ fixturesPath: env.METADATA_FIXTURES_PATH || DEFAULT_FIXTURES_PATH }),
+};
+
+let providers: Map<string, MetadataProvider> | null = null;
+const cache = new Map<string, { expiresAt: number; value: unknown }>();
+
+export type LookupResult = {
+  results: MetadataSearchResult[];
+  errors: { provider: string; error: string }[];
+};
+
+export const metadataService = {
+  /**
+   * Get the providers enabled in METADATA_PROVIDERS, in the configured order.
+   * Unknown providers and providers missing their API key are skipped with a warning.
+   * @returns {Map<string, MetadataProvider>} Enabled providers keyed by name
+   */
+  getProviders(): Map<string, MetadataProvider> {
+    if (providers) {
+      return providers;
+    }
+
+    providers = new Map();
+    for (const name of env.METADATA_PROVIDERS) {
+      const factory = PROVIDER_FACTORIES[name];
+      const provider = factory?.();
+      if (!provider) {
+        console.warn(factory ? `Metadata provider ${name} is not configured, skipping it` : `Unknown metadata provider ${name}`);
+        continue;
+      }
+      providers.set(name, provider);
+    }
+    return providers;
+  },
+
+  /**
+   * Get an enabled provider by name
+   * @param {string} name Provider name
+   * @returns {MetadataProvider} The provider
+   * @throws AppError 400 if the provider is not enabled
+   */
+  getProvider(name: string): MetadataProvider {
+    const provider = this.getProviders().get(name);
+    if (!provider) {
+      throw new AppError(`Metadata provider '${name}' is not enabled`, 400);
+    }
+    return provider;
+  },
+
+  /**
+   * Search titles on the enabled providers, or on a single one.
+   * A failing provider does not fail the lookup: its error is reported next to the other results.
+   * @param {string} query Searched title
+   * @param {{ type?: MediaType; provider?: string }} options Media type and provider filters
+   * @returns {Promise<LookupResult>} Results grouped in provider order, and provider errors
+   * @throws AppError 503 if no provider is enabled, 400 if the requested provider is not enabled
+   */
+  async lookup(query: string, options: { type?: MediaType; provider?: string } = {}): Promise<LookupResult> {
+    if (this.getProviders().size === 0) {
+      throw new AppError('No metadata provider is configured', 503);
+    }
+    const selected = options.provider
+      ? [this.getProvider(options.provider)]
+      : [...this.getProviders().values()].filter((provider) => !options.type || provider.types.includes(options.type));
+
+    const settled = await Promise.allSettled(selected.map((provider) =>
+      this.cached(`${provider.name}:search:${options.type ?? '*'}:${query.trim().toLowerCase()}`, () =>
+        provider.search(query, options.type)
+      )
+    ));
+
+    const result: LookupResult = { results: [], errors: [] };
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        result.results.push(...outcome.value);
+      } else {
+        const error = outcome.reason instanceof AppError ? outcome.reason.message : 'Provider error';
+        result.errors.push({ provider: selected[index]!.name, error });
+      }
+    });
+    return result;
+  },
+
+  /**
+   * Get the full metadata record of a title from a provider
+   * @param {string} providerName Provider name
+   * @param {string} externalId ID of the title on the provider
+   * @returns {Promise<MetadataRecord>} The metadata record
+   * @throws AppError 400 if the provider is not enabled, 404 if the title is unknown, 502 if the provider fails
+   */
+  async fetchRecord(providerName: string, externalId: string): Promise<MetadataRecord> {
+    const provider = this.getProvider(providerName);
+    const record = await this.cached(`${provider.name}:fetch:${externalId}`, () => provider.fetch(externalId));
+    if (!record) {
+      throw new AppError(`Title '${externalId}' not found on ${provider.name}`, 404);
+    }
+    return record;
+  },
+
+  /**
+   * Import a title from a provider into the catalog, going through the same duplicate
+   * detection as a manual creation
+   * @param {{ provider: string; externalId: string; collectionId?: string; platforms?: string[]; onDuplicate?: OnDuplicate }} input Title to import and target collection
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<CreateMediaResult>} The created or attached media, or the duplicate candidates
+   * @throws AppError 400 if the provider is not enabled, 404 if the title is unknown, 502 if the provider fails
+   */
+  async importMedia(
+    input: { provider: string; externalId: string; collectionId?: string; platforms?: string[]; onDuplicate?: OnDuplicate },
+    userId: string
+  ): Promise<CreateMediaResult> {
+    const record = await this.fetchRecord(input.provider, input.externalId);
+    const data = this.toMediaData(record);
+    if (input.platforms) {
+      data.platforms = input.platforms;
+    }
+    return mediaService.createMedia(data, userId, input.collectionId, input.onDuplicate);
+  },
+
+  /**
+   * Map a metadata record to media fields, trimming values to the limits of manual creation
+   * @param {MetadataRecord} record Metadata record
+   * @returns {MediaCreateData} Data for the new media entry
+   */
+  toMediaData(record: MetadataRecord): MediaCreateData {
+    const fetchedAt = new Date().toISOString();
+    return {
+      title: record.title.slice(0, 300),
+      type: record.type,
+      description: record.description?.slice(0, 1000) ?? null,
+      releaseDate: record.releaseDate ? new Date(record.releaseDate) : null,
+      directorAuthor: record.directorAuthor?.slice(0, 200) ?? null,
+      tags: tagService.normalizeAll(record.tags.map((tag) => tag.slice(0, MAX_TAG_LENGTH))),
+      url: record.url,
+      coverUrl: record.coverUrl,
+      externalIds: record.externalIds,
+      scores: Object.fromEntries(
+        Object.entries(record.scores).flatMap(([provider, score]) => (score ? [[provider, { fetchedAt, ...score }]] : []))
+      ),
+    };
+  },
+
+  /**
+   * Return a cached provider response, or load and cache it for METADATA_CACHE_TTL_SECONDS.
+   * Failures are not cached. The oldest entry is evicted once the cache is full.
+   * @param {string} key Cache key
+   * @param {() => Promise<T>} load Loads the value on a cache miss
+   * @returns {Promise<T>} The cached or loaded value
+   */
+  async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value as T;
+    }
+
+    const value = await load();
+    cache.delete(key);
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, { expiresAt: now + env.METADATA_CACHE_TTL_SECONDS * 1000, value });
+    return value;
+  },
+};
@@ -0,0 +1,250 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { AppError } from "@/middleware/errorHandler";
+import type { PaginationLinks } from "@/types/types";
+import env from "../../env";
+
+/**
+ * Column a listing is sorted on. Rows are always ordered by the sort key then by ID, and nullable
+ * sort keys put null values last in both directions.
+ */
+export type SortKey = {
+  field: string;
+  type: 'string' | 'number' | 'date';
+  nullable?: boolean;
+};
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Position encoded in a cursor: the sort key value and ID of a row, and whether the page
+ * starts after it (`next`) or ends before it (`prev`)
+ */
+type CursorPosition = {
+  sort: string;
+  order: SortOrder;
+  direction: 'next' | 'prev';
+  value: string | number | null;
+  id: string;
+};
+
+export type KeysetPage<T> = {
+  data: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+/** Query parameters that locate a page rather than filter the listing */
+const POSITION_PARAMS = ['page', 'pageSize', 'cursor'];
+
+export const paginationService = {
+  /**
+   * Build the Prisma order clause of a sort key, with the ID as tiebreaker so the order is total
+   * @param {SortKey} key Sort key
+   * @param {SortOrder} order Sort direction
+   * @param {boolean} nullsFirst Put null sort values first, used to walk a listing backwards
+   * @returns {Record<string, unknown>[]} Prisma order clause
+   */
+  orderBy(key: SortKey, order: SortOrder, nullsFirst = false): Record<string, unknown>[] {
+    const keyOrder = key.nullable ? { sort: order, nulls: nullsFirst ? 'first' : 'last' } : order;
+    return [{ [key.field]: keyOrder }, { id: order }];
+  },
+
+  /**
+   * List one page of rows after or before a cursor, without offset: the position of the cursor
+   * becomes a where condition on the sort key and ID, so rows inserted or deleted meanwhile never
+   * shift the page.
+   * @param {Object} options Listing options
+   * @param {string} options.cursor Cursor received in a previous page
+   * @param {string} options.sort Name of the requested sort, which the cursor must have been created for
+   * @param {SortOrder} options.order Requested sort direction
+   * @param {SortKey} options.key Sort key of the requested sort
+   * @param {number} options.pageSize Number of rows per page
+   * @param {Function} options.find Loads rows matching the listing filters and the given keyset condition
+   * @returns {Promise<KeysetPage<T>>} The rows and the cursors of the next and previous pages
+   * @throws AppError 400 if the cursor is invalid or was created for another sort
+   */
+  async paginateKeyset<T extends { id: string }, W, O>(options: {
+    cursor: string;
+    sort: string;
+    order: SortOrder;
+    key: SortKey;
+    pageSize: number;
+    find: (args: { where: W; orderBy: O[]; take: number }) => Promise<T[]>;
+  }): Promise<KeysetPage<T>> {
+    const { key, order, pageSize } = options;
+    const position = this.decodeCursor(options.cursor, options.sort, order);
+    const forward = position.direction === 'next';
+
+    const rows = await options.find({
+      where: this.keysetWhere(key, order, position) as W,
+      // Walking backwards reads the listing in reverse order, then restores the order of the page
+      orderBy: (forward ? this.orderBy(key, order) : this.orderBy(key, order === 'asc' ? 'desc' : 'asc', true)) as O[],
+      take: pageSize + 1,
+    });
+
+    const hasMore = rows.length > pageSize;
+    const data = rows.slice(0, pageSize);
+    if (!forward) {
+      data.reverse();
+    }
+
+    // The row of the cursor itself lies on the other side of the page
+    const hasNext = forward ? hasMore : true;
+    const hasPrev = forward ? true : hasMore;
+    const first = data[0];
+    const last = data.at(-1);
+
+    return {
+      data,
+      nextCursor: last && hasNext ? this.encodeCursor(key, options.sort, order, last, 'next') : null,
+      prevCursor: first && hasPrev ? this.encodeCursor(key, options.sort, order, first, 'prev') : null,
+    };
+  },
+
+  /**
+   * Build the where condition selecting the rows after (`next`) or before (`prev`) a position,
+   * following the order of `orderBy`
+   */
+  keysetWhere(key: SortKey, order: SortOrder, position: CursorPosition): Record<string, unknown> {
+    const forward = position.direction === 'next';
+    const operator = (order === 'asc') === forward ? 'gt' : 'lt';
+    const sameKeyAfter = { id: { [operator]: position.id } };
+
+    if (position.value === null) {
+      // The position is in the trailing block of null sort values, ordered by ID
+      return forward
+        ? { [key.field]: null, ...sameKeyAfter }
+        : { OR: [{ [key.field]: { not: null } }, { [key.field]: null, ...sameKeyAfter }] };
+    }
+
+    const value = key.type === 'date' ? new Date(position.value) : position.value;
+    const conditions: Record<string, unknown>[] = [
+      { [key.field]: { [operator]: value } },
+      { [key.field]: value, ...sameKeyAfter },
+    ];
+    if (key.nullable && forward) {
+      conditions.push({ [key.field]: null });
+    }
+    return { OR: conditions };
+  },
+
+  /**
+   * Create an opaque cursor pointing after or before a row, signed so it cannot be forged
+   * @param {SortKey} key Sort key of the listing
+   * @param {string} sort Name of the sort
+   * @param {SortOrder} order Sort direction
+   * @param {{ id: string }} row Row the cursor points to
+   * @param {'next' | 'prev'} direction Whether the page starts after or ends before the row
+   * @returns {string} The cursor
+   */
+  encodeCursor(key: SortKey, sort: string, order: SortOrder, row: { id: string }, direction: 'next' | 'prev'): string {
+    const raw = (row as Record<string, unknown>)[key.field];
+    const position: CursorPosition = {
+      sort,
+      order,
+      direction,
+      value: raw instanceof Date ? raw.toISOString() : (raw as string | number | null | undefined) ?? null,
+      id: row.id,
+    };
+    const payload = Buffer.from(JSON.stringify(position)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  },
+
+  /**
+   * Read a cursor, checking its signature and that it was created for the requested sort
+   * @param {string} cursor Cursor received from the client
+   * @param {string} sort Requested sort
+   * @param {SortOrder} order Requested sort direction
+   * @returns {CursorPosition} The position encoded in the cursor
+   * @throws AppError 400 if the cursor is invalid or was created for another sort
+   */
+  decodeCursor(cursor: string, sort: string, order: SortOrder): CursorPosition {
+    const [payload, signature] = cursor.split('.');
+    const expected = payload ? Buffer.from(this.sign(payload)) : null;
+    if (!payload || !signature || !expected || expected.length !== signature.length
+      || !timingSafeEqual(expected, Buffer.from(signature))) {
+      throw new AppError('Invalid cursor', 400);
+    }
+
+    const position = JSON.parse(Buffer.from(payload, 'base64url').toString()) as CursorPosition;
+    if (position.sort !== sort || position.order !== order) {
+      throw new AppError(`This cursor was created for sort=${position.sort}&order=${position.order}`, 400);
+    }
+    return position;
+  },
+
+  /**
+   * Sign a cursor payload with CURSOR_SECRET
+   */
+  sign(payload: string): string {
+    return createHmac('sha256', env.CURSOR_SECRET).update(payload).digest('base64url');
+  },
+
+  /**
+   * Copy the filters and sort of a listing query into query string parameters, leaving out the
+   * parameters that locate a page
+   * @param {object} query Validated query of the listing
+   * @returns {URLSearchParams} The parameters, in the order of the query
+   */
+  toSearchParams(query: object): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '' && !POSITION_PARAMS.includes(name)) {
+        params.set(name, String(value));
+      }
+    }
+    return params;
+  },
+
+  /**
+   * Build the links of an offset-paginated listing
+   * @param {string} baseUrl Path of the listing, e.g. `/api/media`
+   * @param {URLSearchParams} params Filters and sort of the listing
+   * @param {number} page Current page number
+   * @param {number} pageSize Number of items per page
+   * @param {number} pages Total number of pages
+   * @returns {PaginationLinks} Links to the current, next and previous pages
+   */
+  pageLinks(baseUrl: string, params: URLSearchParams, page: number, pageSize: number, pages: number): PaginationLinks {
+    const buildLink = (p: number) => {
+      const linkParams = new URLSearchParams(params);
+      linkParams.set('page', p.toString());
+      linkParams.set('pageSize', pageSize.toString());
+      return `${baseUrl}?${linkParams.toString()}`;
+    };
+
+    return {
+      self: buildLink(page),
+      next: page < pages ? buildLink(page + 1) : null,
+      prev: page > 1 ? buildLink(page - 1) : null,
+    };
+  },
+
+  /**
+   * Build the links of a cursor-paginated listing
+   * @param {string} baseUrl Path of the listing, e.g. `/api/media`
+   * @param {URLSearchParams} params Filters and sort of the listing
+   * @param {number} pageSize Number of items per page
+   * @param {{ self: string; next: string | null; prev: string | null }} cursors Cursors of the current, next and previous pages
+   * @returns {PaginationLinks} Links to the current, next and previous pages
+   */
+  cursorLinks(
+    baseUrl: string,
+    params: URLSearchParams,
+    pageSize: number,
+    cursors: { self: string; next: string | null; prev: string | null }
+  ): PaginationLinks {
+    const buildLink = (cursor: string) => {
+      const linkParams = new URLSearchParams(params);
+      linkParams.set('pageSize', pageSize.toString());
+      linkParams.set('cursor', cursor);
+      return `${baseUrl}?${linkParams.toString()}`;
+    };
+
+    return {
+      self: buildLink(cursors.self),
+      next: cursors.next ? buildLink(cursors.next) : null,
+      prev: cursors.prev ? buildLink(cursors.prev) : null,
+    };
+  },
+};
@@ -0,0 +1,303 @@
+import prisma from "@/db";
+import { AccessType } from "@/generated/prisma/browser";
+import type { MediaAvailability, Platform, PlatformKind, Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { paginationService } from "@/services/pagination.service";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import type { PaginatedData, PlatformData } from "@/types/types";
+
+/** Access types that let a subscriber watch without paying more */
+const WATCHABLE_ACCESS: AccessType[] = [AccessType.SUBSCRIPTION, AccessType.FREE];
+
+export type AvailabilityWithPlatform = Prisma.MediaAvailabilityGetPayload<{ include: { platform: true } }>;
+
+export type Subscription = Prisma.UserPlatformGetPayload<{ include: { platform: true } }>;
+
+export const platformService = {
+  /**
+   * List the registered platforms ordered by name
+   * @param {{ page?: number; pageSize?: number; kind?: PlatformKind; region?: string }} query Pagination and filters,
+   * `region` also keeps international platforms
+   * @returns {Promise<PaginatedData<Platform>>} Paginated list of platforms
+   */
+  async listPlatforms(
+    query: { page?: number; pageSize?: number; kind?: PlatformKind; region?: string }
+  ): Promise<PaginatedData<Platform>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const where: Prisma.PlatformWhereInput = {
+      kind: query.kind,
+      ...(query.region ? { OR: [{ region: query.region }, { region: null }] } : {}),
+    };
+
+    const [data, total] = await Promise.all([
+      prisma.platform.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      }),
+      prisma.platform.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks(
+        '/api/platforms',
+        paginationService.toSearchParams({ kind: query.kind, region: query.region }),
+        page,
+        pageSize,
+        pages
+      ),
+    };
+  },
+
+  /**
+   * Get a registered platform
+   * @param {string} platformId Platform ID
+   * @returns {Promise<Platform>} The platform
+   * @throws AppError 404 if the platform does not exist
+   */
+  async getPlatform(platformId: string): Promise<Platform> {
+    const platform = await prisma.platform.findUnique({ where: { id: platformId } });
+    if (!platform) {
+      throw new AppError('Platform not found', 404);
+    }
+    return platform;
+  },
+
+  /**
+   * Register a platform. Reserved to admins.
+   * @param {PlatformData} data Name, kind, region and logo of the platform
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<Platform>} The created platform
+   * @throws AppError 403 if the user is not an admin, 409 if a platform already has this name
+   */
+  async createPlatform(data: PlatformData, user: PolicyUser): Promise<Platform> {
+    this.assertAdmin(user);
+    await this.assertNameAvailable(data.name);
+    return prisma.platform.create({ data });
+  },
+
+  /**
+   * Update a platform. Reserved to admins.
+   * @param {string} platformId Platform ID
+   * @param {Partial<PlatformData>} data Fields to update, null region for an international platform
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<Platform>} The updated platform
+   * @throws AppError 403 if the user is not an admin, 404 if the platform does not exist,
+   * 409 if another platform already has the new name
+   */
+  async updatePlatform(platformId: string, data: Partial<PlatformData>, user: PolicyUser): Promise<Platform> {
+    this.assertAdmin(user);
+    const platform = await this.getPlatform(platformId);
+    if (data.name && data.name !== platform.name) {
+      await this.assertNameAvailable(data.name);
+    }
+    return prisma.platform.update({ where: { id: platformId }, data });
+  },
+
+  /**
+   * Delete a platform with its media availability and user subscriptions. Reserved to admins.
+   * @param {string} platformId Platform ID
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<void>}
+   * @throws AppError 403 if the user is not an admin, 404 if the platform does not exist
+   */
+  async deletePlatform(platformId: string, user: PolicyUser): Promise<void> {
+    this.assertAdmin(user);
+    await this.getPlatform(platformId);
+    await prisma.platform.delete({ where: { id: platformId } });
+  },
+
+  /**
+   * List where a media can be watched or read.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @returns {Promise<AvailabilityWithPlatform[]>} Availability ordered by platform name, region and access type
+   */
+  async listAvailability(mediaId: string): Promise<AvailabilityWithPlatform[]> {
+    return prisma.mediaAvailability.findMany({
+      where: { mediaId },
+      include: { platform: true },
+      orderBy: [{ platform: { name: 'asc' } }, { region: 'asc' }, { accessType: 'asc' }],
+    });
+  },
+
+  /**
+   * Record that a media is available on a platform in a region.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {{ platformId: string; region: string; accessType: AccessType; url?: string }} data Platform, region, access type and link
+   * @returns {Promise<AvailabilityWithPlatform>} The created availability
+   * @throws AppError 404 if the platform does not exist, 409 if the same availability is already recorded
+   */
+  async addAvailability(
+    mediaId: string,
+    data: { platformId: string; region: string; accessType: AccessType; url?: string }
+  ): Promise<AvailabilityWithPlatform> {
+    await this.getPlatform(data.platformId);
+    const existing = await prisma.mediaAvailability.findUnique({
+      where: {
+        mediaId_platformId_region_accessType: {
+          mediaId,
+          platformId: data.platformId,
+          region: data.region,
+          accessType: data.accessType,
+        },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError('This availability is already recorded', 409);
+    }
+
+    return prisma.mediaAvailability.create({
+      data: { mediaId, ...data },
+      include: { platform: true },
+    });
+  },
+
+  /**
+   * Remove an availability of a media.
+   * Requires `media:update` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} availabilityId Availability ID
+   * @returns {Promise<MediaAvailability>} The removed availability
+   * @throws AppError 404 if the media has no such availability
+   */
+  async removeAvailability(mediaId: string, availabilityId: string): Promise<MediaAvailability> {
+    const availability = await prisma.mediaAvailability.findFirst({ where: { id: availabilityId, mediaId } });
+    if (!availability) {
+      throw new AppError('Availability not found', 404);
+    }
+    return prisma.mediaAvailability.delete({ where: { id: availabilityId } });
+  },
+
+  /**
+   * List the platforms a user subscribes to
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<Subscription[]>} Subscriptions ordered by platform name and region
+   */
+  async listSubscriptions(userId: string): Promise<Subscription[]> {
+    return prisma.userPlatform.findMany({
+      where: { userId },
+      include: { platform: true },
+      orderBy: [{ platform: { name: 'asc' } }, { region: 'asc' }],
+    });
+  },
+
+  /**
+   * Replace the platforms a user subscribes to
+   * @param {string} userId Authenticated user ID
+   * @param {{ platformId: string; region: string }[]} subscriptions Subscribed platforms and their region
+   * @returns {Promise<Subscription[]>} The new subscriptions
+   * @throws AppError 404 if a platform does not exist
+   */
+  async setSubscriptions(userId: string, subscriptions: { platformId: string; region: string }[]): Promise<Subscription[]> {
+    const unique = [...new Map(subscriptions.map((s) => [`${s.platformId}|${s.region}`, s])).values()];
+    const platformIds = [...new Set(unique.map((s) => s.platformId))];
+    const found = await prisma.platform.count({ where: { id: { in: platformIds } } });
+    if (found !== platformIds.length) {
+      throw new AppError('Platform not found', 404);
+    }
+
+    await prisma.$transaction([
+      prisma.userPlatform.deleteMany({ where: { userId } }),
+      prisma.userPlatform.createMany({ data: unique.map((s) => ({ userId, ...s })) }),
+    ]);
+    return this.listSubscriptions(userId);
+  },
+
+  /**
+   * Resolve the platform names of a media against the registry, ignoring case
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string[]} names Platform names given for the media
+   * @returns {Promise<string[]>} The registered names, without duplicates, in the given order
+   * @throws AppError 400 if a name is not registered
+   */
+  async resolveNames(tx: Prisma.TransactionClient, names: string[]): Promise<string[]> {
+    const wanted = [...new Set(names.map((name) => name.trim()).filter((name) => name !== ''))];
+    if (wanted.length === 0) {
+      return [];
+    }
+
+    const platforms = await tx.platform.findMany({
+      where: { name: { in: wanted, mode: 'insensitive' } },
+      select: { name: true },
+    });
+    const byName = new Map(platforms.map((platform) => [platform.name.toLowerCase(), platform.name]));
+    const unknown = wanted.filter((name) => !byName.has(name.toLowerCase()));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown platform: ${unknown.join(', ')}`, 400);
+    }
+    return [...new Set(wanted.flatMap((name) => byName.get(name.toLowerCase()) ?? []))];
+  },
+
+  /**
+   * Build a Prisma where fragment matching the media listed on any of the given platforms, or with
+   * a recorded availability on one of them (matched ignoring case)
+   * @param {string[]} names Platform names
+   * @returns {Prisma.MediaWhereInput} Where fragment to combine with other media filters
+   */
+  namesWhere(names: string[]): Prisma.MediaWhereInput {
+    return {
+      OR: [
+        { platforms: { hasSome: names } },
+        { availability: { some: { platform: { name: { in: names, mode: 'insensitive' } } } } },
+      ],
+    };
+  },
+
+  /**
+   * Build a Prisma where fragment matching the media a user can watch without paying more: available
+   * for free or by subscription on a platform they subscribe to, in the region of their subscription
+   * @param {string} userId Authenticated user ID
+   * @returns {Promise<Prisma.MediaWhereInput>} Where fragment to combine with other media filters
+   */
+  async availableToWhere(userId: string): Promise<Prisma.MediaWhereInput> {
+    const subscriptions = await prisma.userPlatform.findMany({
+      where: { userId },
+      select: { platformId: true, region: true },
+    });
+    if (subscriptions.length === 0) {
+      return { id: { in: [] } };
+    }
+
+    return {
+      availability: {
+        some: {
+          accessType: { in: WATCHABLE_ACCESS },
+          OR: subscriptions,
+        },
+      },
+    };
+  },
+
+  /**
+   * Ensure the user is a catalog admin
+   * @throws AppError 403 if the user is not an admin
+   */
+  assertAdmin(user: PolicyUser): void {
+    if (!policyService.isAdmin(user)) {
+      throw new AppError('Forbidden', 403);
+    }
+  },
+
+  /**
+   * Ensure no platform has the given name
+   * @throws AppError 409 if the name is taken
+   */
+  async assertNameAvailable(name: string): Promise<void> {
+    const existing = await prisma.platform.findUnique({ where: { name }, select: { id: true } });
+    if (existing) {
+      throw new AppError(`A platform named '${name}' already exists`, 409);
+    }
+  },
+};
@@ -0,0 +1,488 @@
+import prisma from "@/db";
+import { CollectionRole, Visibility } from "@/generated/prisma/browser";
+import { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import env from "../../env";
+
+/**
+ * Permission policy for collections and everything reached through them.
+ *
+ * A user's role on a collection is OWNER when they own it, the role of their *accepted*
+ * membership otherwise, and none at all for pending invitations or strangers.
+ * `public` actions are also granted to anyone (including anonymous users) on PUBLIC collections.
+ *
+ * Collections nest up to MAX_COLLECTION_DEPTH levels. Roles inherit down the tree: owning an
+ * ancestor makes a user OWNER of every descendant, and an accepted membership on an ancestor grants
+ * the same role on every descendant. The effective role is the highest one found on the collection
+ * and its ancestors. Visibility does not inherit: a PUBLIC sub-collection of a PRIVATE collection is
+ * readable by anyone, a PRIVATE sub-collection of a PUBLIC one is not.
+ *
+ * | Action                     | Public | READER | COLLABORATOR | OWNER |
+ * |----------------------------|:------:|:------:|:------------:|:-----:|
+ * | collection:read            |   x    |   x    |      x       |   x   |
+ * | collection:update          |        |        |      x       |   x   |
+ * | collection:delete          |        |        |              |   x   |
+ * | collection:manageMedia     |        |        |      x       |   x   |
+ * | collection:createChild     |        |        |      x       |   x   |
+ * | collection:move            |        |        |              |   x   |
+ * | media:read                 |   x    |   x    |      x       |   x   |
+ * | media:update               |        |        |      x       |   x   |
+ * | media:delete               |        |        |              |   x   |
+ * | member:read                |   x    |   x    |      x       |   x   |
+ * | member:invite              |        |        |              |   x   |
+ * | member:update              |        |        |              |   x   |
+ * | member:remove              |        |        |              |   x   |
+ * | member:transferOwnership   |        |        |              |   x   |
+ * | comment:read               |   x    |   x    |      x       |   x   |
+ * | comment:create             |        |   x    |      x       |   x   |
+ * | comment:moderate           |        |        |              |   x   |
+ * | activity:read              |   x    |   x    |      x       |   x   |
+ *
+ * Catalog-wide operations that are not tied to a collection (merging duplicates, ...) are reserved to
+ * admins, listed by email in `ADMIN_EMAILS`.
+ *
+ * Media belong to several collections. `media:read` is granted when *any* collection holding the
+ * media grants it; every other media action must be granted by *every* collection holding it, so a
+ * role on one collection never lets a user modify media that another collection exposes to them.
+ */
+export const ACTION_MATRIX = {
+  'collection:read': { public: true, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+  'collection:update': { public: false, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR] },
+  'collection:delete': { public: false, roles: [CollectionRole.OWNER] },
+  'collection:manageMedia': { public: false, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR] },
+  'collection:createChild': { public: false, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR] },
+  'collection:move': { public: false, roles: [CollectionRole.OWNER] },
+  'media:read': { public: true, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+  'media:update': { public: false, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR] },
+  'media:delete': { public: false, roles: [CollectionRole.OWNER] },
+  'member:read': { public: true, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+  'member:invite': { public: false, roles: [CollectionRole.OWNER] },
+  'member:update': { public: false, roles: [CollectionRole.OWNER] },
+  'member:remove': { public: false, roles: [CollectionRole.OWNER] },
+  'member:transferOwnership': { public: false, roles: [CollectionRole.OWNER] },
+  'comment:read': { public: true, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+  'comment:create': { public: false, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+  'comment:moderate': { public: false, roles: [CollectionRole.OWNER] },
+  'activity:read': { public: true, roles: [CollectionRole.OWNER, CollectionRole.COLLABORATOR, CollectionRole.READER] },
+} as const satisfies Record<string, { public: boolean; roles: readonly CollectionRole[] }>;
+
+export type PolicyAction = keyof typeof ACTION_MATRIX;
+
+/**
+ * Maximum number of levels in a collection tree, the root being level 1
+ */
+export const MAX_COLLECTION_DEPTH = 5;
+
+const ROLE_RANK: Record<CollectionRole, number> = {
+  [CollectionRole.READER]: 1,
+  [CollectionRole.COLLABORATOR]: 2,
+  [CollectionRole.OWNER]: 3,
+};
+
+export type MediaAction = Extract<PolicyAction, `media:${string}`>;
+
+export type PolicyUser = { id: string; email?: string | null } | null | undefined;
+
+type CollectionMembers = { userId: string; role: CollectionRole; accepted: boolean }[];
+
+export type CollectionResource = {
+  id: string;
+  ownerId: string;
+  visibility: Visibility;
+  members: CollectionMembers;
+  /** Ancestors from the parent up to the root, with the user's memberships */
+  ancestors: { id: string; ownerId: string; members: CollectionMembers }[];
+};
+
+/**
+ * Collection row as loaded by collectionResourceSelect, ancestors nested through `parent`
+ */
+type CollectionNode = Omit<CollectionResource, 'ancestors'> & {
+  parent?: (Omit<CollectionNode, 'visibility'>) | null;
+};
+
+export type MediaResource = {
+  id: string;
+  collections: { collection: CollectionResource }[];
+};
+
+export type PolicyResource =
+  | { type: 'collection'; collection: CollectionResource }
+  | { type: 'media'; media: MediaResource };
+
+/**
+ * Select the fields of a collection needed to evaluate the policy for one user,
+ * including its ancestors up to the root
+ */
+const collectionResourceSelect = (userId?: string) => ({
+  id: true,
+  ownerId: true,
+  visibility: true,
+  ...ancestorSelect(userId, MAX_COLLECTION_DEPTH),
+}) satisfies Prisma.CollectionSelect;
+
+const membersSelect = (userId?: string) => ({
+  members: {
+    where: { userId: userId ?? '', accepted: true },
+    select: { userId: true, role: true, accepted: true },
+  },
+}) satisfies Prisma.CollectionSelect;
+
+/**
+ * Select the user's memberships on a collection and, recursively, on `depth - 1` ancestors
+ */
+const ancestorSelect = (userId: string | undefined, depth: number): Prisma.CollectionSelect => ({
+  ...membersSelect(userId),
+  ...(depth > 1
+    ? { parent: { select: { id: true, ownerId: true, ...ancestorSelect(userId, depth - 1) } } }
+    : {}),
+});
+
+/**
+ * Flatten the nested `parent` chain of a loaded collection into its ancestors list
+ */
+const toCollectionResource = (node: CollectionNode): CollectionResource => {
+  const ancestors: CollectionResource['ancestors'] = [];
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    ancestors.push({ id: parent.id, ownerId: parent.ownerId, members: parent.members });
+  }
+  return { id: node.id, ownerId: node.ownerId, visibility: node.visibility, members: node.members, ancestors };
+};
+
+/**
+ * Select the fields of a media entry needed to evaluate the policy for one user, with all of its collections
+ */
+const mediaResourceSelect = (userId?: string) => ({
+  id: true,
+  collections: {
+    select: { collection: { select: collectionResourceSelect(userId) } },
+  },
+}) satisfies Prisma.MediaSelect;
+
+/**
+ * Flatten the collections of a loaded media entry
+ */
+const toMediaResource = (media: { id: string; collections: { collection: unknown }[] }): MediaResource => ({
+  id: media.id,
+  collections: media.collections.map((item) => ({
+    collection: toCollectionResource(item.collection as CollectionNode),
+  })),
+});
+
+export const policyService = {
+  /**
+   * Check whether a user is a catalog admin
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @returns {boolean} True if the user's email is listed in ADMIN_EMAILS
+   */
+  isAdmin(user: PolicyUser): boolean {
+    return !!user?.email && env.ADMIN_EMAILS.includes(user.email.toLowerCase());
+  },
+
+  /**
+   * Resolve the effective role of a user on a collection
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {CollectionResource} collection Collection with the user's membership rows
+   * @returns {CollectionRole | null} The role, or null when the user has none
+   */
+  resolveRole(user: PolicyUser, collection: CollectionResource): CollectionRole | null {
+    if (!user) {
+      return null;
+    }
+
+    let role: CollectionRole | null = null;
+    for (const node of [collection, ...collection.ancestors]) {
+      if (node.ownerId === user.id) {
+        return CollectionRole.OWNER;
+      }
+      const membership = node.members.find((member) => member.userId === user.id && member.accepted);
+      if (membership && (!role || ROLE_RANK[membership.role] > ROLE_RANK[role])) {
+        role = membership.role;
+      }
+    }
+    return role;
+  },
+
+  /**
+   * Check in memory whether a user may perform an action on a resource
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {PolicyAction} action Action to perform
+   * @param {PolicyResource} resource Collection or media, loaded with the user's memberships
+   * @returns {boolean} True if the action is allowed
+   */
+  can(user: PolicyUser, action: PolicyAction, resource: PolicyResource): boolean {
+    if (resource.type === 'collection') {
+      return this.canOnCollection(user, action, resource.collection);
+    }
+
+    const collections = resource.media.collections.map((item) => item.collection);
+    if (action === 'media:read') {
+      return collections.some((collection) => this.canOnCollection(user, action, collection));
+    }
+    return collections.length > 0
+      && collections.every((collection) => this.canOnCollection(user, action, collection));
+  },
+
+  /**
+   * Evaluate the action matrix on a single collection
+   */
+  canOnCollection(user: PolicyUser, action: PolicyAction, collection: CollectionResource): boolean {
+    const rule = ACTION_MATRIX[action];
+    if (rule.public && collection.visibility === Visibility.PUBLIC) {
+      return true;
+    }
+    const role = this.resolveRole(user, collection);
+    return role !== null && (rule.roles as readonly CollectionRole[]).includes(role);
+  },
+
+  /**
+   * Build a Prisma where fragment matching the collections on which the action is allowed
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {PolicyAction} action Action to perform
+   * @returns {Prisma.CollectionWhereInput} Where fragment to combine with other filters
+   */
+  collectionWhere(user: PolicyUser, action: PolicyAction): Prisma.CollectionWhereInput {
+    const rule = ACTION_MATRIX[action];
+    const roles = rule.roles as readonly CollectionRole[];
+    const conditions: Prisma.CollectionWhereInput[] = [];
+
+    if (rule.public) {
+      conditions.push({ visibility: Visibility.PUBLIC });
+    }
+
+    if (user) {
+      const grants: Prisma.CollectionWhereInput[] = [];
+      if (roles.includes(CollectionRole.OWNER)) {
+        grants.push({ ownerId: user.id });
+      }
+      const memberRoles = roles.filter((role) => role !== CollectionRole.OWNER);
+      if (memberRoles.length > 0) {
+        grants.push({ members: { some: { userId: user.id, accepted: true, role: { in: memberRoles } } } });
+      }
+      if (grants.length > 0) {
+        conditions.push(...grants, this.inheritedWhere(grants, MAX_COLLECTION_DEPTH - 1));
+      }
+    }
+
+    if (conditions.length === 0) {
+      return { id: { in: [] } };
+    }
+    return conditions.length === 1 ? conditions[0]! : { OR: conditions };
+  },
+
+  /**
+   * Build a Prisma where fragment matching the collections a user owns or is an accepted member of,
+   * directly or through an ancestor, whatever their visibility
+   * @param {string} userId Authenticated user ID
+   * @returns {Prisma.CollectionWhereInput} Where fragment to combine with other filters
+   */
+  membershipWhere(userId: string): Prisma.CollectionWhereInput {
+    const grants: Prisma.CollectionWhereInput[] = [
+      { ownerId: userId },
+      { members: { some: { userId, accepted: true } } },
+    ];
+    return { OR: [...grants, this.inheritedWhere(grants, MAX_COLLECTION_DEPTH - 1)] };
+  },
+
+  /**
+   * Match collections having an ancestor, up to `depth` levels up, that satisfies one of the grants
+   */
+  inheritedWhere(grants: Prisma.CollectionWhereInput[], depth: number): Prisma.CollectionWhereInput {
+    const ancestorConditions = depth > 1 ? [...grants, this.inheritedWhere(grants, depth - 1)] : grants;
+    return { parent: { is: { OR: ancestorConditions } } };
+  },
+
+  /**
+   * Build a Prisma where fragment matching the media on which the action is allowed,
+   * following the any/every rule documented on the action matrix
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {MediaAction} action Media action to perform
+   * @returns {Prisma.MediaWhereInput} Where fragment to combine with other filters
+   */
+  mediaWhere(user: PolicyUser, action: MediaAction): Prisma.MediaWhereInput {
+    const collectionWhere = this.collectionWhere(user, action);
+
+    if (action === 'media:read') {
+      return { collections: { some: { collection: collectionWhere } } };
+    }
+
+    return {
+      AND: [
+        { collections: { some: {} } },
+        { collections: { every: { collection: collectionWhere } } },
+      ],
+    };
+  },
+
+  /**
+   * Build a raw SQL subquery selecting the IDs of the collections on which the action is allowed,
+   * the counterpart of collectionWhere for queries written in SQL. Inherited roles are resolved with a
+   * recursive walk down from the granting collections, MAX_COLLECTION_DEPTH levels at most.
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {PolicyAction} action Action to perform
+   * @returns {Prisma.Sql} Subquery to use as `"id" IN (...)`
+   */
+  collectionIdsSql(user: PolicyUser, action: PolicyAction): Prisma.Sql {
+    const rule = ACTION_MATRIX[action];
+    const roles = rule.roles as readonly CollectionRole[];
+    const publicIds = rule.public
+      ? Prisma.sql`SELECT "id" FROM "collections" WHERE "visibility" = 'PUBLIC'`
+      : Prisma.sql`SELECT "id" FROM "collections" WHERE false`;
+
+    const grants: Prisma.Sql[] = [];
+    if (user && roles.includes(CollectionRole.OWNER)) {
+      grants.push(Prisma.sql`c."ownerId" = ${user.id}`);
+    }
+    const memberRoles = roles.filter((role) => role !== CollectionRole.OWNER);
+    if (user && memberRoles.length > 0) {
+      grants.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "collection_users" cu
+        WHERE cu."collectionId" = c."id" AND cu."userId" = ${user.id} AND cu."accepted"
+          AND cu."role"::text = ANY(${memberRoles}::text[])
+      )`);
+    }
+    if (grants.length === 0) {
+      return publicIds;
+    }
+
+    return Prisma.sql`
+      WITH RECURSIVE "granted" ("id", "depth") AS (
+        SELECT c."id", 1 FROM "collections" c WHERE ${Prisma.join(grants, ' OR ')}
+        UNION
+        SELECT c."id", g."depth" + 1 FROM "collections" c JOIN "granted" g ON c."parent_id" = g."id"
+        WHERE g."depth" < ${MAX_COLLECTION_DEPTH}
+      )
+      ${publicIds}
+      UNION
+      SELECT "id" FROM "granted"`;
+  },
+
+  /**
+   * Load a collection with what the policy needs for the given user
+   * @param {string} collectionId Collection ID
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<CollectionResource | null>} The collection resource, or null if it does not exist
+   */
+  async findCollection(collectionId: string, userId?: string): Promise<CollectionResource | null> {
+    const collection = await prisma.collection.findUnique({
+      where: { id: collectionId },
+      select: collectionResourceSelect(userId),
+    });
+    return collection ? toCollectionResource(collection as CollectionNode) : null;
+  },
+
+  /**
+   * Load a media entry and all of its collections with what the policy needs for the given user
+   * @param {string} mediaId Media ID
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<MediaResource | null>} The media resource, or null if it does not exist
+   */
+  async findMedia(mediaId: string, userId?: string): Promise<MediaResource | null> {
+    const media = await prisma.media.findUnique({
+      where: { id: mediaId },
+      select: mediaResourceSelect(userId),
+    });
+    return media ? toMediaResource(media) : null;
+  },
+
+  /**
+   * Load several collections with what the policy needs for the given user, in a single query
+   * @param {string[]} collectionIds Collection IDs
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<Map<string, CollectionResource>>} The collection resources keyed by ID, missing collections left out
+   */
+  async findCollections(collectionIds: string[], userId?: string): Promise<Map<string, CollectionResource>> {
+    if (collectionIds.length === 0) {
+      return new Map();
+    }
+    const collections = await prisma.collection.findMany({
+      where: { id: { in: collectionIds } },
+      select: collectionResourceSelect(userId),
+    });
+    return new Map(collections.map((collection) => [collection.id, toCollectionResource(collection as CollectionNode)]));
+  },
+
+  /**
+   * Load several media entries and their collections with what the policy needs for the given user, in a single query
+   * @param {string[]} mediaIds Media IDs
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<Map<string, MediaResource>>} The media resources keyed by ID, missing media left out
+   */
+  async findMediaMany(mediaIds: string[], userId?: string): Promise<Map<string, MediaResource>> {
+    if (mediaIds.length === 0) {
+      return new Map();
+    }
+    const media = await prisma.media.findMany({
+      where: { id: { in: mediaIds } },
+      select: mediaResourceSelect(userId),
+    });
+    return new Map(media.map((entry) => [entry.id, toMediaResource(entry)]));
+  },
+
+  /**
+   * Throw the error matching a denied action: 404 when the resource is not even readable
+   * (so its existence is not leaked), 401 for anonymous users, 403 otherwise
+   */
+  deny(user: PolicyUser, readable: boolean, notFoundMessage: string): never {
+    if (!readable) {
+      throw new AppError(notFoundMessage, 404);
+    }
+    if (!user) {
+      throw new AppError('Unauthorized', 401);
+    }
+    throw new AppError('Forbidden', 403);
+  },
+
+  /**
+   * Require an action on a collection
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {PolicyAction} action Action to perform
+   * @param {string} collectionId Collection ID
+   * @returns {Promise<CollectionResource>} The loaded collection resource
+   * @throws AppError 404 if missing or unreadable, 401 if anonymous, 403 if the role is insufficient
+   */
+  async authorizeCollection(user: PolicyUser, action: PolicyAction, collectionId: string): Promise<CollectionResource> {
+    const collection = await this.findCollection(collectionId, user?.id);
+    if (!collection) {
+      throw new AppError('Collection not found', 404);
+    }
+
+    this.assertCan(user, action, { type: 'collection', collection });
+    return collection;
+  },
+
+  /**
+   * Require an action on a media entry
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {MediaAction} action Media action to perform
+   * @param {string} mediaId Media ID
+   * @returns {Promise<MediaResource>} The loaded media resource
+   * @throws AppError 404 if missing or unreadable, 401 if anonymous, 403 if the role is insufficient
+   */
+  async authorizeMedia(user: PolicyUser, action: MediaAction, mediaId: string): Promise<MediaResource> {
+    const media = await this.findMedia(mediaId, user?.id);
+    if (!media) {
+      throw new AppError('Media not found', 404);
+    }
+
+    this.assertCan(user, action, { type: 'media', media });
+    return media;
+  },
+
+  /**
+   * Require an action on an already loaded resource, e.g. one of a batch loaded with findMediaMany
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {PolicyAction} action Action to perform
+   * @param {PolicyResource} resource Collection or media, loaded with the user's memberships
+   * @throws AppError 404 if unreadable, 401 if anonymous, 403 if the role is insufficient
+   */
+  assertCan(user: PolicyUser, action: PolicyAction, resource: PolicyResource): void {
+    if (this.can(user, action, resource)) {
+      return;
+    }
+    if (resource.type === 'collection') {
+      this.deny(user, this.can(user, 'collection:read', resource), 'Collection not found');
+    }
+    this.deny(user, this.can(user, 'media:read', resource), 'Media not found');
+  },
+};
@@ -0,0 +1,205 @@
+import { tryGetContext } from "hono/context-storage";
+import type { RequestIdVariables } from "hono/request-id";
+import type { AuthType } from "@/middleware/auth";
+import { AppError } from "@/middleware/errorHandler";
+import { createMemoryBroker } from "@/providers/realtime/memory.broker";
+import { realtimeClientMessageSchema } from "@/schemas/realtime.schema";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import type { CollectionEvent, RealtimeBroker, RealtimeEvent, RealtimeEventType } from "@/types/types";
+import env from "../../env";
+
+/** Maximum number of collections a connection can subscribe to */
+export const MAX_SUBSCRIPTIONS = 50;
+
+/**
+ * Factories of the supported brokers, keyed by the name used in REALTIME_BROKER
+ */
+const BROKER_FACTORIES: Record<string, () => RealtimeBroker> = {
+  memory: () => createMemoryBroker(),
+};
+
+/** Events after which a subscriber may have lost access to the collection */
+const ACCESS_EVENTS: RealtimeEventType[] = ['member.updated', 'member.removed', 'collection.updated', 'access.changed'];
+
+let broker: RealtimeBroker | null = null;
+
+/** Messages the server sends over the realtime socket */
+export type RealtimeServerMessage =
+  | { type: 'subscribed'; collectionId: string }
+  | { type: 'unsubscribed'; collectionId: string; reason: string | null }
+  | { type: 'event'; event: RealtimeEvent }
+  | { type: 'error'; collectionId: string | null; error: string };
+
+/** The subscriptions of one connection */
+export type RealtimeSession = {
+  handle(message: string): Promise<void>;
+  close(): void;
+};
+
+export const realtimeService = {
+  /**
+   * Get the broker configured in REALTIME_BROKER, the in-process one when the name is unknown
+   * @returns {RealtimeBroker} The broker
+   */
+  getBroker(): RealtimeBroker {
+    if (broker) {
+      return broker;
+    }
+
+    const factory = BROKER_FACTORIES[env.REALTIME_BROKER];
+    if (!factory) {
+      console.warn(`Unknown realtime broker ${env.REALTIME_BROKER}, using the in-process broker`);
+    }
+    broker = (factory ?? createMemoryBroker)();
+    return broker;
+  },
+
+  /**
+   * Name of the broker channel of a collection
+   */
+  channel(collectionId: string): string {
+    return `collection:${collectionId}`;
+  },
+
+  /**
+   * Publish committed changes to the subscribers of their collections.
+   * The actor and request ID are read from the current request, both null outside of one.
+   * A broker failure is logged and never fails the change, which is already saved.
+   * @param {CollectionEvent[]} events Events to publish, in order
+   * @returns {Promise<void>}
+   */
+  async publish(events: CollectionEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+    const context = tryGetContext<{ Variables: AuthType & RequestIdVariables }>();
+    const actorId = context?.var.user?.id ?? null;
+    const requestId = context?.var.requestId ?? null;
+    const at = new Date().toISOString();
+
+    for (const event of events) {
+      try {
+        await this.getBroker().publish(this.channel(event.collectionId), { ...event, actorId, requestId, at });
+      } catch (error) {
+        console.error(`Error publishing realtime event ${event.type}:`, error);
+      }
+    }
+  },
+
+  /**
+   * Open the subscriptions of a connection. Clients send `subscribe` and `unsubscribe` messages;
+   * subscribing requires `collection:read` on the collection. Access is checked again before delivering
+   * an event that may have revoked it (role change, member removal, collection update, or any of these
+   * on an ancestor, announced by `access.changed`), and the subscription ends when it was, or when the
+   * collection is deleted. `access.changed` itself is not sent to clients.
+   * Events of a connection are delivered in the order they were published.
+   * @param {NonNullable<PolicyUser>} user Authenticated user of the connection
+   * @param {(message: RealtimeServerMessage) => void} send Send a message to the client
+   * @returns {RealtimeSession} The session, to be closed with the connection
+   */
+  openSession(user: NonNullable<PolicyUser>, send: (message: RealtimeServerMessage) => void): RealtimeSession {
+    const subscriptions = new Map<string, () => void>();
+    let delivery = Promise.resolve();
+    let closed = false;
+
+    const end = (collectionId: string, reason: string | null) => {
+      const unsubscribe = subscriptions.get(collectionId);
+      if (!unsubscribe) {
+        return;
+      }
+      unsubscribe();
+      subscriptions.delete(collectionId);
+      send({ type: 'unsubscribed', collectionId, reason });
+    };
+
+    const deliver = async (event: RealtimeEvent) => {
+      if (!subscriptions.has(event.collectionId)) {
+        return;
+      }
+      if (ACCESS_EVENTS.includes(event.type) && !(await this.canRead(user, event.collectionId))) {
+        end(event.collectionId, 'Access revoked');
+        return;
+      }
+      if (event.type === 'access.changed') {
+        return;
+      }
+      send({ type: 'event', event });
+      if (event.type === 'collection.deleted') {
+        end(event.collectionId, 'Collection deleted');
+      }
+    };
+
+    const subscribe = async (collectionId: string) => {
+      if (subscriptions.has(collectionId)) {
+        send({ type: 'subscribed', collectionId });
+        return;
+      }
+      if (subscriptions.size >= MAX_SUBSCRIPTIONS) {
+        send({ type: 'error', collectionId, error: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection` });
+        return;
+      }
+      try {
+        await policyService.authorizeCollection(user, 'collection:read', collectionId);
+      } catch (error) {
+        send({ type: 'error', collectionId, error: error instanceof AppError ? error.message : 'Failed to subscribe' });
+        return;
+      }
+      // The connection may have closed, or subscribed concurrently, while access was checked
+      if (closed || subscriptions.has(collectionId)) {
+        return;
+      }
+      subscriptions.set(collectionId, this.getBroker().subscribe(this.channel(collectionId), (event) => {
+        delivery = delivery.then(() => deliver(event)).catch((error) => {
+          console.error(`Error delivering realtime event ${event.type}:`, error);
+        });
+      }));
+      send({ type: 'subscribed', collectionId });
+    };
+
+    return {
+      async handle(message) {
+        let parsed;
+        try {
+          parsed = realtimeClientMessageSchema.safeParse(JSON.parse(message));
+        } catch {
+          parsed = null;
+        }
+        if (!parsed?.success) {
+          send({ type: 'error', collectionId: null, error: 'Invalid message' });
+          return;
+        }
+
+        if (parsed.data.type === 'subscribe') {
+          await subscribe(parsed.data.collectionId);
+        } else if (subscriptions.has(parsed.data.collectionId)) {
+          end(parsed.data.collectionId, null);
+        } else {
+          send({ type: 'unsubscribed', collectionId: parsed.data.collectionId, reason: null });
+        }
+      },
+
+      close() {
+        closed = true;
+        for (const unsubscribe of subscriptions.values()) {
+          unsubscribe();
+        }
+        subscriptions.clear();
+      },
+    };
+  },
+
+  /**
+   * Check whether a user can still read a collection
+   */
+  async canRead(user: NonNullable<PolicyUser>, collectionId: string): Promise<boolean> {
+    try {
+      await policyService.authorizeCollection(user, 'collection:read', collectionId);
+      return true;
+    } catch (error) {
+      if (error instanceof AppError) {
+        return false;
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,351 @@
+import prisma from "@/db";
+import { Visibility, WatchStatus } from "@/generated/prisma/browser";
+import type { Media, Prisma } from "@/generated/prisma/client";
+import { catalogService } from "@/services/catalog.service";
+import { mediaService } from "@/services/media.service";
+import { platformService } from "@/services/platform.service";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import type { PaginatedData, RecommendationQuery } from "@/types/types";
+
+/**
+ * Weights of the similarity signals between a seed media and a candidate
+ */
+const WEIGHTS = {
+  tags: 3,
+  directorAuthor: 1.5,
+  cooccurrence: 1,
+  sameType: 0.5,
+  platform: 0.25,
+  rating: 0.5,
+} as const;
+
+/** Maximum number of seed media describing the user's taste */
+const MAX_SEEDS = 200;
+/** Maximum number of candidates scored per request */
+const MAX_CANDIDATES = 500;
+/** Maximum number of collection items used for co-occurrence */
+const MAX_COOCCURRENCES = 1000;
+
+const seedSelect = {
+  id: true,
+  title: true,
+  type: true,
+  tags: true,
+  platforms: true,
+  directorAuthor: true,
+} satisfies Prisma.MediaSelect;
+
+type SeedFields = Prisma.MediaGetPayload<{ select: typeof seedSelect }>;
+
+type Seed = SeedFields & {
+  weight: number;
+  rating: number | null;
+  tagKeys: Set<string>;
+  directorKey: string | null;
+};
+
+export type Recommendation = {
+  media: Media;
+  score: number;
+  reason: {
+    because: { id: string; title: string };
+    sharedTags: string[];
+    sameDirectorAuthor: boolean;
+    cooccurrences: number;
+    explanation: string;
+  };
+};
+
+export const recommendationService = {
+  /**
+   * Recommend media from public collections that the user does not have yet, based on the tags,
+   * director/author, type and platforms of the media in the user's collections and library,
+   * weighted by the user's ratings, and on how often media appear together in public collections.
+   * Runs on local data only.
+   * @param {string} userId Authenticated user ID
+   * @param {RecommendationQuery} query Pagination, media type and platform filters
+   * @returns {Promise<PaginatedData<Recommendation>>} Recommendations, best first
+   */
+  async recommendForUser(userId: string, query: RecommendationQuery): Promise<PaginatedData<Recommendation>> {
+    const ownedWhere: Prisma.MediaWhereInput = {
+      OR: [
+        { collections: { some: { collection: policyService.membershipWhere(userId) } } },
+        { userMedia: { some: { userId } } },
+      ],
+    };
+
+    const seedMedia = await prisma.media.findMany({
+      where: ownedWhere,
+      take: MAX_SEEDS,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+      select: {
+        ...seedSelect,
+        reviews: { where: { userId }, select: { rating: true } },
+        userMedia: { where: { userId }, select: { status: true } },
+      },
+    });
+
+    const seeds = seedMedia.map(({ reviews, userMedia, ...media }) =>
+      this.toSeed(media, reviews[0]?.rating ?? null, userMedia[0]?.status ?? null)
+    );
+
+    const candidates = await this.findCandidates(
+      seeds,
+      { visibility: Visibility.PUBLIC },
+      { AND: [{ NOT: ownedWhere }, ...this.filterConditions(query)] }
+    );
+
+    return this.paginate(
+      this.rank(candidates.media, seeds, candidates.cooccurrences, 'user'),
+      query,
+      '/api/users/me/recommendations'
+    );
+  },
+
+  /**
+   * Find media similar to a given media among the media readable by the user.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {PolicyUser} user Authenticated user (optional)
+   * @param {RecommendationQuery} query Pagination, media type and platform filters
+   * @returns {Promise<PaginatedData<Recommendation>>} Similar media, most similar first
+   */
+  async findSimilar(mediaId: string, user: PolicyUser, query: RecommendationQuery): Promise<PaginatedData<Recommendation>> {
+    const media = await prisma.media.findUniqueOrThrow({ where: { id: mediaId }, select: seedSelect });
+    const seeds = [this.toSeed(media, null, null)];
+
+    const candidates = await this.findCandidates(
+      seeds,
+      policyService.collectionWhere(user, 'collection:read'),
+      { AND: [{ id: { not: mediaId } }, ...this.filterConditions(query)] }
+    );
+
+    return this.paginate(
+      this.rank(candidates.media, seeds, candidates.cooccurrences, 'media'),
+      query,
+      `/api/media/${mediaId}/similar`
+    );
+  },
+
+  /**
+   * Load the candidates sharing a tag or a director/author with the seeds, or appearing in the
+   * same collections as a seed
+   * @param {Seed[]} seeds Seed media
+   * @param {Prisma.CollectionWhereInput} collectionWhere Collections used for co-occurrence
+   * @param {Prisma.MediaWhereInput} where Restrictions on the candidates
+   * @returns Candidates and, for each collection used for co-occurrence, the seeds it holds
+   */
+  async findCandidates(
+    seeds: Seed[],
+    collectionWhere: Prisma.CollectionWhereInput,
+    where: Prisma.MediaWhereInput
+  ): Promise<{ media: (Media & { collections: { collectionId: string }[] })[]; cooccurrences: Map<string, string[]> }> {
+    if (seeds.length === 0) {
+      return { media: [], cooccurrences: new Map() };
+    }
+
+    const seedItems = await prisma.collectionMedia.findMany({
+      where: { mediaId: { in: seeds.map((seed) => seed.id) }, collection: collectionWhere },
+      select: { collectionId: true, mediaId: true },
+      take: MAX_COOCCURRENCES,
+    });
+    const cooccurrences = new Map<string, string[]>();
+    for (const item of seedItems) {
+      cooccurrences.set(item.collectionId, [...(cooccurrences.get(item.collectionId) ?? []), item.mediaId]);
+    }
+    const collectionIds = [...cooccurrences.keys()];
+
+    const tags = [...new Set(seeds.flatMap((seed) => seed.tags))];
+    const directors = [...new Set(seeds.flatMap((seed) => (seed.directorAuthor ? [seed.directorAuthor] : [])))];
+
+    const media = await prisma.media.findMany({
+      where: {
+        AND: [
+          where,
+          { collections: { some: { collection: collectionWhere } } },
+          {
+            OR: [
+              { tags: { hasSome: tags } },
+              { directorAuthor: { in: directors, mode: 'insensitive' } },
+              { collections: { some: { collectionId: { in: collectionIds } } } },
+            ],
+          },
+        ],
+      },
+      take: MAX_CANDIDATES,
+      orderBy: [{ ratingAverage: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+      include: { collections: { where: { collectionId: { in: collectionIds } }, select: { collectionId: true } } },
+    });
+
+    return { media, cooccurrences };
+  },
+
+  /**
+   * Score candidates against the seeds and sort them, best first.
+   * Each seed contributes its tag overlap (Jaccard index), a matching director/author and the number
+   * of collections holding both media, scaled by the seed weight; the best contributing seed explains
+   * the recommendation.
+   * @param {(Media & { collections: { collectionId: string }[] })[]} candidates Candidates with the co-occurrence collections holding them
+   * @param {Seed[]} seeds Seed media
+   * @param {Map<string, string[]>} cooccurrences Seeds held by each co-occurrence collection
+   * @param {'user' | 'media'} subject Whether the seeds describe a user's taste or a single media
+   * @returns {Recommendation[]} Scored candidates, best first
+   */
+  rank(
+    candidates: (Media & { collections: { collectionId: string }[] })[],
+    seeds: Seed[],
+    cooccurrences: Map<string, string[]>,
+    subject: 'user' | 'media'
+  ): Recommendation[] {
+    const recommendations: Recommendation[] = [];
+
+    for (const { collections, ...media } of candidates) {
+      const tagKeys = new Set(media.tags.map((tag) => catalogService.normalizeText(tag)));
+      const directorKey = media.directorAuthor ? catalogService.normalizeText(media.directorAuthor) : null;
+      const sharedSeeds = new Map<string, number>();
+      for (const { collectionId } of collections) {
+        for (const seedId of cooccurrences.get(collectionId) ?? []) {
+          sharedSeeds.set(seedId, (sharedSeeds.get(seedId) ?? 0) + 1);
+        }
+      }
+
+      let score = 0;
+      let best: { contribution: number; reason: Recommendation['reason'] } | null = null;
+      for (const seed of seeds) {
+        const sharedTags = media.tags.filter((tag) => seed.tagKeys.has(catalogService.normalizeText(tag)));
+        const union = new Set([...tagKeys, ...seed.tagKeys]).size;
+        const sameDirectorAuthor = directorKey !== null && directorKey === seed.directorKey;
+        const cooccurrenceCount = sharedSeeds.get(seed.id) ?? 0;
+
+        const similarity = WEIGHTS.tags * (union > 0 ? sharedTags.length / union : 0)
+          + (sameDirectorAuthor ? WEIGHTS.directorAuthor : 0)
+          + WEIGHTS.cooccurrence * cooccurrenceCount;
+        if (similarity === 0) {
+          continue;
+        }
+
+        const sharesPlatform = media.platforms.some((platform) => seed.platforms.includes(platform));
+        const contribution = seed.weight * (similarity
+          + (media.type === seed.type ? WEIGHTS.sameType : 0)
+          + (sharesPlatform ? WEIGHTS.platform : 0));
+        score += contribution;
+
+        if (!best || contribution > best.contribution) {
+          best = {
+            contribution,
+            reason: {
+              because: { id: seed.id, title: seed.title },
+              sharedTags,
+              sameDirectorAuthor,
+              cooccurrences: cooccurrenceCount,
+              explanation: this.explain(seed, subject),
+            },
+          };
+        }
+      }
+
+      if (!best) {
+        continue;
+      }
+      score += WEIGHTS.rating * ((media.ratingAverage ?? 0) / 10);
+      recommendations.push({ media, score: Math.round(score * 100) / 100, reason: best.reason });
+    }
+
+    return recommendations.sort((a, b) => b.score - a.score || a.media.id.localeCompare(b.media.id));
+  },
+
+  /**
+   * Describe why a seed led to a recommendation
+   * @param {Seed} seed Best contributing seed
+   * @param {'user' | 'media'} subject Whether the seeds describe a user's taste or a single media
+   * @returns {string} Human readable explanation
+   */
+  explain(seed: Seed, subject: 'user' | 'media'): string {
+    if (subject === 'media') {
+      return `Similar to ${seed.title}`;
+    }
+    if (seed.rating !== null && seed.rating >= 7) {
+      return `Because you rated ${seed.title} ${seed.rating}/10`;
+    }
+    return `Because you added ${seed.title}`;
+  },
+
+  /**
+   * Turn a media into a seed. Ratings above 5/10 make a seed count more, ratings below and
+   * dropped media make it count less.
+   * @param {SeedFields} media Seed media
+   * @param {number | null} rating Rating given by the user, if any
+   * @param {WatchStatus | null} status Watch status of the user, if any
+   * @returns {Seed} The weighted seed
+   */
+  toSeed(media: SeedFields, rating: number | null, status: WatchStatus | null): Seed {
+    let weight = rating !== null ? Math.max(rating / 5, 0.1) : 1;
+    if (status === WatchStatus.DROPPED) {
+      weight *= 0.25;
+    }
+
+    return {
+      ...media,
+      weight,
+      rating,
+      tagKeys: new Set(media.tags.map((tag) => catalogService.normalizeText(tag))),
+      directorKey: media.directorAuthor ? catalogService.normalizeText(media.directorAuthor) : null,
+    };
+  },
+
+  /**
+   * Build the type and platform filters of a recommendation query
+   * @param {RecommendationQuery} query Recommendation query
+   * @returns {Prisma.MediaWhereInput[]} Where fragments on the candidates
+   */
+  filterConditions(query: RecommendationQuery): Prisma.MediaWhereInput[] {
+    const conditions: Prisma.MediaWhereInput[] = [];
+    if (query.type) {
+      conditions.push({ type: query.type });
+    }
+    const platformList = mediaService.parseCommaSeparated(query.platforms, query.platform);
+    if (platformList.length > 0) {
+      conditions.push(platformService.namesWhere(platformList));
+    }
+    return conditions;
+  },
+
+  /**
+   * Paginate ranked recommendations
+   * @param {Recommendation[]} ranked Recommendations, best first
+   * @param {RecommendationQuery} query Pagination and filters, kept in the links
+   * @param {string} baseUrl Path of the endpoint
+   * @returns {PaginatedData<Recommendation>} The requested page
+   */
+  paginate(ranked: Recommendation[], query: RecommendationQuery, baseUrl: string): PaginatedData<Recommendation> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const total = ranked.length;
+    const pages = Math.ceil(total / pageSize);
+
+    const queryParams = new URLSearchParams();
+    if (query.type) queryParams.set('type', query.type);
+    if (query.platform) queryParams.set('platform', query.platform);
+    if (query.platforms) queryParams.set('platforms', query.platforms);
+
+    const buildLink = (p: number) => {
+      const params = new URLSearchParams(queryParams);
+      params.set('page', p.toString());
+      params.set('pageSize', pageSize.toString());
+      return `${baseUrl}?${params.toString()}`;
+    };
+
+    return {
+      data: ranked.slice((page - 1) * pageSize, page * pageSize),
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+};
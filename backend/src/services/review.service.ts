@@ -0,0 +1,228 @@
+import prisma from "@/db";
+import { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import { publicUserSelect } from "@/services/user.service";
+import type { PaginatedData, RatingAggregate, ReviewListQuery } from "@/types/types";
+
+const reviewInclude = {
+  user: { select: publicUserSelect },
+} satisfies Prisma.ReviewInclude;
+
+export type ReviewWithUser = Prisma.ReviewGetPayload<{ include: typeof reviewInclude }>;
+
+export const reviewService = {
+  /**
+   * Rate and optionally review a media. A user has at most one review per media.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} userId Authenticated user ID
+   * @param {{ rating: number; body?: string; spoiler?: boolean }} data Rating, review text and spoiler flag
+   * @returns {Promise<ReviewWithUser>} The created review
+   * @throws AppError 409 if the user already reviewed the media
+   */
+  async createReview(
+    mediaId: string,
+    userId: string,
+    data: { rating: number; body?: string; spoiler?: boolean }
+  ): Promise<ReviewWithUser> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const existing = await tx.review.findUnique({
+          where: { userId_mediaId: { userId, mediaId } },
+          select: { id: true },
+        });
+        if (existing) {
+          throw new AppError('You already reviewed this media', 409);
+        }
+
+        const review = await tx.review.create({
+          data: { ...data, mediaId, userId },
+          include: reviewInclude,
+        });
+        await this.refreshMediaRating(tx, mediaId);
+        return review;
+      });
+    } catch (error) {
+      // A concurrent request created the review between the check and the insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError('You already reviewed this media', 409);
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * List the reviews of a media.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {ReviewListQuery} query Pagination, sorting and spoiler handling
+   * @returns {Promise<PaginatedData<ReviewWithUser>>} Paginated list of reviews
+   */
+  async listReviews(mediaId: string, query: ReviewListQuery): Promise<PaginatedData<ReviewWithUser>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const sort = query.sort || 'createdAt';
+    const order = query.order || 'desc';
+    const spoilers = query.spoilers || 'include';
+
+    const where: Prisma.ReviewWhereInput = spoilers === 'exclude'
+      ? { mediaId, spoiler: false }
+      : { mediaId };
+
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ [sort]: order }, { id: 'asc' }],
+        include: reviewInclude,
+      }),
+      prisma.review.count({ where }),
+    ]);
+
+    const data = spoilers === 'hide'
+      ? reviews.map((review) => (review.spoiler ? { ...review, body: null } : review))
+      : reviews;
+
+    const pages = Math.ceil(total / pageSize);
+    const baseUrl = `/api/media/${mediaId}/reviews`;
+    const buildLink = (p: number) => `${baseUrl}?page=${p}&pageSize=${pageSize}&spoilers=${spoilers}&sort=${sort}&order=${order}`;
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: {
+        self: buildLink(page),
+        next: page < pages ? buildLink(page + 1) : null,
+        prev: page > 1 ? buildLink(page - 1) : null,
+      },
+    };
+  },
+
+  /**
+   * Get a review of a media.
+   * Requires `media:read` on the media, enforced by the caller.
+   * @param {string} mediaId Media ID
+   * @param {string} reviewId Review ID
+   * @returns {Promise<ReviewWithUser>} The review
+   * @throws AppError 404 if the review does not belong to the media
+   */
+  async getReview(mediaId: string, reviewId: string): Promise<ReviewWithUser> {
+    const review = await prisma.review.findFirst({
+      where: { id: reviewId, mediaId },
+      include: reviewInclude,
+    });
+
+    if (!review) {
+      throw new AppError('Review not found', 404);
+    }
+
+    return review;
+  },
+
+  /**
+   * Update a review. Only its author can update it.
+   * @param {string} mediaId Media ID
+   * @param {string} reviewId Review ID
+   * @param {string} userId Authenticated user ID
+   * @param {{ rating?: number; body?: string | null; spoiler?: boolean }} data Fields to update
+   * @returns {Promise<ReviewWithUser>} The updated review
+   * @throws AppError 404 if the review does not belong to the media, 403 if the user is not the author
+   */
+  async updateReview(
+    mediaId: string,
+    reviewId: string,
+    userId: string,
+    data: { rating?: number; body?: string | null; spoiler?: boolean }
+  ): Promise<ReviewWithUser> {
+    const review = await this.getReview(mediaId, reviewId);
+    if (review.userId !== userId) {
+      throw new AppError('Forbidden', 403);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.review.update({
+        where: { id: reviewId },
+        data,
+        include: reviewInclude,
+      });
+      if (data.rating !== undefined) {
+        await this.refreshMediaRating(tx, mediaId);
+      }
+      return updated;
+    });
+  },
+
+  /**
+   * Delete a review. Allowed for its author and for catalog admins.
+   * @param {string} mediaId Media ID
+   * @param {string} reviewId Review ID
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the review does not belong to the media, 403 if not allowed
+   */
+  async deleteReview(mediaId: string, reviewId: string, user: PolicyUser): Promise<void> {
+    const review = await this.getReview(mediaId, reviewId);
+    if (review.userId !== user?.id && !policyService.isAdmin(user)) {
+      throw new AppError('Forbidden', 403);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.review.delete({ where: { id: reviewId } });
+      await this.refreshMediaRating(tx, mediaId);
+    });
+  },
+
+  /**
+   * Compute the rating aggregate of a media: average, count and number of ratings per value
+   * @param {string} mediaId Media ID
+   * @returns {Promise<RatingAggregate>} The rating aggregate
+   */
+  async getAggregate(mediaId: string): Promise<RatingAggregate> {
+    const groups = await prisma.review.groupBy({
+      by: ['rating'],
+      where: { mediaId },
+      _count: { _all: true },
+    });
+
+    const distribution: Record<string, number> = {};
+    let count = 0;
+    let sum = 0;
+    for (const group of groups) {
+      distribution[group.rating.toString()] = group._count._all;
+      count += group._count._all;
+      sum += group.rating * group._count._all;
+    }
+
+    return {
+      average: count > 0 ? Math.round((sum / count) * 100) / 100 : null,
+      count,
+      distribution,
+    };
+  },
+
+  /**
+   * Recompute the denormalized rating average and count of a media, used for sorting.
+   * The media row is locked first, so that the aggregate of a concurrent review's transaction
+   * waits for this one to commit and then counts both reviews.
+   * @param {Prisma.TransactionClient} tx Transaction client
+   * @param {string} mediaId Media ID
+   */
+  async refreshMediaRating(tx: Prisma.TransactionClient, mediaId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM "media" WHERE id = ${mediaId} FOR UPDATE`;
+    const { _avg, _count } = await tx.review.aggregate({
+      where: { mediaId },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+
+    await tx.media.update({
+      where: { id: mediaId },
+      data: { ratingAverage: _avg.rating, ratingCount: _count._all },
+    });
+  },
+};
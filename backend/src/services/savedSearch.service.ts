@@ -0,0 +1,149 @@
+import prisma from "@/db";
+import type { Prisma, SavedSearch } from "@/generated/prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import { filterService } from "@/services/filter.service";
+import { mediaService } from "@/services/media.service";
+import { paginationService } from "@/services/pagination.service";
+import type { MediaListing, PaginatedData, SavedSearchQuery } from "@/types/types";
+
+export const savedSearchService = {
+  /**
+   * List the saved searches of a user ordered by name
+   * @param {string} userId Authenticated user ID
+   * @param {{ page?: number; pageSize?: number }} query Pagination
+   * @returns {Promise<PaginatedData<SavedSearch>>} Paginated list of saved searches
+   */
+  async listSavedSearches(userId: string, query: { page?: number; pageSize?: number }): Promise<PaginatedData<SavedSearch>> {
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+    const where: Prisma.SavedSearchWhereInput = { userId };
+
+    const [data, total] = await Promise.all([
+      prisma.savedSearch.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      }),
+      prisma.savedSearch.count({ where }),
+    ]);
+
+    const pages = Math.ceil(total / pageSize);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total,
+      pages,
+      links: paginationService.pageLinks('/api/users/me/saved-searches', new URLSearchParams(), page, pageSize, pages),
+    };
+  },
+
+  /**
+   * Get a saved search of a user
+   * @param {string} userId Authenticated user ID
+   * @param {string} savedSearchId Saved search ID
+   * @returns {Promise<SavedSearch>} The saved search
+   * @throws AppError 404 if the user has no such saved search
+   */
+  async getSavedSearch(userId: string, savedSearchId: string): Promise<SavedSearch> {
+    const savedSearch = await prisma.savedSearch.findFirst({ where: { id: savedSearchId, userId } });
+    if (!savedSearch) {
+      throw new AppError('Saved search not found', 404);
+    }
+    return savedSearch;
+  },
+
+  /**
+   * Save a media listing query under a name
+   * @param {string} userId Authenticated user ID
+   * @param {{ name: string; query: SavedSearchQuery }} data Name and query of the search
+   * @returns {Promise<SavedSearch>} The saved search
+   * @throws AppError 400 if a filter of the query is invalid, 409 if the user already has a search with this name
+   */
+  async createSavedSearch(userId: string, data: { name: string; query: SavedSearchQuery }): Promise<SavedSearch> {
+    filterService.validateFilters(data.query, userId);
+    await this.assertNameAvailable(userId, data.name);
+
+    return prisma.savedSearch.create({
+      data: { userId, name: data.name, query: data.query as Prisma.InputJsonObject },
+    });
+  },
+
+  /**
+   * Rename a saved search and/or replace its query
+   * @param {string} userId Authenticated user ID
+   * @param {string} savedSearchId Saved search ID
+   * @param {{ name?: string; query?: SavedSearchQuery }} data Fields to update
+   * @returns {Promise<SavedSearch>} The updated saved search
+   * @throws AppError 404 if the user has no such saved search, 400 if a filter of the query is invalid,
+   * 409 if the user already has another search with the new name
+   */
+  async updateSavedSearch(
+    userId: string,
+    savedSearchId: string,
+    data: { name?: string; query?: SavedSearchQuery }
+  ): Promise<SavedSearch> {
+    const savedSearch = await this.getSavedSearch(userId, savedSearchId);
+    if (data.query) {
+      filterService.validateFilters(data.query, userId);
+    }
+    if (data.name && data.name !== savedSearch.name) {
+      await this.assertNameAvailable(userId, data.name);
+    }
+
+    return prisma.savedSearch.update({
+      where: { id: savedSearch.id },
+      data: { name: data.name, query: data.query as Prisma.InputJsonObject | undefined },
+    });
+  },
+
+  /**
+   * Delete a saved search
+   * @param {string} userId Authenticated user ID
+   * @param {string} savedSearchId Saved search ID
+   * @returns {Promise<void>}
+   * @throws AppError 404 if the user has no such saved search
+   */
+  async deleteSavedSearch(userId: string, savedSearchId: string): Promise<void> {
+    const savedSearch = await this.getSavedSearch(userId, savedSearchId);
+    await prisma.savedSearch.delete({ where: { id: savedSearch.id } });
+  },
+
+  /**
+   * Run a saved search: list the media matching its query, as `GET /api/media` would.
+   * The page, page size and cursor of the request replace the saved ones.
+   * @param {string} userId Authenticated user ID
+   * @param {string} savedSearchId Saved search ID
+   * @param {{ page?: number; pageSize?: number; cursor?: string }} pagination Position in the results
+   * @returns {Promise<MediaListing>} Paginated list of media, links pointing to `/api/media`
+   * @throws AppError 404 if the user has no such saved search
+   */
+  async runSavedSearch(
+    userId: string,
+    savedSearchId: string,
+    pagination: { page?: number; pageSize?: number; cursor?: string }
+  ): Promise<MediaListing> {
+    const savedSearch = await this.getSavedSearch(userId, savedSearchId);
+    const query = savedSearch.query as SavedSearchQuery;
+    return mediaService.listMedia(
+      { ...query, page: pagination.page, pageSize: pagination.pageSize ?? query.pageSize, cursor: pagination.cursor },
+      userId
+    );
+  },
+
+  /**
+   * Ensure a user has no saved search with the given name
+   * @throws AppError 409 if the name is taken
+   */
+  async assertNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await prisma.savedSearch.findUnique({
+      where: { userId_name: { userId, name } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new AppError(`You already have a saved search named '${name}'`, 409);
+    }
+  },
+};
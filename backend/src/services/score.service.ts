@@ -0,0 +1,96 @@
+import { AppError } from "@/middleware/errorHandler";
+import type { ExternalScore, ExternalScoreInput, ExternalScores, MinScoreFilter } from "@/types/types";
+
+/**
+ * Supported score providers and the scale their scores are published on
+ */
+export const SCORE_PROVIDER_SCALES = {
+  imdb: 10,
+  tmdb: 10,
+  rottenTomatoes: 100,
+  metacritic: 100,
+  goodreads: 5,
+  letterboxd: 5,
+} as const;
+
+export type ScoreProvider = keyof typeof SCORE_PROVIDER_SCALES;
+
+export const SCORE_PROVIDERS = Object.keys(SCORE_PROVIDER_SCALES) as [ScoreProvider, ...ScoreProvider[]];
+
+export const scoreService = {
+  /**
+   * Validate an external score and compute its value on the common 0-100 scale.
+   * The scale defaults to the provider's usual scale.
+   * @param {string} provider Score provider
+   * @param {ExternalScoreInput} input Raw score
+   * @returns {ExternalScore} The stored score
+   * @throws AppError 400 if the provider is unknown or the value is above the scale
+   */
+  normalizeScore(provider: string, input: ExternalScoreInput): ExternalScore {
+    if (!this.isProvider(provider)) {
+      throw new AppError(`Unknown score provider '${provider}'`, 400);
+    }
+
+    const scale = input.scale ?? SCORE_PROVIDER_SCALES[provider];
+    if (input.value > scale) {
+      throw new AppError(`Score for ${provider} must be between 0 and ${scale}`, 400);
+    }
+
+    return {
+      value: input.value,
+      scale,
+      votes: input.votes ?? null,
+      fetchedAt: input.fetchedAt ?? new Date().toISOString(),
+      normalized: Math.round((input.value / scale) * 1000) / 10,
+    };
+  },
+
+  /**
+   * Apply score changes to the scores of a media: providers set to null are removed,
+   * the others are normalized and replace the previous score of the provider
+   * @param {ExternalScores | null | undefined} current Scores currently stored on the media
+   * @param {Partial<Record<string, ExternalScoreInput | null>>} changes Scores to set or remove
+   * @returns {ExternalScores} The merged scores
+   */
+  mergeScores(
+    current: ExternalScores | null | undefined,
+    changes: Partial<Record<string, ExternalScoreInput | null>>
+  ): ExternalScores {
+    const scores: ExternalScores = { ...current };
+    for (const [provider, input] of Object.entries(changes)) {
+      if (input === undefined) {
+        continue;
+      }
+      if (input === null) {
+        delete scores[provider];
+      } else {
+        scores[provider] = this.normalizeScore(provider, input);
+      }
+    }
+    return scores;
+  },
+
+  /**
+   * Check whether a provider is supported
+   */
+  isProvider(provider: string): provider is ScoreProvider {
+    return Object.hasOwn(SCORE_PROVIDER_SCALES, provider);
+  },
+
+  /**
+   * Parse a `minScore` filter such as "imdb:8,metacritic:70"
+   * @param {string} value Comma-separated provider:value pairs, values on the provider's scale
+   * @returns {MinScoreFilter[]} Parsed filters
+   * @throws AppError 400 if a provider is unknown or a value is not a number
+   */
+  parseMinScore(value: string): MinScoreFilter[] {
+    return value.split(',').map((pair) => {
+      const [provider, rawValue] = pair.split(':');
+      const min = Number(rawValue);
+      if (!provider || !this.isProvider(provider) || rawValue === undefined || Number.isNaN(min)) {
+        throw new AppError(`Invalid minScore '${pair}', expected provider:value with provider in ${SCORE_PROVIDERS.join(', ')}`, 400);
+      }
+      return { provider, min };
+    });
+  },
+};
@@ -0,0 +1,149 @@
+import prisma from "@/db";
+import { Prisma } from "@/generated/prisma/client";
+import type { SearchHighlights, SearchHits, SearchResult } from "@/types/types";
+
+/** Maximum number of matches considered by a search, best first */
+const MAX_SEARCH_HITS = 1000;
+/** Weight of the trigram similarity of the title in the relevance, next to the full-text rank */
+const TRIGRAM_WEIGHT = 0.5;
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2';
+
+export const searchService = {
+  /**
+   * Build a prefix-matching tsquery from free text: every word must match the start of a word.
+   * Only letters and digits are kept, so the result is always a valid tsquery.
+   * @param {string} q Searched text
+   * @returns {string | null} The tsquery, or null when the text has no word
+   */
+  toTsQuery(q: string): string | null {
+    const words = q.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+    return words ? words.map((word) => `${word}:*`).join(' & ') : null;
+  },
+
+  /**
+   * Find the media matching a search, ignoring case and accents. Words match title, director/author,
+   * tags and description (in that order of importance) by prefix; titles close to the text also match,
+   * which tolerates typos.
+   * @param {string} q Searched text
+   * @returns {Promise<SearchHits>} Relevance of the best matches, keyed by media ID
+   */
+  async searchMedia(q: string): Promise<SearchHits> {
+    const tsQuery = this.toTsQuery(q);
+    if (!tsQuery) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<{ id: string; relevance: number }[]>`
+      SELECT "id",
+        (ts_rank_cd("search_vector", query) + ${TRIGRAM_WEIGHT} * similarity(immutable_unaccent(lower("title")), term))::float8 AS "relevance"
+      FROM "media",
+        to_tsquery('unaccent_simple', ${tsQuery}) AS query,
+        immutable_unaccent(lower(${q.trim()})) AS term
+      WHERE "search_vector" @@ query OR immutable_unaccent(lower("title")) % term
+      ORDER BY "relevance" DESC, "id"
+      LIMIT ${MAX_SEARCH_HITS}`;
+
+    return new Map(rows.map((row) => [row.id, row.relevance]));
+  },
+
+  /**
+   * Find the collections matching a search, ignoring case and accents. Words match name, tags and
+   * description by prefix; names close to the text also match, which tolerates typos.
+   * @param {string} q Searched text
+   * @returns {Promise<SearchHits>} Relevance of the best matches, keyed by collection ID
+   */
+  async searchCollections(q: string): Promise<SearchHits> {
+    const tsQuery = this.toTsQuery(q);
+    if (!tsQuery) {
+      return new Map();
+    }
+
+    const rows = await prisma.$queryRaw<{ id: string; relevance: number }[]>`
+      SELECT "id",
+        (ts_rank_cd("search_vector", query) + ${TRIGRAM_WEIGHT} * similarity(immutable_unaccent(lower("name")), term))::float8 AS "relevance"
+      FROM "collections",
+        to_tsquery('unaccent_simple', ${tsQuery}) AS query,
+        immutable_unaccent(lower(${q.trim()})) AS term
+      WHERE "search_vector" @@ query OR immutable_unaccent(lower("name")) % term
+      ORDER BY "relevance" DESC, "id"
+      LIMIT ${MAX_SEARCH_HITS}`;
+
+    return new Map(rows.map((row) => [row.id, row.relevance]));
+  },
+
+  /**
+   * Sort IDs by relevance, ties broken by ID
+   * @param {string[]} ids IDs of the matches to sort
+   * @param {SearchHits} hits Relevance of the matches
+   * @param {'asc' | 'desc'} order Sort direction, most relevant first with desc
+   * @returns {string[]} Sorted IDs
+   */
+  sortByRelevance(ids: string[], hits: SearchHits, order: 'asc' | 'desc'): string[] {
+    const direction = order === 'asc' ? 1 : -1;
+    return [...ids].sort((a, b) => direction * ((hits.get(a) ?? 0) - (hits.get(b) ?? 0)) || a.localeCompare(b));
+  },
+
+  /**
+   * Add the relevance and the highlighted title and description snippet to listed media
+   * @param {T[]} items Listed media
+   * @param {string} q Searched text
+   * @param {SearchHits} hits Relevance of the matches
+   * @returns {Promise<SearchResult<T>[]>} The media with their relevance and highlights
+   */
+  async annotateMedia<T extends { id: string }>(items: T[], q: string, hits: SearchHits): Promise<SearchResult<T>[]> {
+    const tsQuery = this.toTsQuery(q);
+    if (!tsQuery || items.length === 0) {
+      return items;
+    }
+
+    const rows = await prisma.$queryRaw<({ id: string } & SearchHighlights)[]>`
+      SELECT "id",
+        ts_headline('unaccent_simple', "title", query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') AS "title",
+        CASE WHEN "description" IS NULL THEN NULL
+          ELSE ts_headline('unaccent_simple', "description", query, ${HEADLINE_OPTIONS}) END AS "snippet"
+      FROM "media", to_tsquery('unaccent_simple', ${tsQuery}) AS query
+      WHERE "id" IN (${Prisma.join(items.map((item) => item.id))})`;
+
+    return this.annotate(items, hits, rows);
+  },
+
+  /**
+   * Add the relevance and the highlighted name and description snippet to listed collections
+   * @param {T[]} items Listed collections
+   * @param {string} q Searched text
+   * @param {SearchHits} hits Relevance of the matches
+   * @returns {Promise<SearchResult<T>[]>} The collections with their relevance and highlights
+   */
+  async annotateCollections<T extends { id: string }>(items: T[], q: string, hits: SearchHits): Promise<SearchResult<T>[]> {
+    const tsQuery = this.toTsQuery(q);
+    if (!tsQuery || items.length === 0) {
+      return items;
+    }
+
+    const rows = await prisma.$queryRaw<({ id: string } & SearchHighlights)[]>`
+      SELECT "id",
+        ts_headline('unaccent_simple', "name", query, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>') AS "title",
+        CASE WHEN "description" IS NULL THEN NULL
+          ELSE ts_headline('unaccent_simple', "description", query, ${HEADLINE_OPTIONS}) END AS "snippet"
+      FROM "collections", to_tsquery('unaccent_simple', ${tsQuery}) AS query
+      WHERE "id" IN (${Prisma.join(items.map((item) => item.id))})`;
+
+    return this.annotate(items, hits, rows);
+  },
+
+  /**
+   * Merge relevance and highlights into listed items
+   */
+  annotate<T extends { id: string }>(
+    items: T[],
+    hits: SearchHits,
+    rows: ({ id: string } & SearchHighlights)[]
+  ): SearchResult<T>[] {
+    const highlights = new Map(rows.map(({ id, title, snippet }) => [id, { title, snippet }]));
+    return items.map((item) => ({
+      ...item,
+      relevance: Math.round((hits.get(item.id) ?? 0) * 10000) / 10000,
+      highlights: highlights.get(item.id),
+    }));
+  },
+};
@@ -0,0 +1,148 @@
+import prisma from "@/db";
+import { AppError } from "@/middleware/errorHandler";
+import { policyService, type PolicyUser } from "@/services/policy.service";
+import type { TagCount } from "@/types/types";
+import env from "../../env";
+
+/** Maximum length of a tag, after normalization */
+export const MAX_TAG_LENGTH = 50;
+
+let aliases: Map<string, string> | null = null;
+
+export const tagService = {
+  /**
+   * Normalize a tag: trimmed, inner whitespace collapsed, case-folded, then replaced by its
+   * canonical form when it is an alias listed in TAG_ALIASES
+   * @param {string} tag Tag as entered
+   * @returns {string} The normalized tag, empty when the tag is blank
+   */
+  normalize(tag: string): string {
+    const folded = this.fold(tag);
+    return this.getAliases().get(folded) ?? folded;
+  },
+
+  /**
+   * Normalize a list of tags, dropping blank tags and duplicates
+   * @param {string[]} tags Tags as entered
+   * @returns {string[]} The normalized tags, in their first order of appearance
+   */
+  normalizeAll(tags: string[]): string[] {
+    return [...new Set(tags.map((tag) => this.normalize(tag)).filter(Boolean))];
+  },
+
+  /**
+   * Trim, collapse whitespace and case-fold a tag
+   */
+  fold(tag: string): string {
+    return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+  },
+
+  /**
+   * Get the alias map configured in TAG_ALIASES, e.g. `scifi=sci-fi,science fiction=sci-fi`.
+   * Both sides are folded, and canonical tags are never aliases themselves.
+   * @returns {Map<string, string>} Canonical tag keyed by alias
+   */
+  getAliases(): Map<string, string> {
+    if (aliases) {
+      return aliases;
+    }
+
+    aliases = new Map();
+    for (const [alias, canonical] of env.TAG_ALIASES) {
+      const from = this.fold(alias);
+      const to = this.fold(canonical);
+      if (!from || !to || from === to) {
+        console.warn(`Ignoring invalid tag alias '${alias}=${canonical}'`);
+        continue;
+      }
+      aliases.set(from, to);
+    }
+    return aliases;
+  },
+
+  /**
+   * List the most used tags of the media and collections readable by the user, counted in SQL
+   * @param {{ prefix?: string; limit?: number }} query Tag prefix for autocomplete, maximum number of tags
+   * @param {string | undefined} userId Authenticated user ID (optional)
+   * @returns {Promise<TagCount[]>} Tags with their media and collection counts, most used first
+   */
+  async listTags(query: { prefix?: string; limit?: number }, userId?: string): Promise<TagCount[]> {
+    const prefix = query.prefix ? this.fold(query.prefix) : '';
+    const user = userId ? { id: userId } : null;
+
+    // A tag counts once per row; media are readable through any of their collections
+    return prisma.$queryRaw<TagCount[]>`
+      SELECT "tag",
+        count(*)::int AS "count",
+        (count(*) FILTER (WHERE "kind" = 'media'))::int AS "media",
+        (count(*) FILTER (WHERE "kind" = 'collection'))::int AS "collections"
+      FROM (
+        SELECT DISTINCT m."id", 'media' AS "kind", t."tag"
+        FROM "media" m, unnest(m."tags") AS t("tag")
+        WHERE starts_with(t."tag", ${prefix})
+          AND EXISTS (
+            SELECT 1 FROM "collection_media" cm
+            WHERE cm."mediaId" = m."id"
+              AND cm."collectionId" IN (${policyService.collectionIdsSql(user, 'media:read')})
+          )
+        UNION ALL
+        SELECT DISTINCT c."id", 'collection' AS "kind", t."tag"
+        FROM "collections" c, unnest(c."tags") AS t("tag")
+        WHERE starts_with(t."tag", ${prefix})
+          AND c."id" IN (${policyService.collectionIdsSql(user, 'collection:read')})
+      ) AS "tagged"
+      GROUP BY "tag"
+      ORDER BY "count" DESC, "tag"
+      LIMIT ${query.limit || 20}`;
+  },
+
+  /**
+   * Rename tags across every media and collection, merging them into one tag.
+   * A row holding several of the tags keeps a single occurrence, at the position of the first one.
+   * Reserved to admins.
+   * @param {string[]} from Tags to rename, matched exactly
+   * @param {string} to New tag, normalized
+   * @param {PolicyUser} user Authenticated user
+   * @returns {Promise<{ tag: string; media: number; collections: number }>} The new tag and the number of updated rows
+   * @throws AppError 403 if the user is not an admin, 400 if the new tag is blank
+   */
+  async mergeTags(from: string[], to: string, user: PolicyUser): Promise<{ tag: string; media: number; collections: number }> {
+    if (!policyService.isAdmin(user)) {
+      throw new AppError('Forbidden', 403);
+    }
+    const tag = this.normalize(to);
+    if (!tag) {
+      throw new AppError('The new tag cannot be blank', 400);
+    }
+    const sources = [...new Set(from)];
+
+    const [media, collections] = await prisma.$transaction([
+      prisma.$executeRaw`
+        UPDATE "media" SET
+          "tags" = (
+            SELECT array_agg("tag" ORDER BY "position")
+            FROM (
+              SELECT CASE WHEN "t" = ANY(${sources}::text[]) THEN ${tag} ELSE "t" END AS "tag", min("ord") AS "position"
+              FROM unnest("tags") WITH ORDINALITY AS u("t", "ord")
+              GROUP BY 1
+            ) AS "renamed"
+          ),
+          "updated_at" = now()
+        WHERE "tags" && ${sources}::text[]`,
+      prisma.$executeRaw`
+        UPDATE "collections" SET
+          "tags" = (
+            SELECT array_agg("tag" ORDER BY "position")
+            FROM (
+              SELECT CASE WHEN "t" = ANY(${sources}::text[]) THEN ${tag} ELSE "t" END AS "tag", min("ord") AS "position"
+              FROM unnest("tags") WITH ORDINALITY AS u("t", "ord")
+              GROUP BY 1
+            ) AS "renamed"
+          ),
+          "updated_at" = now()
+        WHERE "tags" && ${sources}::text[]`,
+    ]);
+
+    return { tag, media, collections };
+  },
+};
@@ -12,6 +12,17 @@ const toPublicUser = (user: User): PublicUser => {
   return publicFields;
 };
 
+/**
+ * Fields of a user shown to other users, e.g. next to memberships, reviews and activity
+ */
+export const publicUserSelect = {
+  id: true,
+  name: true,
+  username: true,
+  displayUsername: true,
+  image: true,
+} satisfies Prisma.UserSelect;
+
 export const userService = {
 
   /**
@@ -1,22 +1,242 @@
-import type { User } from "@/generated/prisma/client";
+import type { Episode, Media, MediaType, PlatformKind, Prisma, Priority, User, WatchStatus } from "@/generated/prisma/client";
 
 export type PublicUser = Omit<User, "emailVerified">;
 
+export type TagsMode = 'any' | 'all' | 'none';
+
 export type ListQuery = {
   page?: number;
   pageSize?: number;
   type?: string;
   tag?: string;
   tags?: string;
+  tagsMode?: TagsMode;
   platform?: string;
   platforms?: string;
   q?: string;
-  sort?: 'createdAt' | 'title' | 'releaseDate';
+  sort?: 'createdAt' | 'title' | 'releaseDate' | 'rating' | 'relevance';
   order?: 'asc' | 'desc';
   cursor?: string;
+  status?: WatchStatus;
+  minScore?: string;
+  titleRegex?: string;
+  directorAuthor?: string;
+  releasedFrom?: string;
+  releasedTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  filter?: string;
+  facets?: string;
+  availableToMe?: boolean;
 };
 
-export type MediaWhereClause = Omit<ListQuery, 'page' | 'pageSize' | 'sort' | 'order' | 'cursor'>;
+export type MediaWhereClause = Omit<ListQuery, 'page' | 'pageSize' | 'sort' | 'order' | 'cursor' | 'facets'>;
+
+/**
+ * Media filters and sort of a smart collection. The status filter is left to the viewer.
+ */
+export type SmartCollectionRules = Omit<ListQuery, 'page' | 'pageSize' | 'cursor' | 'status' | 'facets' | 'availableToMe'>;
+
+/**
+ * Media listing query stored by a saved search, without the position in the results
+ */
+export type SavedSearchQuery = Omit<ListQuery, 'page' | 'cursor'>;
+
+export type CollectionListQuery = {
+  page?: number;
+  pageSize?: number;
+  tag?: string;
+  tags?: string;
+  visibility?: 'PUBLIC' | 'PRIVATE';
+  ownerId?: string;
+  parentId?: string;
+  q?: string;
+  sort?: 'createdAt' | 'updatedAt' | 'name' | 'relevance';
+  order?: 'asc' | 'desc';
+  cursor?: string;
+};
+
+export type CollectionWhereClause = Omit<CollectionListQuery, 'page' | 'pageSize' | 'sort' | 'order' | 'cursor'>;
+
+export type CollectionCreateData = Omit<Prisma.CollectionCreateInput, 'owner' | 'parent' | 'rules'> & {
+  parentId?: string;
+  rules?: SmartCollectionRules;
+};
+
+export type CollectionUpdateData = Omit<Prisma.CollectionUpdateInput, 'rules'> & {
+  rules?: SmartCollectionRules | null;
+};
+
+export type CollectionMediaMoveTarget = {
+  position?: number;
+  before?: string;
+  after?: string;
+};
+
+export type CollectionItemUpdate = CollectionMediaMoveTarget & {
+  priority?: Priority;
+  dueDate?: Date | null;
+};
+
+export type UpNextQuery = {
+  page?: number;
+  pageSize?: number;
+  type?: MediaType;
+  platform?: string;
+  platforms?: string;
+};
+
+export type RecommendationQuery = {
+  page?: number;
+  pageSize?: number;
+  type?: MediaType;
+  platform?: string;
+  platforms?: string;
+};
+
+export type LibraryQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: WatchStatus;
+  type?: MediaType;
+  sort?: 'updatedAt' | 'startedAt' | 'finishedAt';
+  order?: 'asc' | 'desc';
+};
+
+export type LibraryEntryInput = {
+  status?: WatchStatus;
+  season?: number | null;
+  episode?: number | null;
+  page?: number | null;
+  percent?: number | null;
+  timestampSeconds?: number | null;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  rewatchCount?: number;
+};
+
+export type ReviewListQuery = {
+  page?: number;
+  pageSize?: number;
+  spoilers?: 'include' | 'hide' | 'exclude';
+  sort?: 'createdAt' | 'rating';
+  order?: 'asc' | 'desc';
+};
+
+export type RatingAggregate = {
+  average: number | null;
+  count: number;
+  distribution: Record<string, number>;
+};
+
+export type ExternalIds = Record<string, string>;
+
+export type ExternalScoreInput = {
+  value: number;
+  scale?: number;
+  votes?: number;
+  fetchedAt?: string;
+};
+
+export type ExternalScore = {
+  value: number;
+  scale: number;
+  votes: number | null;
+  fetchedAt: string;
+  normalized: number;
+};
+
+export type ExternalScores = Record<string, ExternalScore>;
+
+export type ExternalScoresInput = Partial<Record<string, ExternalScoreInput>>;
+
+export type MetadataSearchResult = {
+  provider: string;
+  externalId: string;
+  title: string;
+  type: MediaType;
+  releaseDate: string | null;
+  directorAuthor: string | null;
+  coverUrl: string | null;
+};
+
+export type MetadataRecord = MetadataSearchResult & {
+  description: string | null;
+  tags: string[];
+  url: string | null;
+  externalIds: ExternalIds;
+  scores: ExternalScoresInput;
+};
+
+/**
+ * Source of media metadata. `search` returns lightweight results, `fetch` the full record of one
+ * of them, or null when the provider does not know the ID.
+ */
+export type MetadataProvider = {
+  name: string;
+  types: readonly MediaType[];
+  search(query: string, type?: MediaType): Promise<MetadataSearchResult[]>;
+  fetch(externalId: string): Promise<MetadataRecord | null>;
+};
+
+export type ContributorRole = 'author' | 'editor' | 'translator' | 'illustrator' | 'narrator';
+
+export type Contributor = {
+  name: string;
+  role: ContributorRole;
+};
+
+export type BookDetails = {
+  isbn?: string;
+  publisher?: string;
+  pageCount?: number;
+  edition?: string;
+  contributors?: Contributor[];
+};
+
+export type ArticleDetails = {
+  doi?: string;
+  publication?: string;
+  readingTimeMinutes?: number;
+  canonicalUrl?: string;
+};
+
+export type FilmDetails = {
+  runtimeMinutes?: number;
+  cast?: string[];
+  country?: string;
+};
+
+/**
+ * Type-specific metadata of a media, stored in `details`: BOOK, ARTICLE and FILM media each have their own
+ */
+export type MediaDetails = BookDetails | ArticleDetails | FilmDetails;
+
+export type MediaCreateData = Omit<Prisma.MediaCreateInput, 'scores' | 'externalIds' | 'details' | 'platforms'> & {
+  platforms?: string[];
+  scores?: ExternalScoresInput;
+  externalIds?: ExternalIds;
+  details?: MediaDetails;
+};
+
+export type MediaUpdateData = Omit<Prisma.MediaUpdateInput, 'scores' | 'externalIds' | 'details' | 'platforms'> & {
+  platforms?: string[];
+  scores?: Partial<Record<string, ExternalScoreInput | null>>;
+  externalIds?: ExternalIds;
+  details?: MediaDetails | null;
+};
+
+export type MinScoreFilter = {
+  provider: string;
+  min: number;
+};
+
+export type OnDuplicate = 'reject' | 'attach' | 'create';
+
+export type DuplicateCandidate = {
+  media: Media;
+  match: 'externalId' | 'catalogKey' | 'title';
+};
 
 export type PaginationLinks = {
   self: string;
@@ -24,6 +244,27 @@ export type PaginationLinks = {
   prev: string | null;
 }
 
+/**
+ * Relevance of each full-text search match, keyed by ID
+ */
+export type SearchHits = Map<string, number>;
+
+/**
+ * Highlighted fields of a search result, matches wrapped in <mark> tags
+ */
+export type SearchHighlights = {
+  title: string;
+  snippet: string | null;
+};
+
+/**
+ * A listed item, with its relevance and highlights when the listing is a search
+ */
+export type SearchResult<T> = T & {
+  relevance?: number;
+  highlights?: SearchHighlights;
+};
+
 export type PaginatedData<T> = {
   data: T[];
   page: number;
@@ -33,3 +274,188 @@ export type PaginatedData<T> = {
   links: PaginationLinks;
   cursor?: string | null;
 }
+
+export type PlatformData = {
+  name: string;
+  kind: PlatformKind;
+  region?: string | null;
+  logoUrl?: string | null;
+};
+
+export type EpisodeInput = {
+  number: number;
+  title?: string | null;
+  airDate?: Date | null;
+  runtimeMinutes?: number | null;
+};
+
+export type SeasonInput = {
+  number: number;
+  title?: string | null;
+  airDate?: Date | null;
+  episodes?: EpisodeInput[];
+};
+
+/**
+ * Progress of a user in a series, rolled up from their watched episodes
+ */
+export type SeriesProgress = {
+  watchedEpisodes: number;
+  totalEpisodes: number;
+  percent: number;
+  lastWatched: (Episode & { seasonNumber: number }) | null;
+  nextEpisode: (Episode & { seasonNumber: number }) | null;
+};
+
+/**
+ * A tag of the registry, with the number of readable media and collections using it
+ */
+export type TagCount = {
+  tag: string;
+  count: number;
+  media: number;
+  collections: number;
+};
+
+export type MediaFacet = 'type' | 'tags' | 'platforms' | 'year';
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+/**
+ * Counts of the media matching a listing, by value of each requested facet
+ */
+export type MediaFacets = Partial<Record<MediaFacet, FacetCount[]>>;
+
+/**
+ * A page of media, with the facet counts of the whole listing when requested
+ */
+export type MediaListing = PaginatedData<SearchResult<Media>> & {
+  facets?: MediaFacets;
+};
+
+export type ImportFormat = 'csv' | 'json' | 'letterboxd' | 'goodreads' | 'imdb';
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * What to do with an imported row matching a media of the catalog: add the existing entry to the
+ * collection, leave the row out, or create a new entry anyway
+ */
+export type ImportOnDuplicate = 'attach' | 'skip' | 'create';
+
+export type ImportOptions = {
+  format?: ImportFormat;
+  dryRun: boolean;
+  onDuplicate: ImportOnDuplicate;
+};
+
+/**
+ * Outcome of one imported row. In a dry run, the action that would be taken.
+ */
+export type ImportRowResult = {
+  row: number;
+  status: 'create' | 'attach' | 'skip' | 'error';
+  title: string | null;
+  mediaId: string | null;
+  duplicateOfRow: number | null;
+  errors: string[];
+};
+
+export type ImportResult = {
+  format: ImportFormat;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  attached: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+};
+
+export type BatchMode = 'atomic' | 'bestEffort';
+
+/**
+ * One operation of a media batch
+ */
+export type BatchOperation =
+  | { op: 'create'; data: MediaCreateData & { collectionId?: string; onDuplicate: OnDuplicate } }
+  | { op: 'update'; mediaId: string; data: MediaUpdateData }
+  | { op: 'delete'; mediaId: string }
+  | { op: 'addTag' | 'removeTag'; mediaId: string; tag: string }
+  | { op: 'addPlatform'; mediaId: string; platform: string }
+  | { op: 'moveToCollection'; mediaId: string; fromCollectionId: string; toCollectionId: string };
+
+/**
+ * Outcome of one batch operation, with the HTTP status it would have had on its own
+ */
+export type BatchOperationResult = {
+  index: number;
+  op: BatchOperation['op'];
+  status: number;
+  mediaId: string | null;
+  error: string | null;
+};
+
+export type BatchResult = {
+  mode: BatchMode;
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BatchOperationResult[];
+};
+
+/**
+ * Fields changed by a logged activity, each with its value before and after
+ */
+export type ActivityChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type ActivityQuery = {
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+};
+
+export type RealtimeEventType =
+  | 'item.added'
+  | 'item.updated'
+  | 'item.removed'
+  | 'member.joined'
+  | 'member.updated'
+  | 'member.removed'
+  | 'collection.updated'
+  | 'collection.deleted'
+  /** Internal: the roles inherited from an ancestor changed, subscribers check their access again */
+  | 'access.changed';
+
+/**
+ * A committed change to publish to the subscribers of a collection
+ */
+export type CollectionEvent = {
+  type: RealtimeEventType;
+  collectionId: string;
+  data: Record<string, unknown>;
+};
+
+/**
+ * An event as delivered to subscribers, with the actor and request of the change
+ */
+export type RealtimeEvent = CollectionEvent & {
+  actorId: string | null;
+  requestId: string | null;
+  at: string;
+};
+
+/**
+ * Pub/sub carrying realtime events between the API and the open connections.
+ * The in-process broker only reaches the connections of its own instance; a broker backed by
+ * e.g. Redis or NATS lets several instances share events.
+ */
+export type RealtimeBroker = {
+  name: string;
+  publish(channel: string, event: RealtimeEvent): Promise<void>;
+  /** Returns a function removing the listener */
+  subscribe(channel: string, listener: (event: RealtimeEvent) => void): () => void;
+};
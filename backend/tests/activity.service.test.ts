@@ -0,0 +1,121 @@
+import { describe, expect, mock, test } from "bun:test";
+import { ActivityAction, ActivityTarget } from "@/generated/prisma/browser";
+import { Prisma } from "@/generated/prisma/client";
+import { activityService } from "@/services/activity.service";
+import { policyService } from "@/services/policy.service";
+import { db } from "./db";
+import { catchAppError } from "./helpers";
+
+describe('activityService.diff', () => {
+  test('keeps only the changed fields, dates as ISO strings', () => {
+    const before = { name: 'Films', description: null, dueDate: new Date('2026-01-01T00:00:00Z'), tags: ['a'] };
+    const after = { name: 'Movies', description: undefined, dueDate: new Date('2026-02-01T00:00:00Z'), tags: ['a'] };
+
+    expect(activityService.diff(before, after, ['name', 'description', 'dueDate', 'tags'])).toEqual({
+      name: { before: 'Films', after: 'Movies' },
+      dueDate: { before: '2026-01-01T00:00:00.000Z', after: '2026-02-01T00:00:00.000Z' },
+    });
+  });
+
+  test('returns null when nothing changed', () => {
+    expect(activityService.diff({ tags: ['a', 'b'] }, { tags: ['a', 'b'] }, ['tags'])).toBeNull();
+  });
+});
+
+describe('activityService.memberRecord', () => {
+  test('labels the entry with the username, or the name without one', () => {
+    const user = { id: 'user-1', name: 'Ada Lovelace', username: null };
+
+    expect(activityService.memberRecord('collection-1', user, ActivityAction.MEMBER_INVITED, null)).toEqual({
+      collectionId: 'collection-1',
+      action: ActivityAction.MEMBER_INVITED,
+      targetType: ActivityTarget.MEMBER,
+      targetId: 'user-1',
+      targetLabel: 'Ada Lovelace',
+      changes: null,
+    });
+    expect(activityService.memberRecord('collection-1', { ...user, username: 'ada' }, ActivityAction.MEMBER_INVITED, null).targetLabel).toBe('ada');
+  });
+});
+
+describe('activityService.record', () => {
+  test('writes nothing without entries', async () => {
+    const tx = { activity: { createMany: mock() } };
+
+    await activityService.record(tx as unknown as Prisma.TransactionClient, []);
+
+    expect(tx.activity.createMany).not.toHaveBeenCalled();
+  });
+
+  test('stores missing changes as database nulls, with no actor outside of a request', async () => {
+    const tx = { activity: { createMany: mock().mockResolvedValue({ count: 1 }) } };
+    const record = activityService.collectionRecord({ id: 'collection-1', name: 'Films' }, ActivityAction.COLLECTION_CREATED, null);
+
+    await activityService.record(tx as unknown as Prisma.TransactionClient, [record]);
+
+    expect(tx.activity.createMany).toHaveBeenCalledWith({
+      data: [{ ...record, changes: Prisma.DbNull, actorId: null, requestId: null }],
+    });
+  });
+});
+
+describe('activityService.recordMediaChange', () => {
+  test('logs the change on every collection holding the media', async () => {
+    const tx = {
+      collectionMedia: { findMany: mock().mockResolvedValue([{ collectionId: 'collection-1' }, { collectionId: 'collection-2' }]) },
+      activity: { createMany: mock().mockResolvedValue({ count: 2 }) },
+    };
+    const changes = { title: { before: 'Dune', after: 'Dune: Part One' } };
+
+    const collectionIds = await activityService.recordMediaChange(
+      tx as unknown as Prisma.TransactionClient,
+      { id: 'media-1', title: 'Dune: Part One' },
+      ActivityAction.MEDIA_UPDATED,
+      changes
+    );
+
+    expect(collectionIds).toEqual(['collection-1', 'collection-2']);
+    const [{ data }] = tx.activity.createMany.mock.calls[0]!;
+    expect(data.map((entry: { collectionId: string }) => entry.collectionId)).toEqual(['collection-1', 'collection-2']);
+    expect(data[0]).toMatchObject({ targetType: ActivityTarget.MEDIA, targetId: 'media-1', targetLabel: 'Dune: Part One', changes });
+  });
+});
+
+describe('activityService.listFeed', () => {
+  test('lists the joined or followed collections on which activity:read is allowed', async () => {
+    db.activity = { findMany: mock().mockResolvedValue([]), count: mock().mockResolvedValue(0) };
+
+    await activityService.listFeed('user-1', {});
+
+    const [{ where }] = (db.activity as { findMany: ReturnType<typeof mock> }).findMany.mock.calls[0]!;
+    expect(where).toEqual({
+      collection: {
+        AND: [
+          { OR: [policyService.membershipWhere('user-1'), { followers: { some: { userId: 'user-1' } } }] },
+          policyService.collectionWhere({ id: 'user-1' }, 'activity:read'),
+        ],
+      },
+    });
+  });
+
+  test('links the next page with a cursor until the last page', async () => {
+    const entry = { id: 'activity-1', createdAt: new Date('2026-10-01T00:00:00Z') };
+    db.activity = { findMany: mock().mockResolvedValue([entry]), count: mock().mockResolvedValue(2) };
+
+    const first = await activityService.listFeed('user-1', { pageSize: 1 });
+    const last = await activityService.listFeed('user-1', { page: 2, pageSize: 1 });
+
+    expect(first).toMatchObject({ page: 1, pages: 2, total: 2 });
+    expect(first.cursor).toBeString();
+    expect(last.cursor).toBeNull();
+  });
+});
+
+describe('activityService.unfollow', () => {
+  test('answers 404 when the collection is not followed', async () => {
+    db.collectionFollower = { deleteMany: mock().mockResolvedValue({ count: 0 }) };
+
+    const error = await catchAppError(() => activityService.unfollow('user-1', 'collection-1'));
+    expect(error.statusCode).toBe(404);
+  });
+});
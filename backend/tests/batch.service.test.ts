@@ -0,0 +1,85 @@
+import { describe, expect, mock, spyOn, test } from "bun:test";
+import { Visibility } from "@/generated/prisma/browser";
+import { batchService } from "@/services/batch.service";
+import { mediaService } from "@/services/media.service";
+import { realtimeService } from "@/services/realtime.service";
+import type { BatchOperation } from "@/types/types";
+import { db } from "./db";
+
+const USER = { id: 'user-1' };
+
+/**
+ * Set up media owned by USER through a private collection, each already tagged `sci-fi`,
+ * and a transaction that runs its callback on the stand-in client
+ */
+function stubMedia(ids: string[]): void {
+  db.media = {
+    findMany: mock().mockResolvedValue(ids.map((id) => ({
+      id,
+      collections: [{ collection: { id: 'collection-1', ownerId: USER.id, visibility: Visibility.PRIVATE, members: [], parent: null } }],
+    }))),
+    findUnique: mock().mockResolvedValue({ tags: ['sci-fi'], platforms: [] }),
+  };
+  db.$transaction = mock(async (run: (tx: unknown) => unknown) => run(db));
+}
+
+const tagOperations: BatchOperation[] = [
+  { op: 'addTag', mediaId: 'media-1', tag: 'sci-fi' },
+  { op: 'removeTag', mediaId: 'media-2', tag: 'drama' },
+];
+
+describe('batchService.run', () => {
+  test('keeps the results of a committed atomic batch when publishing fails', async () => {
+    stubMedia(['media-1', 'media-2']);
+    spyOn(realtimeService, 'publish').mockRejectedValue(new Error('Broker down'));
+    spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await batchService.run(tagOperations, 'atomic', USER);
+
+    expect(result).toMatchObject({ committed: true, succeeded: 2, failed: 0 });
+    expect(result.results.map((entry) => entry.status)).toEqual([200, 200]);
+  });
+
+  test('keeps the result of a committed best-effort operation when publishing fails', async () => {
+    stubMedia(['media-1', 'media-2']);
+    spyOn(realtimeService, 'publish').mockRejectedValue(new Error('Broker down'));
+    spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await batchService.run(tagOperations, 'bestEffort', USER);
+
+    expect(db.$transaction).toHaveBeenCalledTimes(2);
+    expect(result.results.map((entry) => entry.status)).toEqual([200, 200]);
+  });
+
+  test('applies every operation of an atomic batch in one transaction', async () => {
+    stubMedia(['media-1', 'media-2']);
+
+    const result = await batchService.run(tagOperations, 'atomic', USER);
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ committed: true, succeeded: 2, failed: 0 });
+  });
+
+  test('runs nothing in an atomic batch holding a denied operation', async () => {
+    stubMedia(['media-1']);
+
+    const result = await batchService.run(tagOperations, 'atomic', USER);
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(result.results.map((entry) => entry.status)).toEqual([424, 404]);
+  });
+
+  test('does not create the default collection when the atomic batch is denied', async () => {
+    stubMedia([]);
+    const getOrCreate = spyOn(mediaService, 'getOrCreateDefaultCollection');
+    const operations = [
+      { op: 'create', data: { title: 'Dune', type: 'BOOK', onDuplicate: 'create' } },
+      { op: 'delete', mediaId: 'media-1' },
+    ] as BatchOperation[];
+
+    const result = await batchService.run(operations, 'atomic', USER);
+
+    expect(getOrCreate).not.toHaveBeenCalled();
+    expect(result.results.map((entry) => entry.status)).toEqual([424, 404]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { csvService } from "@/services/csv.service";
+import { catchAppError } from "./helpers";
+
+describe('csvService.parse', () => {
+  test('reads quoted fields holding commas, doubled quotes and line breaks', () => {
+    const text = 'title,description\r\n"Dune, Part Two","The ""spice"" must flow"\n"Multi\nline",plain\n';
+    expect(csvService.parse(text)).toEqual([
+      { line: 1, values: ['title', 'description'] },
+      { line: 2, values: ['Dune, Part Two', 'The "spice" must flow'] },
+      { line: 3, values: ['Multi\nline', 'plain'] },
+    ]);
+  });
+
+  test('ignores a byte order mark and blank lines, keeping the line numbers of the file', () => {
+    expect(csvService.parse('\uFEFFa,b\n\n1,2\n')).toEqual([
+      { line: 1, values: ['a', 'b'] },
+      { line: 3, values: ['1', '2'] },
+    ]);
+  });
+
+  test('keeps empty fields', () => {
+    expect(csvService.parse('a,,c\n,,\n')).toEqual([
+      { line: 1, values: ['a', '', 'c'] },
+      { line: 2, values: ['', '', ''] },
+    ]);
+  });
+
+  test('rejects an unclosed quoted field', async () => {
+    const error = await catchAppError(() => csvService.parse('title\n"Dune\n'));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Unclosed quoted field starting on line 2');
+  });
+});
+
+describe('csvService.formatRow', () => {
+  test('quotes the fields that need it and writes null values as empty fields', () => {
+    expect(csvService.formatRow(['Dune, Part Two', 'The "spice"', 'a\nb', 42, null, undefined, 'plain']))
+      .toBe('"Dune, Part Two","The ""spice""","a\nb",42,,,plain\r\n');
+  });
+
+  test('neutralizes text starting like a spreadsheet formula', () => {
+    expect(csvService.formatRow(['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)', '\tx', -1]))
+      .toBe('"\'=HYPERLINK(""http://x"")","\'+1","\'-1","\'@SUM(A1)","\'\tx",-1\r\n');
+  });
+
+  test('round-trips through parse', () => {
+    const values = ['Dune, Part Two', 'The "spice"', 'a\r\nb', ''];
+    expect(csvService.parse(csvService.formatRow(values))).toEqual([{ line: 1, values }]);
+  });
+});
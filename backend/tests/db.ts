@@ -0,0 +1,14 @@
+/**
+ * Stand-in for the Prisma client, which replaces `@/db` in every test (see setup.ts) so that no test
+ * needs a database. Tests set the methods and models their code uses; they are cleared after each test.
+ */
+export const db: Record<string, unknown> = {};
+
+/**
+ * Remove everything a test set on the stand-in client
+ */
+export function resetDb(): void {
+  for (const key of Object.keys(db)) {
+    delete db[key];
+  }
+}
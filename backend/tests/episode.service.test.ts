@@ -0,0 +1,138 @@
+import { describe, expect, mock, spyOn, test } from "bun:test";
+import { WatchStatus } from "@/generated/prisma/browser";
+import type { Prisma } from "@/generated/prisma/client";
+import { episodeService } from "@/services/episode.service";
+import { libraryService } from "@/services/library.service";
+import { db } from "./db";
+import { catchAppError } from "./helpers";
+
+/**
+ * Build an episode row as listed by listEpisodesInOrder, from its season number, number and whether it was watched
+ */
+function episode(seasonNumber: number, number: number, watched = false) {
+  return {
+    id: `s${seasonNumber}e${number}`,
+    number,
+    title: null,
+    airDate: null,
+    runtimeMinutes: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    seasonId: `s${seasonNumber}`,
+    season: { number: seasonNumber },
+    watches: watched ? [{ id: `watch-s${seasonNumber}e${number}` }] : [],
+  };
+}
+
+/**
+ * Serve the episodes of the series and the user's library entry
+ */
+function stubSeries(episodes: ReturnType<typeof episode>[], status: WatchStatus | null = null): void {
+  db.episode = { findMany: mock().mockResolvedValue(episodes) };
+  db.userMedia = { findUnique: mock().mockResolvedValue(status ? { status } : null) };
+}
+
+describe('episodeService.getProgress', () => {
+  test('returns null for a series without episodes', async () => {
+    stubSeries([]);
+    expect(await episodeService.getProgress('user-1', 'media-1')).toBeNull();
+  });
+
+  test('points to the furthest watched episode and the next unwatched one', async () => {
+    stubSeries([episode(1, 1, true), episode(1, 2), episode(1, 3, true), episode(2, 1)]);
+
+    const progress = (await episodeService.getProgress('user-1', 'media-1'))!;
+
+    expect(progress).toMatchObject({ watchedEpisodes: 2, totalEpisodes: 4, percent: 50 });
+    expect(progress.lastWatched).toMatchObject({ id: 's1e3', seasonNumber: 1 });
+    expect(progress.nextEpisode).toMatchObject({ id: 's2e1', seasonNumber: 2 });
+    expect(progress.lastWatched).not.toHaveProperty('watched');
+  });
+
+  test('goes back to the first gap once every later episode is watched', async () => {
+    stubSeries([episode(1, 1, true), episode(1, 2), episode(1, 3, true)]);
+
+    const progress = (await episodeService.getProgress('user-1', 'media-1'))!;
+
+    expect(progress.nextEpisode).toMatchObject({ id: 's1e2' });
+  });
+});
+
+describe('episodeService.syncLibrary', () => {
+  test('moves the series to IN_PROGRESS at the furthest watched episode', async () => {
+    stubSeries([episode(1, 1, true), episode(2, 1, true), episode(2, 2)]);
+    const upsertEntry = spyOn(libraryService, 'upsertEntry').mockResolvedValue({} as never);
+
+    await episodeService.syncLibrary('user-1', 'media-1');
+
+    expect(upsertEntry).toHaveBeenCalledWith('user-1', 'media-1', { status: WatchStatus.IN_PROGRESS, season: 2, episode: 1 });
+  });
+
+  test('completes the series once every episode is watched', async () => {
+    stubSeries([episode(1, 1, true), episode(1, 2, true)], WatchStatus.IN_PROGRESS);
+    const upsertEntry = spyOn(libraryService, 'upsertEntry').mockResolvedValue({} as never);
+
+    await episodeService.syncLibrary('user-1', 'media-1');
+
+    expect(upsertEntry).toHaveBeenCalledWith('user-1', 'media-1', { status: WatchStatus.COMPLETED, season: 1, episode: 2 });
+  });
+
+  test('keeps a completed series completed when a marker is removed', async () => {
+    stubSeries([episode(1, 1, true), episode(1, 2)], WatchStatus.COMPLETED);
+    const upsertEntry = spyOn(libraryService, 'upsertEntry').mockResolvedValue({} as never);
+
+    await episodeService.syncLibrary('user-1', 'media-1');
+
+    expect(upsertEntry).toHaveBeenCalledWith('user-1', 'media-1', { status: undefined, season: 1, episode: 1 });
+  });
+
+  test('creates no library entry when nothing is watched', async () => {
+    stubSeries([episode(1, 1), episode(1, 2)]);
+    const upsertEntry = spyOn(libraryService, 'upsertEntry');
+
+    await episodeService.syncLibrary('user-1', 'media-1');
+
+    expect(upsertEntry).not.toHaveBeenCalled();
+  });
+});
+
+describe('episodeService.mergeSeasons', () => {
+  test('moves unmatched seasons and episodes, and the watch markers of matched episodes', async () => {
+    const tx = {
+      season: {
+        findMany: mock()
+          .mockResolvedValueOnce([{ id: 'target-s1', number: 1, episodes: [{ id: 'target-s1e1', number: 1 }] }])
+          .mockResolvedValueOnce([
+            { id: 'dup-s1', number: 1, episodes: [{ id: 'dup-s1e1', number: 1 }, { id: 'dup-s1e2', number: 2 }] },
+            { id: 'dup-s2', number: 2, episodes: [{ id: 'dup-s2e1', number: 1 }] },
+          ]),
+        update: mock(async ({ where }: { where: { id: string } }) => ({ id: where.id, number: 2, episodes: [] })),
+      },
+      episode: {
+        update: mock(async ({ where }: { where: { id: string } }) => ({ id: where.id, number: 2 })),
+      },
+      episodeWatch: {
+        findMany: mock().mockResolvedValue([{ userId: 'user-1' }]),
+        updateMany: mock().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    await episodeService.mergeSeasons(tx as unknown as Prisma.TransactionClient, 'target', ['dup']);
+
+    expect(tx.season.update).toHaveBeenCalledTimes(1);
+    expect(tx.season.update.mock.calls[0]![0]).toMatchObject({ where: { id: 'dup-s2' }, data: { mediaId: 'target' } });
+    expect(tx.episode.update).toHaveBeenCalledWith({ where: { id: 'dup-s1e2' }, data: { seasonId: 'target-s1' } });
+    expect(tx.episodeWatch.updateMany).toHaveBeenCalledWith({
+      where: { episodeId: 'dup-s1e1', userId: { notIn: ['user-1'] } },
+      data: { episodeId: 'target-s1e1' },
+    });
+  });
+});
+
+describe('episodeService.assertDistinctNumbers', () => {
+  test('rejects episodes listed twice', async () => {
+    const error = await catchAppError(() => episodeService.assertDistinctNumbers([{ number: 1 }, { number: 2 }, { number: 1 }]));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Episode 1 is listed twice');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { filterService } from "@/services/filter.service";
+import { catchAppError } from "./helpers";
+
+describe('filterService.assertSafeRegex', () => {
+  test.each([
+    '^the (dark|last) ',
+    'star ?wars',
+    '^[a-z]{2,5}$',
+    'a{3}',
+    '\\(director\'s cut\\)',
+    'x{literal}',
+  ])('accepts %p', (pattern) => {
+    expect(() => filterService.assertSafeRegex(pattern)).not.toThrow();
+  });
+
+  test.each([
+    ['(a+)+', 'nested'],
+    ['(a*)*b', 'nested'],
+    ['(\\w+\\s?)+$', 'nested'],
+    ['(a)\\1', 'backreference'],
+    ['foo(?=bar)', 'lookaround'],
+    ['(?<!x)y', 'lookaround'],
+    ['a{1000}', 'repetition'],
+    ['a+b+c+d+e+f+g+h+i+j+k+', 'quantifiers'],
+    ['a'.repeat(101), 'characters'],
+  ])('rejects %p', async (pattern, reason) => {
+    const error = await catchAppError(() => filterService.assertSafeRegex(pattern));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toStartWith('Invalid titleRegex');
+    expect(error.message).toContain(reason);
+  });
+});
+
+describe('filterService.parseExpression', () => {
+  test('combines terms, normalizes tags and types and negates excluded terms', () => {
+    expect(filterService.parseExpression('type:film tag:Sci-Fi year:>=2010 -tag:horror')).toEqual({
+      AND: [
+        { type: 'FILM' },
+        { tags: { has: 'sci-fi' } },
+        { releaseDate: { gte: new Date('2010-01-01T00:00:00.000Z') } },
+        { NOT: { tags: { has: 'horror' } } },
+      ],
+    });
+  });
+
+  test('matches bare words and quoted values on the title', () => {
+    expect(filterService.parseExpression('"the dark" knight')).toEqual({
+      AND: [
+        { title: { contains: 'the dark', mode: 'insensitive' } },
+        { title: { contains: 'knight', mode: 'insensitive' } },
+      ],
+    });
+  });
+
+  test('parses year ranges, dates and ratings', () => {
+    expect(filterService.parseExpression('year:2010..2015 released:<2000-01-01 rating:>=8')).toEqual({
+      AND: [
+        { releaseDate: { gte: new Date('2010-01-01T00:00:00.000Z'), lt: new Date('2016-01-01T00:00:00.000Z') } },
+        { releaseDate: { lt: new Date('2000-01-01T00:00:00.000Z') } },
+        { ratingAverage: { gte: 8 } },
+      ],
+    });
+  });
+
+  test('returns an empty clause for a blank expression', () => {
+    expect(filterService.parseExpression('   ')).toEqual({});
+  });
+
+  test('filters on status for the given user only', async () => {
+    expect(filterService.parseExpression('status:completed', 'user-1')).toEqual({
+      AND: [{ userMedia: { some: { userId: 'user-1', status: 'COMPLETED' } } }],
+    });
+    expect((await catchAppError(() => filterService.parseExpression('status:completed'))).statusCode).toBe(401);
+  });
+
+  test.each([
+    ['genre:drama', 'unknown field'],
+    ['type:podcast', 'type must be one of'],
+    ['status:someday', 'status must be one of'],
+    ['rating:>=good', 'rating must be a number'],
+    ['tag:""', 'empty value'],
+  ])('rejects %p', async (expression, reason) => {
+    const error = await catchAppError(() => filterService.parseExpression(expression, 'user-1'));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toContain(reason);
+  });
+});
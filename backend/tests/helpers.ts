@@ -0,0 +1,16 @@
+import { AppError } from "@/middleware/errorHandler";
+
+/**
+ * Run a function expected to throw an AppError and return the error, to check its status and message
+ */
+export async function catchAppError(run: () => unknown): Promise<AppError> {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof AppError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected an AppError to be thrown');
+}
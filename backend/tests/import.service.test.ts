@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { importService } from "@/services/import.service";
+import { catchAppError } from "./helpers";
+
+const LETTERBOXD_LIST = [
+  'Letterboxd list export v7',
+  'Date,Name,Tags,URL,Description',
+  '2026-01-01,Nolan,,https://boxd.it/abc,"Films by Nolan"',
+  '',
+  'Position,Name,Year,URL,Description',
+  '1,Inception,2010,https://boxd.it/1skk/,',
+  '2,"Tenet, Again",2020,https://boxd.it/kmDA,',
+].join('\n');
+
+describe('importService.detectFormat', () => {
+  test.each([
+    ['items.json', '[]', 'json'],
+    ['export.csv', '{"items": []}', 'json'],
+    ['list.csv', LETTERBOXD_LIST, 'letterboxd'],
+    ['watched.csv', 'Date,Name,Year,Letterboxd URI\n', 'letterboxd'],
+    ['goodreads.csv', 'Book Id,Title,Author,ISBN,Exclusive Shelf\n', 'goodreads'],
+    ['imdb.csv', 'Const,Title,Title Type,Year\n', 'imdb'],
+    ['export.csv', 'position,title,type\n', 'csv'],
+  ])('%s is read as %s', (name, text, format) => {
+    expect(importService.detectFormat(name, text)).toBe(format as ReturnType<typeof importService.detectFormat>);
+  });
+});
+
+describe('importService.parseRows for Letterboxd', () => {
+  test('skips the description of a list export and maps the films', () => {
+    expect(importService.parseRows('letterboxd', LETTERBOXD_LIST)).toEqual([
+      {
+        row: 1,
+        position: 1,
+        input: {
+          title: 'Inception',
+          type: 'FILM',
+          releaseDate: '2010-01-01T00:00:00.000Z',
+          url: 'https://boxd.it/1skk/',
+          externalIds: { letterboxd: '1skk' },
+        },
+      },
+      {
+        row: 2,
+        position: 2,
+        input: {
+          title: 'Tenet, Again',
+          type: 'FILM',
+          releaseDate: '2020-01-01T00:00:00.000Z',
+          url: 'https://boxd.it/kmDA',
+          externalIds: { letterboxd: 'kmDA' },
+        },
+      },
+    ]);
+  });
+
+  test('maps watchlist exports', () => {
+    const rows = importService.parseRows('letterboxd', 'Date,Name,Year,Letterboxd URI\n2026-01-01,Heat,1995,https://boxd.it/2a0u\n');
+    expect(rows).toEqual([{
+      row: 1,
+      position: undefined,
+      input: { title: 'Heat', type: 'FILM', releaseDate: '1995-01-01T00:00:00.000Z', url: 'https://boxd.it/2a0u', externalIds: { letterboxd: '2a0u' } },
+    }]);
+  });
+
+  test('rejects a list export without its film header', async () => {
+    const error = await catchAppError(() => importService.parseRows('letterboxd', 'Letterboxd list export v7\nDate,Name\n2026-01-01,Nolan\n'));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Invalid Letterboxd list export');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, mock, test } from "bun:test";
+import { CollectionRole } from "@/generated/prisma/browser";
+import { Prisma } from "@/generated/prisma/client";
+import { memberService } from "@/services/member.service";
+import { db } from "./db";
+import { catchAppError } from "./helpers";
+
+/**
+ * Set up a collection owned by `owner` and an invitee with no membership yet
+ */
+function stubInvitee(): void {
+  db.collection = { findUnique: mock().mockResolvedValue({ ownerId: 'owner' }) };
+  db.user = { findFirst: mock().mockResolvedValue({ id: 'invitee' }) };
+  db.collectionUser = { findUnique: mock().mockResolvedValue(null) };
+}
+
+describe('memberService.inviteMember', () => {
+  test('answers 409 when a concurrent request invited the user first', async () => {
+    stubInvitee();
+    db.$transaction = mock().mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client })
+    );
+
+    const error = await catchAppError(() => memberService.inviteMember('collection-1', { username: 'bob', role: CollectionRole.READER }));
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe('User is already a member');
+  });
+
+  test('answers 409 when the user is already invited', async () => {
+    stubInvitee();
+    db.collectionUser = { findUnique: mock().mockResolvedValue({ accepted: false }) };
+
+    const error = await catchAppError(() => memberService.inviteMember('collection-1', { username: 'bob', role: CollectionRole.READER }));
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe('User has already been invited');
+  });
+
+  test('lets other database errors through', async () => {
+    stubInvitee();
+    const failure = new Prisma.PrismaClientKnownRequestError('Foreign key constraint failed', { code: 'P2003', clientVersion: Prisma.prismaVersion.client });
+    db.$transaction = mock().mockRejectedValue(failure);
+
+    await expect(memberService.inviteMember('collection-1', { username: 'bob', role: CollectionRole.READER })).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { MediaType } from "@/generated/prisma/browser";
+import { createFakeProvider, DEFAULT_FIXTURES_PATH } from "@/providers/metadata/fake.provider";
+import { mediaService } from "@/services/media.service";
+import { metadataService } from "@/services/metadata.service";
+import { catchAppError } from "./helpers";
+
+describe('fake metadata provider', () => {
+  const provider = createFakeProvider({ fixturesPath: DEFAULT_FIXTURES_PATH });
+
+  test('matches every word on the title and director/author, ignoring case and accents', async () => {
+    expect((await provider.search('NOLAN')).map((result) => result.externalId))
+      .toEqual(['fake-film-inception', 'fake-film-interstellar']);
+    expect((await provider.search('amelie jeunet')).map((result) => result.title))
+      .toEqual(["Le Fabuleux Destin d'Amélie Poulain"]);
+    expect(await provider.search('nolan dune')).toEqual([]);
+  });
+
+  test('filters on the media type', async () => {
+    expect((await provider.search('a', MediaType.BOOK)).map((result) => result.externalId))
+      .toEqual(['fake-book-dune', 'fake-book-foundation']);
+  });
+
+  test('returns search results without the full record', async () => {
+    const [result] = await provider.search('inception');
+    expect(result).toEqual({
+      provider: 'fake',
+      externalId: 'fake-film-inception',
+      title: 'Inception',
+      type: MediaType.FILM,
+      releaseDate: '2010-07-16T00:00:00.000Z',
+      directorAuthor: 'Christopher Nolan',
+      coverUrl: 'https://example.com/covers/inception.jpg',
+    });
+  });
+
+  test('fetches a full record, null when unknown', async () => {
+    expect(await provider.fetch('fake-book-dune')).toMatchObject({
+      provider: 'fake',
+      title: 'Dune',
+      externalIds: { openlibrary: 'OL893415W' },
+      scores: { goodreads: { value: 4.27, votes: 1400000 } },
+    });
+    expect(await provider.fetch('unknown')).toBeNull();
+  });
+});
+
+describe('metadataService with the fake provider', () => {
+  test('enables the providers of METADATA_PROVIDERS', () => {
+    expect([...metadataService.getProviders().keys()]).toEqual(['fake']);
+  });
+
+  test('looks up titles and caches the responses', async () => {
+    const provider = metadataService.getProvider('fake');
+    const search = spyOn(provider, 'search');
+
+    const first = await metadataService.lookup('Frank Herbert');
+    const second = await metadataService.lookup('  frank herbert ');
+    expect(first).toEqual({ results: [expect.objectContaining({ externalId: 'fake-book-dune' })], errors: [] });
+    expect(second).toEqual(first);
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  test('reports a failing provider next to the results', async () => {
+    const provider = metadataService.getProvider('fake');
+    spyOn(provider, 'search').mockRejectedValue(new Error('down'));
+
+    expect(await metadataService.lookup('failing query')).toEqual({ results: [], errors: [{ provider: 'fake', error: 'Provider error' }] });
+  });
+
+  test('rejects providers that are not enabled and unknown titles', async () => {
+    expect((await catchAppError(() => metadataService.lookup('dune', { provider: 'tmdb' }))).statusCode).toBe(400);
+    expect((await catchAppError(() => metadataService.fetchRecord('fake', 'unknown'))).statusCode).toBe(404);
+  });
+
+  test('imports a title through media creation', async () => {
+    const createMedia = spyOn(mediaService, 'createMedia').mockResolvedValue({ status: 'duplicate', candidates: [] });
+
+    await metadataService.importMedia(
+      { provider: 'fake', externalId: 'fake-film-inception', collectionId: 'collection-1', platforms: ['Netflix'], onDuplicate: 'attach' },
+      'user-1'
+    );
+
+    expect(createMedia).toHaveBeenCalledTimes(1);
+    const [data, userId, collectionId, onDuplicate] = createMedia.mock.calls[0] ?? [];
+    expect([userId, collectionId, onDuplicate]).toEqual(['user-1', 'collection-1', 'attach']);
+    expect(data).toMatchObject({
+      title: 'Inception',
+      type: MediaType.FILM,
+      releaseDate: new Date('2010-07-16T00:00:00.000Z'),
+      directorAuthor: 'Christopher Nolan',
+      tags: ['sci-fi', 'thriller', 'heist'],
+      platforms: ['Netflix'],
+      externalIds: { imdb: 'tt1375666', tmdb: '27205' },
+      scores: {
+        imdb: { value: 8.8, votes: 2500000, fetchedAt: expect.any(String) },
+        metacritic: { value: 74, fetchedAt: expect.any(String) },
+      },
+    });
+  });
+});
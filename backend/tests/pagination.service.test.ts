@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { paginationService, type SortKey } from "@/services/pagination.service";
+import { catchAppError } from "./helpers";
+
+const KEY: SortKey = { field: 'createdAt', type: 'date' };
+const ROW = { id: 'media-1', createdAt: new Date('2026-01-02T03:04:05.000Z') };
+
+describe('paginationService cursors', () => {
+  test('round-trip the position of a row', () => {
+    const cursor = paginationService.encodeCursor(KEY, 'createdAt', 'desc', ROW, 'next');
+    expect(paginationService.decodeCursor(cursor, 'createdAt', 'desc')).toEqual({
+      sort: 'createdAt',
+      order: 'desc',
+      direction: 'next',
+      value: '2026-01-02T03:04:05.000Z',
+      id: 'media-1',
+    });
+  });
+
+  test('reject a tampered payload', async () => {
+    const cursor = paginationService.encodeCursor(KEY, 'createdAt', 'desc', ROW, 'next');
+    const [, signature] = cursor.split('.');
+    const forged = Buffer.from(JSON.stringify({ sort: 'createdAt', order: 'desc', direction: 'next', value: null, id: 'other' }))
+      .toString('base64url');
+
+    const error = await catchAppError(() => paginationService.decodeCursor(`${forged}.${signature}`, 'createdAt', 'desc'));
+    expect(error.statusCode).toBe(400);
+    expect(error.message).toBe('Invalid cursor');
+  });
+
+  test.each([
+    ['a wrong signature', (cursor: string) => `${cursor.split('.')[0]}.${'A'.repeat(43)}`],
+    ['a truncated signature', (cursor: string) => cursor.slice(0, -1)],
+    ['no signature', (cursor: string) => cursor.split('.')[0] ?? ''],
+    ['garbage', () => 'not-a-cursor'],
+  ])('reject %s', async (_name, tamper) => {
+    const cursor = paginationService.encodeCursor(KEY, 'createdAt', 'desc', ROW, 'next');
+    const error = await catchAppError(() => paginationService.decodeCursor(tamper(cursor), 'createdAt', 'desc'));
+    expect(error.statusCode).toBe(400);
+  });
+
+  test('reject a cursor created for another sort or order', async () => {
+    const cursor = paginationService.encodeCursor(KEY, 'createdAt', 'desc', ROW, 'next');
+    expect((await catchAppError(() => paginationService.decodeCursor(cursor, 'title', 'desc'))).statusCode).toBe(400);
+    expect((await catchAppError(() => paginationService.decodeCursor(cursor, 'createdAt', 'asc'))).message)
+      .toBe('This cursor was created for sort=createdAt&order=desc');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { CollectionRole, Visibility } from "@/generated/prisma/browser";
+import { ACTION_MATRIX, policyService, type CollectionResource, type PolicyAction } from "@/services/policy.service";
+
+const OWNER = { id: 'owner' };
+const STRANGER = { id: 'stranger' };
+
+/**
+ * Build a collection resource owned by OWNER, with accepted memberships unless stated otherwise
+ */
+function collection(
+  id: string,
+  options: {
+    visibility?: Visibility;
+    members?: { userId: string; role: CollectionRole; accepted?: boolean }[];
+    ancestors?: CollectionResource['ancestors'];
+    ownerId?: string;
+  } = {}
+): CollectionResource {
+  return {
+    id,
+    ownerId: options.ownerId ?? OWNER.id,
+    visibility: options.visibility ?? Visibility.PRIVATE,
+    members: (options.members ?? []).map((member) => ({ accepted: true, ...member })),
+    ancestors: options.ancestors ?? [],
+  };
+}
+
+const actions = Object.keys(ACTION_MATRIX) as PolicyAction[];
+
+describe('policyService.resolveRole', () => {
+  test('gives OWNER to the owner and the role of an accepted membership', () => {
+    const resource = collection('c', { members: [{ userId: 'reader', role: CollectionRole.READER }] });
+    expect(policyService.resolveRole(OWNER, resource)).toBe(CollectionRole.OWNER);
+    expect(policyService.resolveRole({ id: 'reader' }, resource)).toBe(CollectionRole.READER);
+    expect(policyService.resolveRole(STRANGER, resource)).toBeNull();
+    expect(policyService.resolveRole(null, resource)).toBeNull();
+  });
+
+  test('ignores pending invitations', () => {
+    const resource = collection('c', { members: [{ userId: 'invited', role: CollectionRole.COLLABORATOR, accepted: false }] });
+    expect(policyService.resolveRole({ id: 'invited' }, resource)).toBeNull();
+  });
+
+  test('inherits roles from ancestors, keeping the highest one', () => {
+    const resource = collection('child', {
+      ownerId: 'someone',
+      members: [{ userId: 'member', role: CollectionRole.READER }],
+      ancestors: [
+        { id: 'parent', ownerId: 'someone', members: [{ userId: 'member', role: CollectionRole.COLLABORATOR, accepted: true }] },
+        { id: 'root', ownerId: OWNER.id, members: [] },
+      ],
+    });
+    expect(policyService.resolveRole({ id: 'member' }, resource)).toBe(CollectionRole.COLLABORATOR);
+    expect(policyService.resolveRole(OWNER, resource)).toBe(CollectionRole.OWNER);
+  });
+});
+
+describe('policyService.can on collections', () => {
+  test.each(actions)('%s follows the action matrix', (action) => {
+    const rule = ACTION_MATRIX[action];
+    const resource = collection('c', {
+      members: [
+        { userId: 'reader', role: CollectionRole.READER },
+        { userId: 'collaborator', role: CollectionRole.COLLABORATOR },
+      ],
+    });
+    const can = (user: { id: string } | null, target = resource) =>
+      policyService.can(user, action, { type: 'collection', collection: target });
+    const roles: readonly CollectionRole[] = rule.roles;
+
+    expect(can(OWNER)).toBe(roles.includes(CollectionRole.OWNER));
+    expect(can({ id: 'collaborator' })).toBe(roles.includes(CollectionRole.COLLABORATOR));
+    expect(can({ id: 'reader' })).toBe(roles.includes(CollectionRole.READER));
+    expect(can(STRANGER)).toBe(false);
+    expect(can(null, collection('public', { visibility: Visibility.PUBLIC }))).toBe(rule.public);
+  });
+
+  test('does not inherit visibility', () => {
+    const privateChild = collection('child', { ownerId: 'someone', ancestors: [{ id: 'root', ownerId: 'someone', members: [] }] });
+    const publicChild = { ...privateChild, visibility: Visibility.PUBLIC };
+    expect(policyService.can(STRANGER, 'collection:read', { type: 'collection', collection: privateChild })).toBe(false);
+    expect(policyService.can(STRANGER, 'collection:read', { type: 'collection', collection: publicChild })).toBe(true);
+  });
+});
+
+describe('policyService.can on media', () => {
+  const own = collection('own', { ownerId: 'user' });
+  const shared = collection('shared', { members: [{ userId: 'user', role: CollectionRole.READER }] });
+
+  test('grants media:read when any collection grants it', () => {
+    const media = { id: 'm', collections: [{ collection: own }, { collection: shared }] };
+    expect(policyService.can({ id: 'user' }, 'media:read', { type: 'media', media })).toBe(true);
+  });
+
+  test('requires every collection to grant the other actions', () => {
+    const media = { id: 'm', collections: [{ collection: own }, { collection: shared }] };
+    expect(policyService.can({ id: 'user' }, 'media:update', { type: 'media', media })).toBe(false);
+    expect(policyService.can({ id: 'user' }, 'media:update', { type: 'media', media: { id: 'm', collections: [{ collection: own }] } })).toBe(true);
+  });
+
+  test('denies everything on media outside of any collection', () => {
+    const media = { id: 'm', collections: [] };
+    expect(policyService.can(OWNER, 'media:read', { type: 'media', media })).toBe(false);
+    expect(policyService.can(OWNER, 'media:update', { type: 'media', media })).toBe(false);
+  });
+});
+
+describe('policyService.isAdmin', () => {
+  test('matches the emails of ADMIN_EMAILS ignoring case', () => {
+    expect(policyService.isAdmin({ id: 'a', email: 'Admin@Example.com' })).toBe(true);
+    expect(policyService.isAdmin({ id: 'b', email: 'user@example.com' })).toBe(false);
+    expect(policyService.isAdmin({ id: 'c' })).toBe(false);
+    expect(policyService.isAdmin(null)).toBe(false);
+  });
+});
+
+describe('policyService.collectionIdsSql', () => {
+  test('selects only public collections for anonymous users', () => {
+    const query = policyService.collectionIdsSql(null, 'collection:read');
+    expect(query.sql).toContain(`"visibility" = 'PUBLIC'`);
+    expect(query.sql).not.toContain('RECURSIVE');
+    expect(query.values).toEqual([]);
+  });
+
+  test('selects nothing when an anonymous user asks for a members-only action', () => {
+    const query = policyService.collectionIdsSql(null, 'collection:update');
+    expect(query.sql).toContain('WHERE false');
+  });
+
+  test('walks down from the owned and joined collections of a user', () => {
+    const query = policyService.collectionIdsSql(STRANGER, 'collection:update');
+    expect(query.sql).toContain('WITH RECURSIVE');
+    expect(query.sql).not.toContain(`'PUBLIC'`);
+    expect(query.values).toEqual([STRANGER.id, STRANGER.id, [CollectionRole.COLLABORATOR], 5]);
+  });
+
+  test('only looks at ownership for owner-only actions', () => {
+    const query = policyService.collectionIdsSql(STRANGER, 'collection:delete');
+    expect(query.sql).not.toContain('collection_users');
+    expect(query.values).toEqual([STRANGER.id, 5]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, mock, spyOn, test } from "bun:test";
+import { AppError } from "@/middleware/errorHandler";
+import { policyService, type CollectionResource } from "@/services/policy.service";
+import { realtimeService, type RealtimeServerMessage } from "@/services/realtime.service";
+
+const USER = { id: 'user-1' };
+
+/**
+ * Open a session for USER, recording what it sends
+ */
+function openSession(): { sent: RealtimeServerMessage[]; session: ReturnType<typeof realtimeService.openSession> } {
+  const sent: RealtimeServerMessage[] = [];
+  return { sent, session: realtimeService.openSession(USER, (message) => sent.push(message)) };
+}
+
+/**
+ * Let queued deliveries and their access checks run
+ */
+async function flush(): Promise<void> {
+  await Bun.sleep(5);
+}
+
+const subscribe = (collectionId: string) => JSON.stringify({ type: 'subscribe', collectionId });
+
+describe('realtimeService.openSession', () => {
+  test('rejects messages that are not valid JSON or not a known message', async () => {
+    const { sent, session } = openSession();
+
+    await session.handle('not json');
+    await session.handle(JSON.stringify({ type: 'subscribe', collectionId: 'not-a-uuid' }));
+
+    expect(sent).toEqual([
+      { type: 'error', collectionId: null, error: 'Invalid message' },
+      { type: 'error', collectionId: null, error: 'Invalid message' },
+    ]);
+    session.close();
+  });
+
+  test('refuses to subscribe to an unreadable collection', async () => {
+    const collectionId = crypto.randomUUID();
+    spyOn(policyService, 'authorizeCollection').mockRejectedValue(new AppError('Collection not found', 404));
+    const { sent, session } = openSession();
+
+    await session.handle(subscribe(collectionId));
+
+    expect(sent).toEqual([{ type: 'error', collectionId, error: 'Collection not found' }]);
+    session.close();
+  });
+
+  test('delivers the events of a subscribed collection', async () => {
+    const collectionId = crypto.randomUUID();
+    spyOn(policyService, 'authorizeCollection').mockResolvedValue({} as CollectionResource);
+    const { sent, session } = openSession();
+
+    await session.handle(subscribe(collectionId));
+    await realtimeService.publish([{ type: 'item.added', collectionId, data: { mediaId: 'media-1' } }]);
+    await flush();
+
+    expect(sent[0]).toEqual({ type: 'subscribed', collectionId });
+    expect(sent[1]).toMatchObject({ type: 'event', event: { type: 'item.added', collectionId, actorId: null, data: { mediaId: 'media-1' } } });
+    session.close();
+  });
+
+  test('ends the subscription when an access event revokes access', async () => {
+    const collectionId = crypto.randomUUID();
+    const authorize = spyOn(policyService, 'authorizeCollection').mockResolvedValue({} as CollectionResource);
+    const { sent, session } = openSession();
+
+    await session.handle(subscribe(collectionId));
+    authorize.mockRejectedValue(new AppError('Collection not found', 404));
+    await realtimeService.publish([
+      { type: 'access.changed', collectionId, data: {} },
+      { type: 'item.added', collectionId, data: { mediaId: 'media-1' } },
+    ]);
+    await flush();
+
+    expect(sent).toEqual([
+      { type: 'subscribed', collectionId },
+      { type: 'unsubscribed', collectionId, reason: 'Access revoked' },
+    ]);
+    session.close();
+  });
+
+  test('does not forward access.changed while access remains', async () => {
+    const collectionId = crypto.randomUUID();
+    spyOn(policyService, 'authorizeCollection').mockResolvedValue({} as CollectionResource);
+    const { sent, session } = openSession();
+
+    await session.handle(subscribe(collectionId));
+    await realtimeService.publish([{ type: 'access.changed', collectionId, data: {} }]);
+    await flush();
+
+    expect(sent).toEqual([{ type: 'subscribed', collectionId }]);
+    session.close();
+  });
+
+  test('ends the subscription after delivering the deletion of the collection', async () => {
+    const collectionId = crypto.randomUUID();
+    spyOn(policyService, 'authorizeCollection').mockResolvedValue({} as CollectionResource);
+    const { sent, session } = openSession();
+
+    await session.handle(subscribe(collectionId));
+    await realtimeService.publish([
+      { type: 'collection.deleted', collectionId, data: {} },
+      { type: 'item.added', collectionId, data: { mediaId: 'media-1' } },
+    ]);
+    await flush();
+
+    expect(sent.map((message) => message.type)).toEqual(['subscribed', 'event', 'unsubscribed']);
+    expect(sent[2]).toEqual({ type: 'unsubscribed', collectionId, reason: 'Collection deleted' });
+    session.close();
+  });
+
+  test('stops delivering once the connection is closed', async () => {
+    const collectionId = crypto.randomUUID();
+    spyOn(policyService, 'authorizeCollection').mockResolvedValue({} as CollectionResource);
+    const send = mock();
+    const session = realtimeService.openSession(USER, send);
+
+    await session.handle(subscribe(collectionId));
+    session.close();
+    await realtimeService.publish([{ type: 'item.added', collectionId, data: { mediaId: 'media-1' } }]);
+    await flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
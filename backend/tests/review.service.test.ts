@@ -0,0 +1,53 @@
+import { describe, expect, mock, test } from "bun:test";
+import { Prisma } from "@/generated/prisma/client";
+import { reviewService } from "@/services/review.service";
+import { db } from "./db";
+import { catchAppError } from "./helpers";
+
+describe('reviewService.createReview', () => {
+  test('answers 409 when a concurrent request created the review first', async () => {
+    db.$transaction = mock().mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client })
+    );
+
+    const error = await catchAppError(() => reviewService.createReview('media-1', 'user-1', { rating: 8 }));
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe('You already reviewed this media');
+  });
+
+  test('lets other database errors through', async () => {
+    const failure = new Prisma.PrismaClientKnownRequestError('Foreign key constraint failed', { code: 'P2003', clientVersion: Prisma.prismaVersion.client });
+    db.$transaction = mock().mockRejectedValue(failure);
+
+    await expect(reviewService.createReview('media-1', 'user-1', { rating: 8 })).rejects.toBe(failure);
+  });
+});
+
+describe('reviewService.refreshMediaRating', () => {
+  test('locks the media row before aggregating its reviews', async () => {
+    const calls: string[] = [];
+    const tx = {
+      $queryRaw: mock(async (query: TemplateStringsArray) => {
+        calls.push(query.join('?'));
+        return [];
+      }),
+      review: {
+        aggregate: mock(async () => {
+          calls.push('aggregate');
+          return { _avg: { rating: 7.5 }, _count: { _all: 2 } };
+        }),
+      },
+      media: {
+        update: mock(async () => {
+          calls.push('update');
+          return {};
+        }),
+      },
+    };
+
+    await reviewService.refreshMediaRating(tx as unknown as Prisma.TransactionClient, 'media-1');
+
+    expect(calls).toEqual(['SELECT id FROM "media" WHERE id = ? FOR UPDATE', 'aggregate', 'update']);
+    expect(tx.media.update).toHaveBeenCalledWith({ where: { id: 'media-1' }, data: { ratingAverage: 7.5, ratingCount: 2 } });
+  });
+});
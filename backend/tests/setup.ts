@@ -0,0 +1,15 @@
+import { afterEach, mock } from "bun:test";
+import { db, resetDb } from "./db";
+
+// Loaded before the tests (see bunfig.toml): configuration read by env.ts when the services are imported
+process.env.METADATA_PROVIDERS = 'fake';
+process.env.METADATA_FIXTURES_PATH = '';
+process.env.CURSOR_SECRET = 'test-cursor-secret';
+process.env.ADMIN_EMAILS = 'admin@example.com';
+
+mock.module('@/db', () => ({ default: db }));
+
+afterEach(() => {
+  mock.restore();
+  resetDb();
+});
@@ -0,0 +1,51 @@
+import { describe, expect, mock, test } from "bun:test";
+import { Prisma } from "@/generated/prisma/client";
+import { tagService } from "@/services/tag.service";
+import { db } from "./db";
+
+/**
+ * Record the query sent to `$queryRaw` and answer with the given rows
+ */
+function captureQuery(rows: unknown[] = []): { query: () => Prisma.Sql } {
+  let captured: Prisma.Sql | undefined;
+  db.$queryRaw = mock(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    captured = Prisma.sql(strings, ...values);
+    return rows;
+  });
+  return { query: () => captured! };
+}
+
+describe('tagService.listTags', () => {
+  test('returns the rows counted by the database', async () => {
+    const rows = [{ tag: 'sci-fi', count: 3, media: 2, collections: 1 }];
+    captureQuery(rows);
+
+    expect(await tagService.listTags({})).toEqual(rows);
+  });
+
+  test('folds the prefix and applies the limit', async () => {
+    const { query } = captureQuery();
+
+    await tagService.listTags({ prefix: '  Science   F', limit: 5 });
+
+    expect(query().values).toContain('science f');
+    expect(query().values.at(-1)).toBe(5);
+  });
+
+  test('defaults to no prefix and 20 tags', async () => {
+    const { query } = captureQuery();
+
+    await tagService.listTags({});
+
+    expect(query().values).toEqual(['', '', 20]);
+  });
+
+  test('restricts the counts to the collections readable by the user', async () => {
+    const { query } = captureQuery();
+
+    await tagService.listTags({}, 'user-1');
+
+    expect(query().sql).toContain('WITH RECURSIVE');
+    expect(query().values.filter((value) => value === 'user-1')).toHaveLength(4);
+  });
+});